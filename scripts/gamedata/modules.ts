@@ -0,0 +1,80 @@
+/**
+ * Station modules from their macro files (assets/structures/.../macros/*.xml).
+ */
+
+import type {
+  BuildCost,
+  HabitatModule,
+  ProductionModule,
+  StorageModule,
+  TransportType,
+} from '../../src/types/gamedata';
+import { localize, type LanguageCode, type TextTable } from './text';
+import { childOf, childrenOf, numberAttr, rootOf, type XmlElement } from './xml';
+
+const CARGO_TYPES: TransportType[] = ['container', 'liquid', 'solid'];
+
+export interface ParsedModules {
+  production: ProductionModule[];
+  habitat: HabitatModule[];
+  storage: StorageModule[];
+}
+
+/**
+ * Read the production, habitat and storage modules that have a player blueprint.
+ * Production modules are kept only if their wares are in wares.xml.
+ */
+export function parseModules(
+  macroDocs: XmlElement[],
+  blueprints: Map<string, BuildCost>,
+  isKnownWare: (wareId: string) => boolean,
+  tables: Map<LanguageCode, TextTable>
+): ParsedModules {
+  const modules: ParsedModules = { production: [], habitat: [], storage: [] };
+
+  for (const doc of macroDocs) {
+    for (const macro of childrenOf(rootOf(doc) ?? doc, 'macro')) {
+      const id = macro.attrs.name;
+      const buildCost = id ? blueprints.get(id) : undefined;
+      const properties = childOf(macro, 'properties');
+      if (!buildCost || !properties) continue;
+
+      const name = localize(childOf(properties, 'identification')?.attrs.name, tables) ?? { en: id };
+      const workforce = childOf(properties, 'workforce');
+
+      if (macro.attrs.class === 'production') {
+        // Recyclers list several wares; the ID keeps them space-separated
+        const producedWares = (childOf(properties, 'production')?.attrs.wares ?? '').split(/\s+/).filter(Boolean);
+        if (producedWares.length === 0 || !producedWares.every(isKnownWare)) continue;
+        const producedWareId = producedWares.join(' ');
+        modules.production.push({
+          id,
+          name,
+          producedWareId,
+          workforceMax: numberAttr(workforce, 'max') ?? 0,
+          buildCost,
+        });
+      } else if (macro.attrs.class === 'habitation') {
+        modules.habitat.push({
+          id,
+          name,
+          race: workforce?.attrs.race ?? 'argon',
+          workforceCapacity: numberAttr(workforce, 'capacity') ?? 0,
+          buildCost,
+        });
+      } else if (macro.attrs.class === 'storage') {
+        const cargo = childOf(properties, 'cargo');
+        const cargoType = CARGO_TYPES.find((type) => cargo?.attrs.tags?.split(/\s+/).includes(type));
+        if (!cargoType) continue;
+        modules.storage.push({
+          id,
+          name,
+          cargoMax: numberAttr(cargo, 'max') ?? 0,
+          cargoType,
+          buildCost,
+        });
+      }
+    }
+  }
+  return modules;
+}
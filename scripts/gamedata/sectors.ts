@@ -0,0 +1,73 @@
+/**
+ * Sectors from a spreadsheet export (CSV with a header row).
+ *
+ * Expected columns: Name (or Sector), Sunlight (percent), Owner, plus one
+ * column per resource with yes/no values. Resource column headers become
+ * camelCase keys ("Raw Scrap" -> rawScrap).
+ */
+
+import Papa from 'papaparse';
+import type { Sector } from '../../src/types/gamedata';
+
+const NAME_COLUMNS = ['name', 'sector'];
+const SUNLIGHT_COLUMN = 'sunlight';
+const OWNER_COLUMN = 'owner';
+
+const TRUE_VALUES = new Set(['y', 'yes', 'true', 'x', '1']);
+
+/** Sector IDs are slugs of their English names ("Atiya's Misfortune III" -> atiya-s-misfortune-iii) */
+export const sectorId = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const camelCase = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)/g, (_, char: string) => char.toUpperCase())
+    .replace(/[^a-zA-Z0-9]/g, '');
+
+export function parseSectors(csv: string): { sectors: Sector[]; warnings: string[] } {
+  const { data, meta, errors } = Papa.parse<Record<string, string>>(csv.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+  });
+  const warnings = errors.map((e) => `Sector CSV row ${e.row ?? '?'}: ${e.message}`);
+
+  const headers = meta.fields ?? [];
+  const find = (names: string[]) => headers.find((h) => names.includes(h.trim().toLowerCase()));
+  const nameColumn = find(NAME_COLUMNS);
+  const sunlightColumn = find([SUNLIGHT_COLUMN]);
+  const ownerColumn = find([OWNER_COLUMN]);
+  if (!nameColumn || !sunlightColumn) {
+    return { sectors: [], warnings: [...warnings, 'Sector CSV needs Name and Sunlight columns'] };
+  }
+  const resourceColumns = headers.filter((h) => h !== nameColumn && h !== sunlightColumn && h !== ownerColumn);
+
+  const sectors: Sector[] = [];
+  const seen = new Set<string>();
+  for (const row of data) {
+    const name = row[nameColumn]?.trim();
+    if (!name) continue;
+    const id = sectorId(name);
+    if (seen.has(id)) {
+      warnings.push(`Duplicate sector "${name}" skipped`);
+      continue;
+    }
+    seen.add(id);
+
+    const sunlight = parseFloat((row[sunlightColumn] ?? '').replace('%', ''));
+    sectors.push({
+      id,
+      name,
+      sunlight: Number.isFinite(sunlight) ? sunlight : 100,
+      owner: ownerColumn ? row[ownerColumn]?.trim() ?? '' : '',
+      resources: Object.fromEntries(
+        resourceColumns.map((column) => [
+          camelCase(column),
+          TRUE_VALUES.has((row[column] ?? '').trim().toLowerCase()),
+        ])
+      ),
+    });
+  }
+  return { sectors, warnings };
+}
@@ -0,0 +1,76 @@
+/**
+ * Game text: the t/ language files and "{page,id}" text references.
+ */
+
+import type { LocalizedName } from '../../src/types/gamedata';
+import { childrenOf, rootOf, type XmlElement } from './xml';
+
+/** Languages the planner ships, with X4's language file IDs */
+export const LANGUAGES = [
+  { code: 'en', id: 44, label: 'English' },
+  { code: 'ru', id: 7, label: 'Русский' },
+  { code: 'fr', id: 33, label: 'Français' },
+  { code: 'de', id: 49, label: 'Deutsch' },
+  { code: 'zh', id: 86, label: '中文' },
+] as const;
+
+export type LanguageCode = (typeof LANGUAGES)[number]['code'];
+
+/** Language file name inside a t/ folder, e.g. 0001-l044.xml */
+export const languageFile = (id: number) => `0001-l${String(id).padStart(3, '0')}.xml`;
+
+/** Text entries by "page,id" */
+export type TextTable = Map<string, string>;
+
+// References can nest (a text made of other texts); stop runaway chains
+const MAX_REFERENCE_DEPTH = 10;
+
+/**
+ * Build a text table from a language document. Later pages and entries
+ * override earlier ones, so extension pages appended to the document win.
+ */
+export function buildTextTable(doc: XmlElement): TextTable {
+  const table: TextTable = new Map();
+  for (const page of childrenOf(rootOf(doc) ?? doc, 'page')) {
+    for (const entry of childrenOf(page, 't')) {
+      table.set(`${page.attrs.id},${entry.attrs.id}`, entry.text);
+    }
+  }
+  return table;
+}
+
+/**
+ * Resolve "{page,id}" references, then drop "(comments)" and unescape
+ * "\(" / "\)" the way the game does.
+ */
+export function resolveText(text: string, table: TextTable, depth = 0): string {
+  const resolved = text.replace(/\{\s*(\d+)\s*,\s*(\d+)\s*\}/g, (ref, page, id) => {
+    const entry = table.get(`${page},${id}`);
+    return entry === undefined || depth >= MAX_REFERENCE_DEPTH ? ref : resolveText(entry, table, depth + 1);
+  });
+  if (depth > 0) return resolved;
+  return resolved
+    .replace(/(?<!\\)\((?:\\.|[^\\)])*\)/g, '')
+    .replace(/\\([()])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Resolve a text reference in every loaded language.
+ * Languages where it does not resolve are left out (the app falls back to English).
+ */
+export function localize(
+  text: string | undefined,
+  tables: Map<LanguageCode, TextTable>
+): LocalizedName | undefined {
+  if (!text) return undefined;
+  const name: LocalizedName = {};
+  for (const { code } of LANGUAGES) {
+    const table = tables.get(code);
+    if (!table) continue;
+    const resolved = resolveText(text, table);
+    if (resolved && !/\{\s*\d+\s*,\s*\d+\s*\}/.test(resolved)) name[code] = resolved;
+  }
+  return Object.keys(name).length > 0 ? name : undefined;
+}
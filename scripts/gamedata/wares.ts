@@ -0,0 +1,145 @@
+/**
+ * Wares, recipes, workforce upkeep and module build costs from libraries/wares.xml.
+ */
+
+import type {
+  BuildCost,
+  RaceWorkforce,
+  Recipe,
+  Ware,
+  WareInput,
+} from '../../src/types/gamedata';
+import { localize, type LanguageCode, type TextTable } from './text';
+import { childOf, childrenOf, numberAttr, rootOf, type XmlElement } from './xml';
+
+// Production methods no player station can use
+const SKIPPED_METHODS = new Set(['xenon']);
+
+// Wares whose production entries define worker upkeep per race
+const BUSY_WORKER_WARE = 'workunit_busy';
+const IDLE_WORKER_WARE = 'workunit_idle';
+
+// Upkeep method "default" is the Argon one
+const DEFAULT_RACE = 'argon';
+
+/** A <ware> from wares.xml, keyed by ID */
+export type WareElements = Map<string, XmlElement>;
+
+export function collectWares(doc: XmlElement): WareElements {
+  const wares: WareElements = new Map();
+  for (const ware of childrenOf(rootOf(doc) ?? doc, 'ware')) {
+    if (ware.attrs.id) wares.set(ware.attrs.id, ware);
+  }
+  return wares;
+}
+
+const methodOf = (production: XmlElement) => production.attrs.method ?? 'default';
+
+function productionsOf(ware: XmlElement): XmlElement[] {
+  return childrenOf(ware, 'production').filter((p) => !SKIPPED_METHODS.has(methodOf(p)));
+}
+
+function primaryInputs(production: XmlElement): WareInput[] {
+  const primary = childOf(production, 'primary');
+  return primary
+    ? childrenOf(primary, 'ware').map((w) => ({ ware: w.attrs.ware, amount: numberAttr(w, 'amount') ?? 0 }))
+    : [];
+}
+
+/**
+ * Recipes for the given produced wares, one per production method.
+ */
+export function parseRecipes(wares: WareElements, producedWareIds: Iterable<string>): Recipe[] {
+  const recipes: Recipe[] = [];
+  for (const wareId of producedWareIds) {
+    const ware = wares.get(wareId);
+    if (!ware) continue;
+    for (const production of productionsOf(ware)) {
+      const method = methodOf(production);
+      const work = childrenOf(childOf(production, 'effects') ?? production, 'effect').find(
+        (e) => e.attrs.type === 'work'
+      );
+      recipes.push({
+        id: `${wareId}_${method}`,
+        wareId,
+        method,
+        time: numberAttr(production, 'time') ?? 0,
+        amount: numberAttr(production, 'amount') ?? 0,
+        inputs: primaryInputs(production),
+        workforceBonus: numberAttr(work, 'product') ?? 0,
+      });
+    }
+  }
+  return recipes;
+}
+
+/**
+ * Planner ware entry for a wares.xml ware.
+ */
+export function parseWare(
+  ware: XmlElement,
+  tables: Map<LanguageCode, TextTable>
+): Ware {
+  const price = childOf(ware, 'price');
+  const min = numberAttr(price, 'min');
+  const avg = numberAttr(price, 'average');
+  const max = numberAttr(price, 'max');
+  const id = ware.attrs.id;
+
+  return {
+    id,
+    name: localize(ware.attrs.name, tables) ?? { en: id },
+    group: ware.attrs.group ?? '',
+    transport: ware.attrs.transport ?? '',
+    volume: numberAttr(ware, 'volume') ?? 1,
+    tags: (ware.attrs.tags ?? '').split(/\s+/).filter(Boolean),
+    ...(min !== undefined && avg !== undefined && max !== undefined && { price: { min, avg, max } }),
+  };
+}
+
+/**
+ * Worker upkeep per race from the busy/idle work unit wares.
+ */
+export function parseWorkforce(wares: WareElements): Record<string, RaceWorkforce> {
+  const busy = wares.get(BUSY_WORKER_WARE);
+  const idle = wares.get(IDLE_WORKER_WARE);
+  if (!busy) return {};
+
+  const workforce: Record<string, RaceWorkforce> = {};
+  for (const production of productionsOf(busy)) {
+    const method = methodOf(production);
+    const idleProduction = idle && productionsOf(idle).find((p) => methodOf(p) === method);
+    const idleInputs = idleProduction ? primaryInputs(idleProduction) : [];
+
+    workforce[method === 'default' ? DEFAULT_RACE : method] = {
+      cycle: numberAttr(production, 'time') ?? 0,
+      per: numberAttr(production, 'amount') ?? 0,
+      upkeep: primaryInputs(production).map(({ ware, amount }) => ({
+        ware,
+        busy: amount,
+        idle: idleInputs.find((i) => i.ware === ware)?.amount ?? 0,
+      })),
+    };
+  }
+  return workforce;
+}
+
+/**
+ * Module blueprints: wares tagged "module" that build a macro (<component ref>).
+ * Blueprints tagged "noplayerblueprint" are left out.
+ */
+export function parseBlueprints(wares: WareElements): Map<string, BuildCost> {
+  const blueprints = new Map<string, BuildCost>();
+  for (const ware of wares.values()) {
+    const tags = (ware.attrs.tags ?? '').split(/\s+/);
+    const macro = childOf(ware, 'component')?.attrs.ref;
+    if (!macro || !tags.includes('module') || tags.includes('noplayerblueprint')) continue;
+
+    const production = productionsOf(ware).find((p) => methodOf(p) === 'default') ?? productionsOf(ware)[0];
+    blueprints.set(macro, {
+      credits: numberAttr(childOf(ware, 'price'), 'average') ?? 0,
+      wares: production ? primaryInputs(production) : [],
+    });
+  }
+  return blueprints;
+}
@@ -0,0 +1,288 @@
+/**
+ * XML loading and X4 diff patches.
+ *
+ * Files are read into a small element tree that keeps child order. Extensions
+ * (DLCs and mods) change base game files with diff patches
+ * (<diff><add/replace/remove sel="..."/></diff>), which are applied in file order.
+ */
+
+import { readFileSync } from 'node:fs';
+import { XMLParser } from 'fast-xml-parser';
+
+export interface XmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element */
+  text: string;
+}
+
+type ParsedNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseAttributeValue: false,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+function toElement(node: ParsedNode): XmlElement | null {
+  const tag = Object.keys(node).find((key) => key !== ':@');
+  if (!tag || tag === '#text' || tag.startsWith('?')) return null;
+
+  const element: XmlElement = {
+    tag,
+    attrs: { ...((node[':@'] as Record<string, string>) ?? {}) },
+    children: [],
+    text: '',
+  };
+  for (const child of node[tag] as ParsedNode[]) {
+    if ('#text' in child) {
+      element.text += String(child['#text']);
+      continue;
+    }
+    const converted = toElement(child);
+    if (converted) element.children.push(converted);
+  }
+  return element;
+}
+
+/**
+ * Parse an XML string into a document node whose only child is the root element.
+ */
+export function parseXml(xml: string): XmlElement {
+  const nodes = parser.parse(xml) as ParsedNode[];
+  const children = nodes.map(toElement).filter((e): e is XmlElement => e !== null);
+  return { tag: '#document', attrs: {}, children, text: '' };
+}
+
+export function readXml(path: string): XmlElement {
+  return parseXml(readFileSync(path, 'utf8'));
+}
+
+/** The root element of a document */
+export function rootOf(doc: XmlElement): XmlElement | undefined {
+  return doc.children[0];
+}
+
+/** Child elements, optionally only those with the given tag */
+export function childrenOf(element: XmlElement, tag?: string): XmlElement[] {
+  return tag ? element.children.filter((c) => c.tag === tag) : element.children;
+}
+
+export function childOf(element: XmlElement, tag: string): XmlElement | undefined {
+  return element.children.find((c) => c.tag === tag);
+}
+
+/** Numeric attribute (undefined when missing or not a number) */
+export function numberAttr(element: XmlElement | undefined, name: string): number | undefined {
+  const value = element?.attrs[name];
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Selectors
+// ---------------------------------------------------------------------------
+
+interface Predicate {
+  /** Attribute tests joined by "and" */
+  attrs: { name: string; value?: string; negate?: boolean }[];
+  /** 1-based position among the step's matches */
+  position?: number;
+}
+
+interface Step {
+  tag: string;
+  /** Step was written with "//" (any depth) */
+  descendant: boolean;
+  predicates: Predicate[];
+}
+
+interface Selector {
+  steps: Step[];
+  /** Trailing "/@name" selects an attribute of the matched elements */
+  attribute?: string;
+}
+
+/** Split a selector on "/" outside brackets and quotes, keeping "//" as an empty part */
+function splitSelector(sel: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote: string | null = null;
+  for (const char of sel) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === '/' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+const ATTR_TEST = /^(not\()?\s*@([\w.:-]+)\s*(?:=\s*(?:'([^']*)'|"([^"]*)"))?\s*\)?$/;
+
+function parsePredicate(body: string, sel: string): Predicate {
+  const trimmed = body.trim();
+  if (/^\d+$/.test(trimmed)) return { attrs: [], position: parseInt(trimmed, 10) };
+
+  const attrs = trimmed.split(/\s+and\s+/).map((test) => {
+    const match = ATTR_TEST.exec(test.trim());
+    if (!match) throw new Error(`Unsupported selector "${sel}"`);
+    return { name: match[2], value: match[3] ?? match[4], negate: Boolean(match[1]) };
+  });
+  return { attrs };
+}
+
+function parseStep(part: string, descendant: boolean, sel: string): Step {
+  const match = /^([\w.:-]+|\*)((?:\[[^\]]*\])*)$/.exec(part);
+  if (!match) throw new Error(`Unsupported selector "${sel}"`);
+  const predicates = [...match[2].matchAll(/\[([^\]]*)\]/g)].map((m) => parsePredicate(m[1], sel));
+  return { tag: match[1], descendant, predicates };
+}
+
+function parseSelector(sel: string): Selector {
+  const parts = splitSelector(sel.trim());
+  if (parts[0] !== '') throw new Error(`Selector must be absolute: "${sel}"`);
+
+  const selector: Selector = { steps: [] };
+  let descendant = false;
+  for (let i = 1; i < parts.length; i++) {
+    const part = parts[i];
+    if (part === '') {
+      descendant = true;
+      continue;
+    }
+    if (part.startsWith('@')) {
+      if (i !== parts.length - 1) throw new Error(`Unsupported selector "${sel}"`);
+      selector.attribute = part.slice(1);
+      break;
+    }
+    selector.steps.push(parseStep(part, descendant, sel));
+    descendant = false;
+  }
+  return selector;
+}
+
+interface Match {
+  parent: XmlElement;
+  element: XmlElement;
+}
+
+function matchesStep(element: XmlElement, step: Step): boolean {
+  if (step.tag !== '*' && element.tag !== step.tag) return false;
+  return step.predicates.every((p) =>
+    p.attrs.every((test) => {
+      const present = test.value === undefined ? test.name in element.attrs : element.attrs[test.name] === test.value;
+      return test.negate ? !present : present;
+    })
+  );
+}
+
+function collectDescendants(parent: XmlElement, out: Match[]) {
+  for (const element of parent.children) {
+    out.push({ parent, element });
+    collectDescendants(element, out);
+  }
+}
+
+function select(doc: XmlElement, selector: Selector): Match[] {
+  let current: Match[] = [{ parent: doc, element: doc }];
+  for (const step of selector.steps) {
+    const next: Match[] = [];
+    for (const { element } of current) {
+      const candidates: Match[] = [];
+      if (step.descendant) {
+        collectDescendants(element, candidates);
+      } else {
+        candidates.push(...element.children.map((child) => ({ parent: element, element: child })));
+      }
+      let matched = candidates.filter((c) => matchesStep(c.element, step));
+      for (const predicate of step.predicates) {
+        if (predicate.position !== undefined) {
+          matched = matched.slice(predicate.position - 1, predicate.position);
+        }
+      }
+      next.push(...matched);
+    }
+    current = next;
+  }
+  return current;
+}
+
+// ---------------------------------------------------------------------------
+// Diff patches
+// ---------------------------------------------------------------------------
+
+const clone = (element: XmlElement): XmlElement => ({
+  ...element,
+  attrs: { ...element.attrs },
+  children: element.children.map(clone),
+});
+
+function applyOperation(doc: XmlElement, op: XmlElement) {
+  const sel = op.attrs.sel;
+  if (!sel) throw new Error(`<${op.tag}> without sel`);
+  const selector = parseSelector(sel);
+  const matches = select(doc, selector);
+  if (matches.length === 0) throw new Error(`No match for "${sel}"`);
+
+  for (const { parent, element } of matches) {
+    if (op.tag === 'add') {
+      // <add sel="..." type="@name">value</add> adds an attribute
+      if (op.attrs.type?.startsWith('@')) {
+        element.attrs[op.attrs.type.slice(1)] = op.text;
+        continue;
+      }
+      const added = op.children.map(clone);
+      const index = parent.children.indexOf(element);
+      if (op.attrs.pos === 'before') parent.children.splice(index, 0, ...added);
+      else if (op.attrs.pos === 'after') parent.children.splice(index + 1, 0, ...added);
+      else if (op.attrs.pos === 'prepend') element.children.unshift(...added);
+      else element.children.push(...added);
+    } else if (op.tag === 'replace') {
+      if (selector.attribute) element.attrs[selector.attribute] = op.text;
+      else parent.children.splice(parent.children.indexOf(element), 1, ...op.children.map(clone));
+    } else if (op.tag === 'remove') {
+      if (selector.attribute) delete element.attrs[selector.attribute];
+      else parent.children.splice(parent.children.indexOf(element), 1);
+    } else {
+      throw new Error(`Unknown diff operation <${op.tag}>`);
+    }
+  }
+}
+
+/** Whether a document is a diff patch rather than a full file */
+export function isDiff(doc: XmlElement): boolean {
+  return rootOf(doc)?.tag === 'diff';
+}
+
+/**
+ * Apply a diff patch to a document in place.
+ * Operations that fail are skipped and returned as warnings.
+ */
+export function applyDiff(doc: XmlElement, diff: XmlElement): string[] {
+  const warnings: string[] = [];
+  for (const op of rootOf(diff)?.children ?? []) {
+    try {
+      applyOperation(doc, op);
+    } catch (error) {
+      warnings.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,185 @@
+/**
+ * Regenerate the planner's game data (public/gamedata-*.json) from unpacked X4 files.
+ *
+ * Usage:
+ *   npm run parse -- --game <dir> --sectors <sectors.csv> [--extensions a,b] [--out <file>]
+ *
+ *   --game        Unpacked game folder (libraries/, assets/, t/, extensions/)
+ *   --sectors     Sector spreadsheet export, see scripts/gamedata/sectors.ts
+ *   --extensions  Extension folders to apply, in order (default: all, sorted by
+ *                 name; pass an empty list for the base game only)
+ *   --out         Output file (default: public/gamedata-base.json)
+ *
+ * Extensions are applied in the given order: their diff patches change the
+ * base files, and their full files add to them. Output keys are sorted and
+ * nothing time-dependent is written, so the same input always gives the same file.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { GameData } from '../src/types/gamedata';
+import { parseModules } from './gamedata/modules';
+import { parseSectors } from './gamedata/sectors';
+import { buildTextTable, languageFile, LANGUAGES, type LanguageCode, type TextTable } from './gamedata/text';
+import { collectWares, parseBlueprints, parseRecipes, parseWare, parseWorkforce } from './gamedata/wares';
+import { applyDiff, isDiff, readXml, rootOf, type XmlElement } from './gamedata/xml';
+
+const WARES_FILE = 'libraries/wares.xml';
+const TEXT_DIR = 't';
+const STRUCTURES_DIR = 'assets/structures';
+const EXTENSIONS_DIR = 'extensions';
+const DEFAULT_OUT = 'public/gamedata-base.json';
+
+const warnings: string[] = [];
+
+/** Files below a directory (relative, "/" separated, sorted) */
+function listFiles(root: string, dir: string): string[] {
+  const full = join(root, dir);
+  if (!existsSync(full)) return [];
+  const files: string[] = [];
+  for (const name of readdirSync(full).sort()) {
+    const path = join(full, name);
+    if (statSync(path).isDirectory()) files.push(...listFiles(root, join(dir, name)));
+    else files.push(relative(root, path).split('\\').join('/'));
+  }
+  return files;
+}
+
+/**
+ * Load a file from the game and every extension that has it.
+ * Diff patches change the document; full files either replace it (macros)
+ * or have their top-level entries appended (wares, texts).
+ */
+function loadLayered(roots: string[], file: string, fullFiles: 'replace' | 'append'): XmlElement | null {
+  let doc: XmlElement | null = null;
+  for (const root of roots) {
+    const path = join(root, file);
+    if (!existsSync(path)) continue;
+
+    const layer = readXml(path);
+    if (isDiff(layer)) {
+      if (!doc) {
+        warnings.push(`${path}: patch without a base file`);
+        continue;
+      }
+      warnings.push(...applyDiff(doc, layer).map((w) => `${path}: ${w}`));
+    } else if (!doc || fullFiles === 'replace') {
+      doc = layer;
+    } else {
+      rootOf(doc)?.children.push(...(rootOf(layer)?.children ?? []));
+    }
+  }
+  return doc;
+}
+
+// Plain code point order; localeCompare would depend on the machine's locale
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const sortById = <T extends { id: string }>(items: T[]): Record<string, T> =>
+  Object.fromEntries([...items].sort((a, b) => compare(a.id, b.id)).map((item) => [item.id, item]));
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      game: { type: 'string' },
+      sectors: { type: 'string' },
+      extensions: { type: 'string' },
+      out: { type: 'string', default: DEFAULT_OUT },
+    },
+  });
+  if (!values.game || !values.sectors) {
+    console.error('Usage: npm run parse -- --game <dir> --sectors <sectors.csv> [--extensions a,b] [--out <file>]');
+    process.exit(1);
+  }
+
+  const game = values.game;
+  const extensionNames = values.extensions !== undefined
+    ? values.extensions.split(',').map((e) => e.trim()).filter(Boolean)
+    : existsSync(join(game, EXTENSIONS_DIR))
+      ? readdirSync(join(game, EXTENSIONS_DIR)).filter((e) => statSync(join(game, EXTENSIONS_DIR, e)).isDirectory()).sort()
+      : [];
+  const roots = [game, ...extensionNames.map((e) => join(game, EXTENSIONS_DIR, e))];
+  for (const root of roots) {
+    if (!existsSync(root)) {
+      console.error(`Not found: ${root}`);
+      process.exit(1);
+    }
+  }
+
+  // Texts
+  const tables = new Map<LanguageCode, TextTable>();
+  for (const { code, id } of LANGUAGES) {
+    const doc = loadLayered(roots, `${TEXT_DIR}/${languageFile(id)}`, 'append');
+    if (doc) tables.set(code, buildTextTable(doc));
+  }
+  if (!tables.has('en')) {
+    console.error(`English texts (${TEXT_DIR}/${languageFile(44)}) not found`);
+    process.exit(1);
+  }
+
+  // Wares
+  const waresDoc = loadLayered(roots, WARES_FILE, 'append');
+  if (!waresDoc) {
+    console.error(`${WARES_FILE} not found`);
+    process.exit(1);
+  }
+  const wareElements = collectWares(waresDoc);
+  const blueprints = parseBlueprints(wareElements);
+  const workforce = parseWorkforce(wareElements);
+
+  // Modules
+  const macroFiles = [...new Set(roots.flatMap((root) => listFiles(root, STRUCTURES_DIR)))]
+    .filter((file) => file.includes('/macros/') && file.endsWith('.xml'))
+    .sort();
+  const macroDocs = macroFiles
+    .map((file) => loadLayered(roots, file, 'replace'))
+    .filter((doc): doc is XmlElement => doc !== null);
+  const modules = parseModules(macroDocs, blueprints, (id) => wareElements.has(id), tables);
+
+  // Recipes for every produced ware, and every ware the planner refers to
+  const producedWareIds = [...new Set(modules.production.flatMap((m) => m.producedWareId.split(' ')))].sort();
+  const recipes = parseRecipes(wareElements, producedWareIds);
+  const usedWareIds = new Set([
+    ...producedWareIds,
+    ...recipes.flatMap((r) => r.inputs.map((i) => i.ware)),
+    ...Object.values(workforce).flatMap((w) => w.upkeep.map((u) => u.ware)),
+    ...[...modules.production, ...modules.habitat, ...modules.storage].flatMap(
+      (m) => m.buildCost?.wares.map((w) => w.ware) ?? []
+    ),
+  ]);
+  const wares = [...usedWareIds]
+    .filter((id) => {
+      if (wareElements.has(id)) return true;
+      warnings.push(`Unknown ware "${id}" referenced`);
+      return false;
+    })
+    .map((id) => parseWare(wareElements.get(id)!, tables));
+
+  // Sectors
+  const sectorResult = parseSectors(readFileSync(values.sectors, 'utf8'));
+  warnings.push(...sectorResult.warnings);
+
+  const gameData: GameData = {
+    languages: Object.fromEntries(LANGUAGES.filter((l) => tables.has(l.code)).map((l) => [l.code, l.label])),
+    wares: sortById(wares),
+    recipes: sortById(recipes),
+    modules: {
+      production: sortById(modules.production),
+      habitat: sortById(modules.habitat),
+      storage: sortById(modules.storage),
+    },
+    sectors: sortById(sectorResult.sectors),
+    workforce: Object.fromEntries(Object.entries(workforce).sort(([a], [b]) => compare(a, b))),
+  };
+  writeFileSync(values.out!, JSON.stringify(gameData, null, 2) + '\n');
+
+  for (const warning of warnings) console.warn(`warning: ${warning}`);
+  console.log(
+    `Wrote ${values.out}: ${wares.length} wares, ${recipes.length} recipes, ` +
+      `${modules.production.length + modules.habitat.length + modules.storage.length} modules, ` +
+      `${sectorResult.sectors.length} sectors (extensions: ${extensionNames.join(', ') || 'none'})`
+  );
+}
+
+main();
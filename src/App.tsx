@@ -2,9 +2,10 @@ import { useEffect, useState } from 'react';
 import { ReactFlowProvider } from '@xyflow/react';
 import { TopBar, Sidebar, Breadcrumb } from '@/components/layout';
 import { ReportDrawer } from '@/components/report';
-import { NetworkCanvas, StationCanvas } from '@/components/canvas';
+import { NetworkCanvas, StationCanvas, SupplyChainCanvas } from '@/components/canvas';
 import { Toast } from '@/components/shared/Toast';
 import { loadGameData } from '@/data/loader';
+import { importPlan, readSharedPlan, clearSharedPlan } from '@/lib/importPlan';
 import { useGameDataStore, useUIStore, usePlanStore } from '@/store';
 import { usePlanManagerStore } from '@/store/planManagerStore';
 import { useGameModeStore } from '@/store/gameModeStore';
@@ -31,6 +32,20 @@ function App() {
     // Initialize plan manager (handles migration from legacy format)
     usePlanManagerStore.getState().initializePlanManager();
 
+    // Open a plan shared through a #plan= link
+    const sharedPlan = readSharedPlan();
+    if (sharedPlan) {
+      clearSharedPlan();
+      importPlan(sharedPlan).then((result) => {
+        if (result.success) {
+          usePlanManagerStore.getState().importPlan(result.plan);
+          useUIStore.getState().showToast(`Opened shared plan "${result.plan.name}"`, 'success');
+        } else {
+          useUIStore.getState().showToast(`Could not open shared plan: ${result.error}`, 'error');
+        }
+      });
+    }
+
     // Set up auto-save subscription
     setupAutoSave((plan) => usePlanManagerStore.getState().saveCurrentPlan(plan));
 
@@ -72,7 +87,9 @@ function App() {
         <TopBar />
         <Breadcrumb />
         <div className="flex-1 flex overflow-hidden">
-          {viewMode === 'network' ? <NetworkCanvas /> : <StationCanvas />}
+          {viewMode === 'network' && <NetworkCanvas />}
+          {viewMode === 'station' && <StationCanvas />}
+          {viewMode === 'supplyChain' && <SupplyChainCanvas />}
           <Sidebar />
         </div>
         <ReportDrawer />
@@ -22,16 +22,24 @@ import { usePlanStore, useUIStore } from '@/store';
 import {
   StationNode,
   SectorGroup,
+  MiningSourceNode,
+  MarketNode,
   type StationNodeType,
   type SectorGroupType,
+  type MiningSourceNodeType,
+  type MarketNodeType,
 } from '@/components/nodes';
 import { ResourceEdge, type ResourceEdgeType } from '@/components/edges';
+import type { MarketTradeKind } from '@/types';
 import { ContextMenuShell } from './context-menu';
+import { useSelectionActions } from '@/hooks/useSelectionActions';
 
 // Register custom node types
 const nodeTypes: NodeTypes = {
   station: StationNode,
   sector: SectorGroup,
+  mining: MiningSourceNode,
+  market: MarketNode,
 };
 
 // Register custom edge types
@@ -39,7 +47,10 @@ const edgeTypes: EdgeTypes = {
   resource: ResourceEdge,
 };
 
-type AllNodeTypes = StationNodeType | SectorGroupType;
+// Approximate center of mining source and market nodes (200px wide), relative to their position
+const MINING_MARKET_NODE_CENTER = { x: 100, y: 40 };
+
+type AllNodeTypes = StationNodeType | SectorGroupType | MiningSourceNodeType | MarketNodeType;
 
 function NetworkCanvasInner() {
   const { setViewport, screenToFlowPosition } = useReactFlow();
@@ -48,21 +59,31 @@ function NetworkCanvasInner() {
   const stations = usePlanStore((state) => state.plan.stations);
   const sectors = usePlanStore((state) => state.plan.sectors);
   const connections = usePlanStore((state) => state.plan.connections);
+  const miningSources = usePlanStore((state) => state.plan.miningSources);
+  const markets = usePlanStore((state) => state.plan.markets);
   const computed = usePlanStore((state) => state.computed);
   const updateStation = usePlanStore((state) => state.updateStation);
   const updateSector = usePlanStore((state) => state.updateSector);
   const removeStation = usePlanStore((state) => state.removeStation);
   const removeSector = usePlanStore((state) => state.removeSector);
   const moveStationToSector = usePlanStore((state) => state.moveStationToSector);
+  const updateMiningSource = usePlanStore((state) => state.updateMiningSource);
+  const removeMiningSource = usePlanStore((state) => state.removeMiningSource);
+  const updateMarket = usePlanStore((state) => state.updateMarket);
+  const removeMarket = usePlanStore((state) => state.removeMarket);
   const addConnection = usePlanStore((state) => state.addConnection);
   const removeConnection = usePlanStore((state) => state.removeConnection);
 
   const selectNode = useUIStore((state) => state.selectNode);
+  const selectNodes = useUIStore((state) => state.selectNodes);
+  const selectedNodeIds = useUIStore((state) => state.selectedNodeIds);
   const selectEdge = useUIStore((state) => state.selectEdge);
   const clearSelection = useUIStore((state) => state.clearSelection);
   const openContextMenu = useUIStore((state) => state.openContextMenu);
   const closeContextMenu = useUIStore((state) => state.closeContextMenu);
 
+  const { handleKeyDown: handleSelectionKeyDown } = useSelectionActions();
+
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
 
   // Track measured node dimensions for MiniMap rendering
@@ -81,6 +102,7 @@ function NetworkCanvasInner() {
       height: sector.size.height,
       zIndex: -1,
       draggable: !sector.locked,
+      selected: selectedNodeIds.includes(sector.id),
     }));
 
     const stationNodes: StationNodeType[] = stations.map((station) => ({
@@ -90,15 +112,48 @@ function NetworkCanvasInner() {
       data: { station },
       zIndex: 1,
       draggable: !station.locked,
+      selected: selectedNodeIds.includes(station.id),
       ...(measuredDimensions.get(station.id)
         ? { measured: measuredDimensions.get(station.id) }
         : { initialWidth: 260, initialHeight: 140 }),
     }));
 
-    return [...sectorNodes, ...stationNodes];
-  }, [sectors, stations, measuredDimensions]);
+    const miningNodes: MiningSourceNodeType[] = (miningSources ?? []).map((source) => ({
+      id: source.id,
+      type: 'mining',
+      position: source.position,
+      data: { source },
+      zIndex: 1,
+      draggable: !source.locked,
+      selected: selectedNodeIds.includes(source.id),
+      ...(measuredDimensions.get(source.id)
+        ? { measured: measuredDimensions.get(source.id) }
+        : { initialWidth: 200, initialHeight: 110 }),
+    }));
+
+    const marketNodes: MarketNodeType[] = (markets ?? []).map((market) => ({
+      id: market.id,
+      type: 'market',
+      position: market.position,
+      data: { market },
+      zIndex: 1,
+      draggable: !market.locked,
+      selected: selectedNodeIds.includes(market.id),
+      ...(measuredDimensions.get(market.id)
+        ? { measured: measuredDimensions.get(market.id) }
+        : { initialWidth: 200, initialHeight: 100 }),
+    }));
+
+    return [...sectorNodes, ...stationNodes, ...miningNodes, ...marketNodes];
+  }, [sectors, stations, miningSources, markets, measuredDimensions, selectedNodeIds]);
+
+  // Connections that are part of a supply loop
+  const cycleConnectionIds = useMemo(
+    () => new Set(computed.cycles.flatMap((cycle) => cycle.connectionIds)),
+    [computed.cycles]
+  );
 
-  // Convert plan connections to React Flow edges
+  // Convert plan connections to React Flow edges (loops are animated)
   const edges = useMemo<ResourceEdgeType[]>(() => {
     return connections.map((conn) => ({
       id: conn.id,
@@ -107,9 +162,10 @@ function NetworkCanvasInner() {
       sourceHandle: conn.wareId ? `output-${conn.wareId}` : undefined,
       targetHandle: conn.wareId ? `input-${conn.wareId}` : undefined,
       type: 'resource',
+      animated: cycleConnectionIds.has(conn.id),
       data: { connection: conn },
     }));
-  }, [connections]);
+  }, [connections, cycleConnectionIds]);
 
   // Check if a position is inside a sector's bounds
   const findSectorAtPosition = useCallback(
@@ -134,14 +190,35 @@ function NetworkCanvasInner() {
   // Note: dimensions are handled by SectorGroup's onResizeEnd to avoid feedback loops
   const onNodesChange: OnNodesChange<AllNodeTypes> = useCallback(
     (changes) => {
+      // Apply selection changes together (box selection sends one per node)
+      const selectChanges = changes.filter((change) => change.type === 'select');
+      if (selectChanges.length > 0) {
+        const ids = new Set(useUIStore.getState().selectedNodeIds);
+        selectChanges.forEach((change) => (change.selected ? ids.add(change.id) : ids.delete(change.id)));
+        selectNodes([...ids]);
+      }
+
+      // Nodes dragged along with a sector in a multi-selection already move on their own
+      const movedIds = new Set(
+        changes.filter((change) => change.type === 'position').map((change) => change.id)
+      );
+      const followsSector = (item: { id: string; sectorId: string | null }, sectorId: string) =>
+        item.sectorId === sectorId && !movedIds.has(item.id);
+
       changes.forEach((change) => {
         if (change.type === 'position' && change.position) {
-          // Check if this is a station or sector
+          // Check if this is a station, mining source, market or sector
           const station = stations.find((s) => s.id === change.id);
+          const source = miningSources?.find((m) => m.id === change.id);
+          const market = markets?.find((m) => m.id === change.id);
           const sector = sectors.find((s) => s.id === change.id);
 
           if (station) {
             updateStation(change.id, { position: change.position });
+          } else if (source) {
+            updateMiningSource(change.id, { position: change.position });
+          } else if (market) {
+            updateMarket(change.id, { position: change.position });
           } else if (sector) {
             // Calculate movement delta
             const deltaX = change.position.x - sector.position.x;
@@ -153,7 +230,7 @@ function NetworkCanvasInner() {
             // Move all stations in this sector by the same delta
             if (deltaX !== 0 || deltaY !== 0) {
               stations
-                .filter((s) => s.sectorId === sector.id)
+                .filter((s) => followsSector(s, sector.id))
                 .forEach((s) => {
                   updateStation(s.id, {
                     position: {
@@ -162,21 +239,43 @@ function NetworkCanvasInner() {
                     },
                   });
                 });
+              miningSources
+                ?.filter((m) => followsSector(m, sector.id))
+                .forEach((m) => {
+                  updateMiningSource(m.id, {
+                    position: {
+                      x: m.position.x + deltaX,
+                      y: m.position.y + deltaY,
+                    },
+                  });
+                });
+              markets
+                ?.filter((m) => followsSector(m, sector.id))
+                .forEach((m) => {
+                  updateMarket(m.id, {
+                    position: {
+                      x: m.position.x + deltaX,
+                      y: m.position.y + deltaY,
+                    },
+                  });
+                });
             }
           }
         } else if (change.type === 'remove') {
           const station = stations.find((s) => s.id === change.id);
+          const source = miningSources?.find((m) => m.id === change.id);
+          const market = markets?.find((m) => m.id === change.id);
           const sector = sectors.find((s) => s.id === change.id);
 
           if (station) {
             removeStation(change.id);
+          } else if (source) {
+            removeMiningSource(change.id);
+          } else if (market) {
+            removeMarket(change.id);
           } else if (sector) {
             removeSector(change.id);
           }
-        } else if (change.type === 'select') {
-          if (change.selected) {
-            selectNode(change.id);
-          }
         } else if (change.type === 'dimensions' && change.dimensions) {
           setMeasuredDimensions((prev) => {
             const existing = prev.get(change.id);
@@ -190,13 +289,51 @@ function NetworkCanvasInner() {
         }
       });
     },
-    [stations, sectors, updateStation, updateSector, removeStation, removeSector, selectNode]
+    [
+      stations,
+      sectors,
+      miningSources,
+      markets,
+      updateStation,
+      updateSector,
+      updateMiningSource,
+      updateMarket,
+      removeStation,
+      removeSector,
+      removeMiningSource,
+      removeMarket,
+      selectNodes,
+    ]
   );
 
-  // Handle station drag end - check if dropped into/out of a sector
+  // Handle station/mining source/market drag end - check if dropped into/out of a sector
   const onNodeDragStop = useCallback(
     (_event: React.MouseEvent, node: AllNodeTypes) => {
-      // Only process stations
+      const source = miningSources?.find((m) => m.id === node.id);
+      if (source) {
+        const newSectorId = findSectorAtPosition(
+          node.position.x + MINING_MARKET_NODE_CENTER.x,
+          node.position.y + MINING_MARKET_NODE_CENTER.y
+        );
+        if (newSectorId !== source.sectorId) {
+          updateMiningSource(source.id, { sectorId: newSectorId });
+        }
+        return;
+      }
+
+      const market = markets?.find((m) => m.id === node.id);
+      if (market) {
+        const newSectorId = findSectorAtPosition(
+          node.position.x + MINING_MARKET_NODE_CENTER.x,
+          node.position.y + MINING_MARKET_NODE_CENTER.y
+        );
+        if (newSectorId !== market.sectorId) {
+          updateMarket(market.id, { sectorId: newSectorId });
+        }
+        return;
+      }
+
+      // Otherwise only process stations
       const station = stations.find((s) => s.id === node.id);
       if (!station) return;
 
@@ -210,7 +347,7 @@ function NetworkCanvasInner() {
         moveStationToSector(station.id, newSectorId);
       }
     },
-    [stations, findSectorAtPosition, moveStationToSector]
+    [stations, miningSources, markets, findSectorAtPosition, moveStationToSector, updateMiningSource, updateMarket]
   );
 
   // Handle edge changes (removal)
@@ -240,17 +377,37 @@ function NetworkCanvasInner() {
   const onConnect: OnConnect = useCallback(
     (connection: Connection) => {
       if (connection.source && connection.target && connection.sourceHandle) {
+        // Markets only trade with stations
+        const isMarket = (id: string) => markets?.some((m) => m.id === id) ?? false;
+        if (isMarket(connection.source) && isMarket(connection.target)) return;
+
         // Extract wareId from the source handle (output-{wareId})
         const wareId = parseWareFromHandle(connection.sourceHandle);
 
         // Find source station's REMAINING output for this ware (what's still available after existing connections)
         // This uses stationOutputs - externallyConsumed, respecting manual connection amounts
+        // Mining sources offer whatever their miners have left over
         const sourceComputed = computed.stations.find(
           (s) => s.stationId === connection.source
         );
-        const sourceOutput = sourceComputed?.remainingOutputs.find(
-          (o) => o.wareId === wareId
+        const miningComputed = computed.miningSources.find(
+          (m) => m.sourceId === connection.source && m.wareId === wareId
         );
+        // Markets offer what is left of their limit (or anything if unlimited)
+        const getMarketRemaining = (marketId: string, kind: MarketTradeKind): number | undefined => {
+          const ware = computed.markets
+            .find((m) => m.marketId === marketId)
+            ?.wares.find((w) => w.kind === kind && w.wareId === wareId);
+          if (!ware) return undefined;
+          return ware.limit === null ? Infinity : Math.max(ware.limit - ware.traded, 0);
+        };
+        const sourceMarketRemaining = getMarketRemaining(connection.source, 'supply');
+        const sourceOutput = miningComputed
+          ? { wareId, amount: miningComputed.remaining }
+          : sourceMarketRemaining !== undefined
+            ? { wareId, amount: sourceMarketRemaining }
+            : sourceComputed?.remainingOutputs.find((o) => o.wareId === wareId);
+        const targetMarketRemaining = getMarketRemaining(connection.target, 'demand') ?? Infinity;
 
         // Find target station's REMAINING input for this ware (what's still needed after existing connections)
         // This uses stationInputs - externallySupplied, respecting manual connection amounts
@@ -264,7 +421,7 @@ function NetworkCanvasInner() {
         // For auto mode, amount is computed dynamically, but we store a reasonable default
         const defaultAmount = targetInput
           ? Math.min(sourceOutput?.amount ?? 0, targetInput.amount)
-          : sourceOutput?.amount ?? 0;
+          : Math.min(sourceOutput?.amount ?? 0, targetMarketRemaining);
 
         addConnection({
           sourceStationId: connection.source,
@@ -275,7 +432,7 @@ function NetworkCanvasInner() {
         });
       }
     },
-    [addConnection, computed.stations]
+    [addConnection, markets, computed.stations, computed.miningSources, computed.markets]
   );
 
   // Handle pane click (clear selection)
@@ -302,7 +459,8 @@ function NetworkCanvasInner() {
   const onNodeContextMenu: NodeMouseHandler<AllNodeTypes> = useCallback(
     (event, node) => {
       event.preventDefault();
-      selectNode(node.id);
+      // Keep a multi-selection the node is part of
+      if (!useUIStore.getState().selectedNodeIds.includes(node.id)) selectNode(node.id);
       openContextMenu({
         x: event.clientX,
         y: event.clientY,
@@ -328,31 +486,21 @@ function NetworkCanvasInner() {
     [openContextMenu, screenToFlowPosition, selectEdge]
   );
 
-  // Handle keyboard events (Delete key)
+  // Handle keyboard events (copy/paste/duplicate, Delete key)
   const onKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
+      // Selected nodes are copied, pasted, duplicated and deleted as a group
+      if (handleSelectionKeyDown(event)) return;
+
       if (event.key === 'Delete' || event.key === 'Backspace') {
-        const selectedNodeId = useUIStore.getState().selectedNodeId;
         const selectedEdgeId = useUIStore.getState().selectedEdgeId;
-
-        if (selectedNodeId) {
-          // Check if it's a station or sector
-          const station = stations.find((s) => s.id === selectedNodeId);
-          const sector = sectors.find((s) => s.id === selectedNodeId);
-
-          if (station) {
-            removeStation(selectedNodeId);
-          } else if (sector) {
-            removeSector(selectedNodeId);
-          }
-          clearSelection();
-        } else if (selectedEdgeId) {
+        if (selectedEdgeId) {
           removeConnection(selectedEdgeId);
           clearSelection();
         }
       }
     },
-    [stations, sectors, removeStation, removeSector, removeConnection, clearSelection]
+    [handleSelectionKeyDown, removeConnection, clearSelection]
   );
 
   // Snap viewport to prevent subpixel blurriness
@@ -398,8 +546,8 @@ function NetworkCanvasInner() {
         fitView
         snapToGrid
         snapGrid={[16, 16]}
-        deleteKeyCode={['Delete', 'Backspace']}
-        selectionKeyCode={null}
+        deleteKeyCode={null}
+        selectionKeyCode="Shift"
 
       >
         <Background gap={16} size={1} />
@@ -408,6 +556,8 @@ function NetworkCanvasInner() {
           nodeColor={(node) => {
             if (node.selected) return '#3b82f6';
             if (node.type === 'sector') return '#475569';
+            if (node.type === 'mining') return '#f59e0b';
+            if (node.type === 'market') return '#0ea5e9';
             return '#94a3b8';
           }}
           maskColor="rgba(0, 0, 0, 0.4)"
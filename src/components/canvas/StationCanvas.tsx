@@ -36,6 +36,7 @@ import {
 import { ModuleEdge, type ModuleEdgeType } from '@/components/edges';
 import { ContextMenuShell } from './context-menu';
 import { ModulePickerDialog } from '@/components/shared/ModulePickerDialog';
+import { useSelectionActions } from '@/hooks/useSelectionActions';
 import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
 import type { ProductionModule } from '@/types';
 
@@ -66,6 +67,8 @@ function StationCanvasInner() {
   const removeModuleConnection = usePlanStore((state) => state.removeModuleConnection);
 
   const selectNode = useUIStore((state) => state.selectNode);
+  const selectNodes = useUIStore((state) => state.selectNodes);
+  const selectedNodeIds = useUIStore((state) => state.selectedNodeIds);
   const selectEdge = useUIStore((state) => state.selectEdge);
   const clearSelection = useUIStore((state) => state.clearSelection);
   const openContextMenu = useUIStore((state) => state.openContextMenu);
@@ -74,6 +77,7 @@ function StationCanvasInner() {
   const addModule = usePlanStore((state) => state.addModule);
   const gameData = useGameDataStore((state) => state.gameData);
   const getModuleType = useGameDataStore((state) => state.getModuleType);
+  const { handleKeyDown: handleSelectionKeyDown } = useSelectionActions();
 
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
 
@@ -306,6 +310,7 @@ function StationCanvasInner() {
       position: module.position,
       data: { module, onWareDoubleClick: handleWareDoubleClick },
       draggable: !module.locked,
+      selected: selectedNodeIds.includes(module.id),
       ...(measuredDimensions.get(module.id)
         ? { measured: measuredDimensions.get(module.id) }
         : { initialWidth: 240, initialHeight: 200 }),
@@ -318,6 +323,7 @@ function StationCanvasInner() {
       position: station.stationInputPosition ?? defaultInputPosition,
       data: {},
       deletable: false,
+      selected: selectedNodeIds.includes(STATION_INPUT_ID),
       ...(measuredDimensions.get(STATION_INPUT_ID)
         ? { measured: measuredDimensions.get(STATION_INPUT_ID) }
         : { initialWidth: 200, initialHeight: 110 }),
@@ -330,13 +336,14 @@ function StationCanvasInner() {
       position: station.stationOutputPosition ?? defaultOutputPosition,
       data: {},
       deletable: false,
+      selected: selectedNodeIds.includes(STATION_OUTPUT_ID),
       ...(measuredDimensions.get(STATION_OUTPUT_ID)
         ? { measured: measuredDimensions.get(STATION_OUTPUT_ID) }
         : { initialWidth: 200, initialHeight: 110 }),
     };
 
     return [stationInputNode, ...moduleNodes, stationOutputNode];
-  }, [station, handleWareDoubleClick, measuredDimensions]);
+  }, [station, handleWareDoubleClick, measuredDimensions, selectedNodeIds]);
 
   // Compute a fingerprint of all ware orderings (station I/O + module I/O)
   // Used to force edge re-rendering when handle positions change due to reordering
@@ -386,6 +393,14 @@ function StationCanvasInner() {
     (changes) => {
       if (!activeStationId) return;
 
+      // Apply selection changes together (box selection sends one per node)
+      const selectChanges = changes.filter((change) => change.type === 'select');
+      if (selectChanges.length > 0) {
+        const ids = new Set(useUIStore.getState().selectedNodeIds);
+        selectChanges.forEach((change) => (change.selected ? ids.add(change.id) : ids.delete(change.id)));
+        selectNodes([...ids]);
+      }
+
       changes.forEach((change) => {
         if (change.type === 'position' && change.position) {
           // Handle Station I/O node positions separately
@@ -401,10 +416,6 @@ function StationCanvasInner() {
           if (change.id !== STATION_INPUT_ID && change.id !== STATION_OUTPUT_ID) {
             removeModule(activeStationId, change.id);
           }
-        } else if (change.type === 'select') {
-          if (change.selected) {
-            selectNode(change.id);
-          }
         } else if (change.type === 'dimensions' && change.dimensions) {
           setMeasuredDimensions((prev) => {
             const existing = prev.get(change.id);
@@ -418,7 +429,7 @@ function StationCanvasInner() {
         }
       });
     },
-    [activeStationId, updateModule, updateStation, removeModule, selectNode]
+    [activeStationId, updateModule, updateStation, removeModule, selectNodes]
   );
 
   // Handle edge changes (removal, selection)
@@ -542,7 +553,8 @@ function StationCanvasInner() {
   const onNodeContextMenu: NodeMouseHandler<StationCanvasNode> = useCallback(
     (event, node) => {
       event.preventDefault();
-      selectNode(node.id);
+      // Keep a multi-selection the node is part of
+      if (!useUIStore.getState().selectedNodeIds.includes(node.id)) selectNode(node.id);
       openContextMenu({
         x: event.clientX,
         y: event.clientY,
@@ -568,26 +580,21 @@ function StationCanvasInner() {
     [openContextMenu, screenToFlowPosition, selectEdge]
   );
 
-  // Handle keyboard events (Delete key)
+  // Handle keyboard events (copy/paste/duplicate, Delete key)
   const onKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
+      // Selected modules are copied, pasted, duplicated and deleted as a group
+      if (handleSelectionKeyDown(event)) return;
+
       if (event.key === 'Delete' || event.key === 'Backspace') {
-        const selectedNodeId = useUIStore.getState().selectedNodeId;
         const selectedEdgeId = useUIStore.getState().selectedEdgeId;
-
-        // Don't delete Station I/O nodes
-        if (selectedNodeId && activeStationId) {
-          if (selectedNodeId !== STATION_INPUT_ID && selectedNodeId !== STATION_OUTPUT_ID) {
-            removeModule(activeStationId, selectedNodeId);
-            clearSelection();
-          }
-        } else if (selectedEdgeId && activeStationId) {
+        if (selectedEdgeId && activeStationId) {
           removeModuleConnection(activeStationId, selectedEdgeId);
           clearSelection();
         }
       }
     },
-    [activeStationId, removeModule, removeModuleConnection, clearSelection]
+    [activeStationId, handleSelectionKeyDown, removeModuleConnection, clearSelection]
   );
 
   // Snap viewport to prevent subpixel blurriness
@@ -642,8 +649,8 @@ function StationCanvasInner() {
         fitView
         snapToGrid
         snapGrid={[16, 16]}
-        deleteKeyCode={['Delete', 'Backspace']}
-        selectionKeyCode={null}
+        deleteKeyCode={null}
+        selectionKeyCode="Shift"
 
       >
         <Background gap={16} size={1} />
@@ -0,0 +1,110 @@
+import { useMemo } from 'react';
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  Controls,
+  type Edge,
+  type NodeTypes,
+  type NodeMouseHandler,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+
+import { useGameDataStore, useUIStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { useSupplyChain } from '@/hooks/useSupplyChain';
+import { formatAmount } from '@/lib/format';
+import { layoutByTier } from '@/lib/supplyChainStation';
+import { SupplyChainNode, type SupplyChainNodeType } from '@/components/nodes';
+
+// Register custom node types
+const nodeTypes: NodeTypes = {
+  supplyChain: SupplyChainNode,
+};
+
+// Tier columns (nodes are 200 wide)
+const COLUMN_WIDTH = 300;
+const ROW_HEIGHT = 130;
+
+function SupplyChainCanvasInner() {
+  const openSupplyChain = useUIStore((state) => state.openSupplyChain);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
+  const supplyChain = useSupplyChain();
+
+  const nodes = useMemo<SupplyChainNodeType[]>(() => {
+    if (!supplyChain) return [];
+    const positions = layoutByTier(supplyChain.chain.wares, COLUMN_WIDTH, ROW_HEIGHT);
+    return supplyChain.chain.wares.map((ware) => ({
+      id: ware.wareId,
+      type: 'supplyChain',
+      position: positions.get(ware.wareId)!,
+      data: { ware, isRoot: ware.wareId === supplyChain.wareId },
+    }));
+  }, [supplyChain]);
+
+  const edges = useMemo<Edge[]>(() => {
+    if (!supplyChain) return [];
+    return supplyChain.chain.links.map((link) => ({
+      id: `${link.sourceWareId}>${link.targetWareId}`,
+      source: link.sourceWareId,
+      target: link.targetWareId,
+      type: 'smoothstep',
+      label: `${formatAmount(link.amount)}/hr`,
+      animated: link.cyclic,
+      style: link.cyclic ? { strokeDasharray: '4 4' } : undefined,
+    }));
+  }, [supplyChain]);
+
+  // Double-click a ware to show its own chain
+  const onNodeDoubleClick: NodeMouseHandler<SupplyChainNodeType> = (_event, node) => {
+    if (node.data.ware.moduleId && node.id !== supplyChain?.wareId) openSupplyChain(node.id);
+  };
+
+  if (!supplyChain) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-muted/20">
+        <p className="text-muted-foreground">Select a ware to show its supply chain</p>
+      </div>
+    );
+  }
+
+  const moduleTotal = supplyChain.chain.wares.filter((w) => w.moduleId).length;
+
+  return (
+    <div className="flex-1 relative">
+      <ReactFlow
+        key={supplyChain.wareId}
+        nodes={nodes}
+        edges={edges}
+        onNodeDoubleClick={onNodeDoubleClick}
+        nodeTypes={nodeTypes}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        fitView
+      >
+        <Background gap={16} size={1} />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+
+      {/* Chain info overlay */}
+      <div className="absolute top-4 left-4 bg-card/90 border border-border rounded-lg px-3 py-2 shadow-sm">
+        <h2 className="font-medium text-foreground">
+          {t(gameData?.wares[supplyChain.wareId]?.name, supplyChain.wareId)} supply chain
+        </h2>
+        <p className="text-xs text-muted-foreground">
+          {formatAmount(supplyChain.amount)}/hr, {moduleTotal} module type{moduleTotal !== 1 ? 's' : ''}, base rates
+          (double-click a ware to show its chain)
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export function SupplyChainCanvas() {
+  return (
+    <ReactFlowProvider>
+      <SupplyChainCanvasInner />
+    </ReactFlowProvider>
+  );
+}
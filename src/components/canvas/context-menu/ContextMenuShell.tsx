@@ -5,6 +5,8 @@ import { NetworkPaneMenu } from './menus/NetworkPaneMenu';
 import { StationPaneMenu } from './menus/StationPaneMenu';
 import { StationNodeMenu } from './menus/StationNodeMenu';
 import { SectorNodeMenu } from './menus/SectorNodeMenu';
+import { MiningSourceNodeMenu } from './menus/MiningSourceNodeMenu';
+import { MarketNodeMenu } from './menus/MarketNodeMenu';
 import { ModuleNodeMenu } from './menus/ModuleNodeMenu';
 import { StationIOMenu } from './menus/StationIOMenu';
 import { ConnectionEdgeMenu } from './menus/ConnectionEdgeMenu';
@@ -86,6 +88,8 @@ export function ContextMenuShell() {
       if (target.viewMode === 'network') {
         if (target.nodeType === 'station') return <StationNodeMenu nodeId={target.nodeId} />;
         if (target.nodeType === 'sector') return <SectorNodeMenu nodeId={target.nodeId} />;
+        if (target.nodeType === 'mining') return <MiningSourceNodeMenu nodeId={target.nodeId} />;
+        if (target.nodeType === 'market') return <MarketNodeMenu nodeId={target.nodeId} />;
       }
       if (target.viewMode === 'station') {
         if (target.nodeId === STATION_INPUT_ID || target.nodeId === STATION_OUTPUT_ID) {
@@ -3,6 +3,8 @@ import { useLocale } from '@/hooks/useLocale';
 import { MenuButton } from '../items/MenuButton';
 import { MenuSeparator } from '../items/MenuSeparator';
 import { InlineSelect } from '../items/InlineSelect';
+import { InlineInput } from '../items/InlineInput';
+import { DEFAULT_CONNECTION_SHARE } from '@/engine';
 import type { ConnectionMode } from '@/types';
 
 interface ConnectionEdgeMenuProps {
@@ -14,8 +16,20 @@ const MODE_OPTIONS = [
   { value: 'auto', label: 'Auto (match availability)' },
   { value: 'max', label: 'Max (take all available)' },
   { value: 'custom', label: 'Custom (fixed amount)' },
+  { value: 'share', label: 'Share (% of source output)' },
 ];
 
+// Empty or invalid input clears the value back to its default
+const parseShare = (value: string): number | undefined => {
+  const num = parseFloat(value);
+  return isNaN(num) ? undefined : Math.min(Math.max(num, 0), 100);
+};
+
+const parsePriority = (value: string): number | undefined => {
+  const num = parseInt(value, 10);
+  return isNaN(num) ? undefined : num;
+};
+
 export function ConnectionEdgeMenu({ edgeId, viewMode }: ConnectionEdgeMenuProps) {
   const closeContextMenu = useUIStore((state) => state.closeContextMenu);
   const clearSelection = useUIStore((state) => state.clearSelection);
@@ -47,6 +61,23 @@ export function ConnectionEdgeMenu({ edgeId, viewMode }: ConnectionEdgeMenuProps
           options={MODE_OPTIONS}
           onChange={(mode) => updateConnection(connection.id, { mode: mode as ConnectionMode })}
         />
+        {connection.mode === 'share' && (
+          <InlineInput
+            label="Share %"
+            value={connection.share ?? DEFAULT_CONNECTION_SHARE}
+            type="number"
+            min={0}
+            max={100}
+            onSubmit={(value) => updateConnection(connection.id, { share: parseShare(value) })}
+          />
+        )}
+        <InlineInput
+          label="Priority"
+          value={connection.priority ?? 0}
+          type="number"
+          step={1}
+          onSubmit={(value) => updateConnection(connection.id, { priority: parsePriority(value) })}
+        />
         <MenuSeparator />
         <MenuButton
           label="Delete Connection"
@@ -83,6 +114,27 @@ export function ConnectionEdgeMenu({ edgeId, viewMode }: ConnectionEdgeMenuProps
           updateModuleConnection(activeStationId, connection.id, { mode: mode as ConnectionMode })
         }
       />
+      {connection.mode === 'share' && (
+        <InlineInput
+          label="Share %"
+          value={connection.share ?? DEFAULT_CONNECTION_SHARE}
+          type="number"
+          min={0}
+          max={100}
+          onSubmit={(value) =>
+            updateModuleConnection(activeStationId, connection.id, { share: parseShare(value) })
+          }
+        />
+      )}
+      <InlineInput
+        label="Priority"
+        value={connection.priority ?? 0}
+        type="number"
+        step={1}
+        onSubmit={(value) =>
+          updateModuleConnection(activeStationId, connection.id, { priority: parsePriority(value) })
+        }
+      />
       <div className="px-3 py-1.5 flex items-center justify-between" onClick={(e) => e.stopPropagation()}>
         <span className="text-xs text-muted-foreground">Lock Amount</span>
         <button
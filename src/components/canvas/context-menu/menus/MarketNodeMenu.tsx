@@ -0,0 +1,50 @@
+import { usePlanStore, useUIStore } from '@/store';
+import { MenuButton } from '../items/MenuButton';
+import { MenuSeparator } from '../items/MenuSeparator';
+import { InlineInput } from '../items/InlineInput';
+
+interface MarketNodeMenuProps {
+  nodeId: string;
+}
+
+export function MarketNodeMenu({ nodeId }: MarketNodeMenuProps) {
+  const markets = usePlanStore((state) => state.plan.markets);
+  const updateMarket = usePlanStore((state) => state.updateMarket);
+  const removeMarket = usePlanStore((state) => state.removeMarket);
+  const closeContextMenu = useUIStore((state) => state.closeContextMenu);
+  const clearSelection = useUIStore((state) => state.clearSelection);
+
+  const market = markets?.find((m) => m.id === nodeId);
+  if (!market) return null;
+
+  return (
+    <>
+      <InlineInput
+        label="Change Name"
+        value={market.name}
+        onSubmit={(val) => {
+          if (val.trim()) updateMarket(nodeId, { name: val.trim() });
+        }}
+      />
+      <MenuButton
+        label={market.locked ? 'Unlock Position' : 'Lock Position'}
+        icon={market.locked ? '🔓' : '🔒'}
+        onClick={() => {
+          updateMarket(nodeId, { locked: !market.locked });
+          closeContextMenu();
+        }}
+      />
+      <MenuSeparator />
+      <MenuButton
+        label="Delete Market"
+        icon="×"
+        variant="destructive"
+        onClick={() => {
+          removeMarket(nodeId);
+          clearSelection();
+          closeContextMenu();
+        }}
+      />
+    </>
+  );
+}
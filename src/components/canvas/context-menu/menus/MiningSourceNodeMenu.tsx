@@ -0,0 +1,60 @@
+import { usePlanStore, useUIStore } from '@/store';
+import { MenuButton } from '../items/MenuButton';
+import { MenuSeparator } from '../items/MenuSeparator';
+import { InlineInput } from '../items/InlineInput';
+
+interface MiningSourceNodeMenuProps {
+  nodeId: string;
+}
+
+export function MiningSourceNodeMenu({ nodeId }: MiningSourceNodeMenuProps) {
+  const miningSources = usePlanStore((state) => state.plan.miningSources);
+  const updateMiningSource = usePlanStore((state) => state.updateMiningSource);
+  const removeMiningSource = usePlanStore((state) => state.removeMiningSource);
+  const closeContextMenu = useUIStore((state) => state.closeContextMenu);
+  const clearSelection = useUIStore((state) => state.clearSelection);
+
+  const source = miningSources?.find((m) => m.id === nodeId);
+  if (!source) return null;
+
+  return (
+    <>
+      <InlineInput
+        label="Change Name"
+        value={source.name}
+        onSubmit={(val) => {
+          if (val.trim()) updateMiningSource(nodeId, { name: val.trim() });
+        }}
+      />
+      <InlineInput
+        label="Miners"
+        value={source.miners}
+        type="number"
+        min={0}
+        onSubmit={(val) => {
+          const num = parseInt(val, 10);
+          if (!isNaN(num) && num >= 0) updateMiningSource(nodeId, { miners: num });
+        }}
+      />
+      <MenuButton
+        label={source.locked ? 'Unlock Position' : 'Lock Position'}
+        icon={source.locked ? '🔓' : '🔒'}
+        onClick={() => {
+          updateMiningSource(nodeId, { locked: !source.locked });
+          closeContextMenu();
+        }}
+      />
+      <MenuSeparator />
+      <MenuButton
+        label="Delete Mining Source"
+        icon="×"
+        variant="destructive"
+        onClick={() => {
+          removeMiningSource(nodeId);
+          clearSelection();
+          closeContextMenu();
+        }}
+      />
+    </>
+  );
+}
@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
 import { useLocale } from '@/hooks/useLocale';
+import { findRecipeForModule, getRecipesForWare } from '@/engine';
 import { MenuButton } from '../items/MenuButton';
 import { MenuSeparator } from '../items/MenuSeparator';
 import { CountAdjuster } from '../items/CountAdjuster';
@@ -14,6 +15,7 @@ export function ModuleNodeMenu({ nodeId }: ModuleNodeMenuProps) {
   const activeStationId = useUIStore((state) => state.activeStationId);
   const closeContextMenu = useUIStore((state) => state.closeContextMenu);
   const clearSelection = useUIStore((state) => state.clearSelection);
+  const openSupplyChain = useUIStore((state) => state.openSupplyChain);
   const stations = usePlanStore((state) => state.plan.stations);
   const updateModule = usePlanStore((state) => state.updateModule);
   const removeModule = usePlanStore((state) => state.removeModule);
@@ -34,8 +36,27 @@ export function ModuleNodeMenu({ nodeId }: ModuleNodeMenuProps) {
       .map((m) => ({ value: m.id, label: t(m.name) }));
   }, [gameData, moduleType, t]);
 
+  // Production methods (recipes) for the produced ware, plus "auto" (inferred from blueprint)
+  const recipeOptions = useMemo(() => {
+    if (!gameData || !module || moduleType !== 'production') return [];
+    const blueprint = gameData.modules.production[module.blueprintId];
+    if (!blueprint) return [];
+    const recipes = getRecipesForWare(blueprint.producedWareId, gameData.recipes);
+    if (recipes.length < 2) return [];
+    const inferred = findRecipeForModule(blueprint, gameData.recipes);
+    return [
+      { value: '', label: `Auto (${inferred?.method ?? 'default'})` },
+      ...recipes.map((r) => ({ value: r.id, label: r.method })),
+    ];
+  }, [gameData, module, moduleType]);
+
   if (!station || !module || !activeStationId) return null;
 
+  // Recyclers list several wares; their chain starts from the first
+  const producedWareId = moduleType === 'production'
+    ? gameData?.modules.production[module.blueprintId]?.producedWareId.split(' ')[0]
+    : undefined;
+
   return (
     <>
       <CountAdjuster
@@ -52,6 +73,16 @@ export function ModuleNodeMenu({ nodeId }: ModuleNodeMenuProps) {
           onChange={(blueprintId) => updateModule(activeStationId, module.id, { blueprintId })}
         />
       )}
+      {recipeOptions.length > 0 && (
+        <InlineSelect
+          label="Method"
+          value={module.recipeId ?? ''}
+          options={recipeOptions}
+          onChange={(recipeId) =>
+            updateModule(activeStationId, module.id, { recipeId: recipeId || undefined })
+          }
+        />
+      )}
       <MenuButton
         label={module.locked ? 'Unlock Position' : 'Lock Position'}
         icon={module.locked ? '🔓' : '🔒'}
@@ -60,6 +91,16 @@ export function ModuleNodeMenu({ nodeId }: ModuleNodeMenuProps) {
           closeContextMenu();
         }}
       />
+      {producedWareId && (
+        <MenuButton
+          label="Show Supply Chain"
+          icon="⇶"
+          onClick={() => {
+            openSupplyChain(producedWareId);
+            closeContextMenu();
+          }}
+        />
+      )}
       <MenuSeparator />
       <MenuButton
         label="Delete Module"
@@ -1,15 +1,21 @@
 import { useCallback } from 'react';
 import { useReactFlow } from '@xyflow/react';
 import { usePlanStore, useUIStore } from '@/store';
+import { useSelectionActions } from '@/hooks/useSelectionActions';
 import { MenuButton } from '../items/MenuButton';
+import { MenuSeparator } from '../items/MenuSeparator';
 
 export function NetworkPaneMenu() {
-  const { screenToFlowPosition } = useReactFlow();
+  const { screenToFlowPosition, fitView } = useReactFlow();
   const contextMenu = useUIStore((state) => state.contextMenu);
   const closeContextMenu = useUIStore((state) => state.closeContextMenu);
+  const clipboard = useUIStore((state) => state.clipboard);
+  const { paste } = useSelectionActions();
   const plan = usePlanStore((state) => state.plan);
   const addStation = usePlanStore((state) => state.addStation);
   const addSector = usePlanStore((state) => state.addSector);
+  const addMarket = usePlanStore((state) => state.addMarket);
+  const autoLayoutNetwork = usePlanStore((state) => state.autoLayoutNetwork);
 
   const handleAddStation = useCallback(
     (e: React.MouseEvent) => {
@@ -33,10 +39,38 @@ export function NetworkPaneMenu() {
     [screenToFlowPosition, contextMenu, plan.sectors.length, addSector, closeContextMenu]
   );
 
+  const handleAddMarket = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (!contextMenu) return;
+      const position = screenToFlowPosition({ x: contextMenu.x, y: contextMenu.y });
+      addMarket(`Market ${(plan.markets?.length ?? 0) + 1}`, position);
+      closeContextMenu();
+    },
+    [screenToFlowPosition, contextMenu, plan.markets?.length, addMarket, closeContextMenu]
+  );
+
+  const handlePaste = useCallback(() => {
+    if (!contextMenu) return;
+    paste(screenToFlowPosition({ x: contextMenu.x, y: contextMenu.y }));
+    closeContextMenu();
+  }, [screenToFlowPosition, contextMenu, paste, closeContextMenu]);
+
+  const handleAutoLayout = useCallback(() => {
+    autoLayoutNetwork();
+    closeContextMenu();
+    // Fit once the moved nodes have rendered
+    requestAnimationFrame(() => fitView({ duration: 300 }));
+  }, [autoLayoutNetwork, closeContextMenu, fitView]);
+
   return (
     <>
       <MenuButton label="Add Station" icon="+" onClick={handleAddStation} />
       <MenuButton label="Add Sector" icon="□" onClick={handleAddSector} />
+      <MenuButton label="Add Market" icon="⇄" onClick={handleAddMarket} />
+      <MenuSeparator />
+      {clipboard?.kind === 'network' && <MenuButton label="Paste" icon="⎘" onClick={handlePaste} />}
+      <MenuButton label="Auto-layout" icon="⊞" onClick={handleAutoLayout} />
     </>
   );
 }
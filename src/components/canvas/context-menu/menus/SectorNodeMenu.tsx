@@ -1,4 +1,6 @@
-import { usePlanStore, useUIStore } from '@/store';
+import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { getDefaultMiningYield, getSectorRawWares, getUnknownSectorResources } from '@/engine';
 import { MenuButton } from '../items/MenuButton';
 import { MenuSeparator } from '../items/MenuSeparator';
 import { InlineInput } from '../items/InlineInput';
@@ -14,6 +16,9 @@ export function SectorNodeMenu({ nodeId }: SectorNodeMenuProps) {
   const removeSector = usePlanStore((state) => state.removeSector);
   const addStation = usePlanStore((state) => state.addStation);
   const moveStationToSector = usePlanStore((state) => state.moveStationToSector);
+  const addMiningSource = usePlanStore((state) => state.addMiningSource);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
   const contextMenu = useUIStore((state) => state.contextMenu);
   const closeContextMenu = useUIStore((state) => state.closeContextMenu);
   const clearSelection = useUIStore((state) => state.clearSelection);
@@ -22,6 +27,8 @@ export function SectorNodeMenu({ nodeId }: SectorNodeMenuProps) {
   if (!sector) return null;
 
   const stationsInSector = plan.stations.filter((s) => s.sectorId === nodeId);
+  const rawWares = gameData ? getSectorRawWares(sector, gameData) : [];
+  const unknownResources = gameData ? getUnknownSectorResources(sector, gameData) : [];
 
   return (
     <>
@@ -65,6 +72,33 @@ export function SectorNodeMenu({ nodeId }: SectorNodeMenuProps) {
           closeContextMenu();
         }}
       />
+      {gameData && rawWares.map((wareId) => (
+        <MenuButton
+          key={wareId}
+          label={`Mine ${t(gameData.wares[wareId]?.name, wareId)}`}
+          icon="⛏"
+          onClick={() => {
+            const position = contextMenu?.flowPosition ?? {
+              x: sector.position.x + 50,
+              y: sector.position.y + 80,
+            };
+            const wareName = t(gameData.wares[wareId]?.name, wareId);
+            addMiningSource(
+              `${wareName} Miners`,
+              nodeId,
+              wareId,
+              getDefaultMiningYield(wareId, gameData),
+              position
+            );
+            closeContextMenu();
+          }}
+        />
+      ))}
+      {unknownResources.length > 0 && (
+        <p className="px-3 py-1.5 text-xs text-yellow-500">
+          Can't mine {unknownResources.join(', ')}: not in this game data
+        </p>
+      )}
       <MenuButton
         label={sector.locked ? 'Unlock Position' : 'Lock Position'}
         icon={sector.locked ? '🔓' : '🔒'}
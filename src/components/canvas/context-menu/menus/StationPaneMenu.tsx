@@ -2,6 +2,9 @@ import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import { useReactFlow } from '@xyflow/react';
 import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
 import { useLocale } from '@/hooks/useLocale';
+import { useSelectionActions } from '@/hooks/useSelectionActions';
+import { MenuButton } from '../items/MenuButton';
+import { MenuSeparator } from '../items/MenuSeparator';
 
 type ModuleCategory = 'production' | 'habitat' | 'storage';
 
@@ -12,14 +15,17 @@ const CATEGORY_INFO: Record<ModuleCategory, { label: string; icon: string }> = {
 };
 
 export function StationPaneMenu() {
-  const { screenToFlowPosition } = useReactFlow();
+  const { screenToFlowPosition, fitView } = useReactFlow();
   const searchRef = useRef<HTMLInputElement>(null);
 
   const gameData = useGameDataStore((state) => state.gameData);
   const addModule = usePlanStore((state) => state.addModule);
+  const autoLayoutStation = usePlanStore((state) => state.autoLayoutStation);
   const activeStationId = useUIStore((state) => state.activeStationId);
   const contextMenu = useUIStore((state) => state.contextMenu);
   const closeContextMenu = useUIStore((state) => state.closeContextMenu);
+  const clipboard = useUIStore((state) => state.clipboard);
+  const { paste } = useSelectionActions();
   const { t } = useLocale();
 
   const [expandedCategory, setExpandedCategory] = useState<ModuleCategory | null>(null);
@@ -59,6 +65,20 @@ export function StationPaneMenu() {
     [screenToFlowPosition, contextMenu, activeStationId, addModule, closeContextMenu]
   );
 
+  const handleAutoLayout = useCallback(() => {
+    if (!activeStationId) return;
+    autoLayoutStation(activeStationId);
+    closeContextMenu();
+    // Fit once the moved nodes have rendered
+    requestAnimationFrame(() => fitView({ duration: 300 }));
+  }, [activeStationId, autoLayoutStation, closeContextMenu, fitView]);
+
+  const handlePaste = useCallback(() => {
+    if (!contextMenu) return;
+    paste(screenToFlowPosition({ x: contextMenu.x, y: contextMenu.y }));
+    closeContextMenu();
+  }, [screenToFlowPosition, contextMenu, paste, closeContextMenu]);
+
   if (!gameData) return null;
 
   return (
@@ -144,6 +164,9 @@ export function StationPaneMenu() {
             })}
           </>
         )}
+        <MenuSeparator />
+        {clipboard?.kind === 'modules' && <MenuButton label="Paste" icon="⎘" onClick={handlePaste} />}
+        <MenuButton label="Auto-layout" icon="⊞" onClick={handleAutoLayout} />
       </div>
     </>
   );
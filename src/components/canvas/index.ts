@@ -1,2 +1,3 @@
 export { NetworkCanvas } from './NetworkCanvas';
 export { StationCanvas } from './StationCanvas';
+export { SupplyChainCanvas } from './SupplyChainCanvas';
@@ -7,8 +7,8 @@ import {
   type Edge,
 } from '@xyflow/react';
 import { usePlanStore } from '@/store';
-import { getConnectionComputed } from '@/engine';
-import type { PlanConnection } from '@/types';
+import { getConnectionComputed, DEFAULT_CONNECTION_SHARE } from '@/engine';
+import type { ConnectionLimit, PlanConnection } from '@/types';
 
 export type ResourceEdgeData = {
   connection: PlanConnection;
@@ -16,6 +16,32 @@ export type ResourceEdgeData = {
 
 export type ResourceEdgeType = Edge<ResourceEdgeData, 'resource'>;
 
+const LIMIT_LABELS: Record<ConnectionLimit, string> = {
+  source: 'limited by source',
+  target: 'limited by target need',
+  transport: 'limited by ships',
+};
+
+/** Short tags for the rules deciding a connection's amount (auto at priority 0 has none) */
+function getRuleTags(connection: PlanConnection): string[] {
+  const tags: string[] = [];
+  switch (connection.mode ?? 'auto') {
+    case 'share':
+      tags.push(`${connection.share ?? DEFAULT_CONNECTION_SHARE}%`);
+      break;
+    case 'custom':
+      tags.push('fixed');
+      break;
+    case 'max':
+      tags.push('max');
+      break;
+  }
+  if (connection.priority) {
+    tags.push(`P${connection.priority}`);
+  }
+  return tags;
+}
+
 export const ResourceEdge = memo(function ResourceEdge({
   id,
   sourceX,
@@ -55,6 +81,8 @@ export const ResourceEdge = memo(function ResourceEdge({
     return amount.toFixed(0);
   };
 
+  const ruleTags = connection ? getRuleTags(connection) : [];
+
   // Check if this connection is fully supplying the target's needs
   const deficit = computed.deficits.find(
     (d) =>
@@ -105,12 +133,21 @@ export const ResourceEdge = memo(function ResourceEdge({
               ${connectionComputed?.sourceConstrained ? 'border-orange-500' : ''}
               transition-all cursor-pointer
             `}
-            title={
+            title={[
               connection.mode === 'custom'
                 ? `Custom: ${formatAmount(connection.amount)}, Actual: ${formatAmount(connectionComputed?.effectiveAmount ?? 0)}`
-                : `Auto: ${formatAmount(connectionComputed?.effectiveAmount ?? 0)}`
-            }
+                : connection.mode === 'share'
+                  ? `Share: ${connection.share ?? DEFAULT_CONNECTION_SHARE}% of source, Actual: ${formatAmount(connectionComputed?.effectiveAmount ?? 0)}`
+                  : `${connection.mode === 'max' ? 'Max' : 'Auto'}: ${formatAmount(connectionComputed?.effectiveAmount ?? 0)}`,
+              connection.priority ? `Priority ${connection.priority}` : null,
+              connectionComputed?.limitedBy ? LIMIT_LABELS[connectionComputed.limitedBy] : null,
+            ]
+              .filter(Boolean)
+              .join(', ')}
           >
+            {ruleTags.length > 0 && (
+              <span className="text-muted-foreground mr-1">{ruleTags.join(' ')}</span>
+            )}
             {formatAmount(connectionComputed?.effectiveAmount ?? 0)}
           </div>
         </EdgeLabelRenderer>
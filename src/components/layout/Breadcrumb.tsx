@@ -1,10 +1,14 @@
-import { useUIStore, usePlanStore } from '@/store';
+import { useUIStore, usePlanStore, useGameDataStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
 
 export function Breadcrumb() {
   const viewMode = useUIStore((state) => state.viewMode);
   const activeStationId = useUIStore((state) => state.activeStationId);
   const exitStationView = useUIStore((state) => state.exitStationView);
+  const supplyChainWareId = useUIStore((state) => state.supplyChainWareId);
   const plan = usePlanStore((state) => state.plan);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
 
   const activeStation = plan.stations.find((s) => s.id === activeStationId);
   const sector = activeStation?.sectorId
@@ -42,6 +46,14 @@ export function Breadcrumb() {
       >
         {plan.name}
       </button>
+      {viewMode === 'supplyChain' && supplyChainWareId && (
+        <>
+          <span className="mx-2 text-muted-foreground">/</span>
+          <span className="text-foreground font-medium">
+            Supply Chain: {t(gameData?.wares[supplyChainWareId]?.name, supplyChainWareId)}
+          </span>
+        </>
+      )}
       {sector && (
         <>
           <span className="mx-2 text-muted-foreground">/</span>
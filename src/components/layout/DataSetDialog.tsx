@@ -0,0 +1,272 @@
+import { useState, type ChangeEvent } from 'react';
+import { nanoid } from 'nanoid';
+import { Modal } from '@/components/shared/Modal';
+import { BUILT_IN_DATA_SETS, DEFAULT_DATA_SET_ID } from '@/data/dataSets';
+import { loadDataSet } from '@/data/loader';
+import { overlaySchema, validateGameData } from '@/lib/gameDataSchema';
+import { validate, type ValidationIssue } from '@/lib/schema';
+import { useGameModeStore, usePlanManagerStore, useUIStore } from '@/store';
+import type { DataSet, GameDataOverlay } from '@/types';
+
+// Field errors listed before the rest are summarized
+const MAX_SHOWN_ISSUES = 20;
+
+// Labels are shown in the title bar badge
+const MAX_LABEL_LENGTH = 12;
+
+interface DataSetDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Ask to switch to another data set */
+  onSwitch: (id: string) => void;
+}
+
+/** Number of entries an overlay adds, changes or removes */
+function countOverlayEntries(overlay: GameDataOverlay): number {
+  const groups = [
+    overlay.wares,
+    overlay.recipes,
+    overlay.modules?.production,
+    overlay.modules?.habitat,
+    overlay.modules?.storage,
+    overlay.sectors,
+    overlay.workforce,
+  ];
+  return groups.reduce((sum, group) => sum + Object.keys(group ?? {}).length, 0);
+}
+
+export function DataSetDialog({ open, onClose, onSwitch }: DataSetDialogProps) {
+  const gameMode = useGameModeStore((s) => s.gameMode);
+  const dataSets = useGameModeStore((s) => s.dataSets);
+  const addDataSet = useGameModeStore((s) => s.addDataSet);
+  const removeDataSet = useGameModeStore((s) => s.removeDataSet);
+  const planIndex = usePlanManagerStore((s) => s.planIndex);
+  const reassignGameMode = usePlanManagerStore((s) => s.reassignGameMode);
+  const showToast = useUIStore((s) => s.showToast);
+
+  const [label, setLabel] = useState('');
+  const [baseId, setBaseId] = useState(BUILT_IN_DATA_SETS[0].id);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [adding, setAdding] = useState(false);
+
+  const clearErrors = () => {
+    setError(null);
+    setIssues([]);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setInput(await file.text());
+    if (!label) setLabel(file.name.replace(/\.json$/i, '').slice(0, MAX_LABEL_LENGTH));
+    clearErrors();
+  };
+
+  const handleAdd = async () => {
+    clearErrors();
+    const base = BUILT_IN_DATA_SETS.find((d) => d.id === baseId)!;
+    if (!label.trim()) {
+      setError('Please enter a label');
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      setError('The overlay is not valid JSON');
+      return;
+    }
+    const shape = validate(overlaySchema, parsed);
+    if (!shape.success) {
+      setError('The overlay has an unexpected structure');
+      setIssues(shape.issues);
+      return;
+    }
+
+    const dataSet: DataSet = {
+      id: nanoid(),
+      label: label.trim(),
+      title: `${base.title} (${label.trim()})`,
+      baseId,
+      overlay: shape.data,
+    };
+
+    // Check the overlay merged over its base before saving it
+    setAdding(true);
+    try {
+      const merged = validateGameData(await loadDataSet(dataSet));
+      if (merged.length > 0) {
+        setError(`Merged over ${base.label}, the data has problems`);
+        setIssues(merged);
+        return;
+      }
+      addDataSet(dataSet);
+      showToast(`Added data set "${dataSet.label}"`, 'success');
+      setLabel('');
+      setInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the base data set');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // Plans made with the set move to its base set, so they stay listed
+  const handleRemove = (dataSet: DataSet) => {
+    const baseId = dataSet.baseId ?? DEFAULT_DATA_SET_ID;
+    const baseLabel = dataSets.find((d) => d.id === baseId)?.label ?? baseId;
+    const planCount = planIndex.filter((m) => m.gameMode === dataSet.id).length;
+    const message =
+      planCount > 0
+        ? `Remove data set "${dataSet.label}"? ${planCount} plan(s) made with it will move to ${baseLabel}.`
+        : `Remove data set "${dataSet.label}"?`;
+
+    if (confirm(message)) {
+      reassignGameMode(dataSet.id, baseId);
+      removeDataSet(dataSet.id);
+    }
+  };
+
+  const handleClose = () => {
+    clearErrors();
+    onClose();
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={handleClose}
+      title="Game Data Sets"
+      size="md"
+      footer={
+        <button
+          onClick={handleClose}
+          className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+        >
+          Close
+        </button>
+      }
+    >
+      <div className="space-y-4">
+        <div className="space-y-1">
+          {dataSets.map((dataSet) => {
+            const base = dataSet.baseId ? dataSets.find((d) => d.id === dataSet.baseId) : undefined;
+            return (
+              <div
+                key={dataSet.id}
+                className="flex items-center gap-2 px-3 py-2 rounded border border-border text-sm"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-foreground truncate">{dataSet.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {dataSet.overlay
+                      ? `Overlay on ${base?.label ?? dataSet.baseId} · ${countOverlayEntries(dataSet.overlay)} entries`
+                      : 'Shipped with the planner'}
+                  </div>
+                </div>
+                {dataSet.id === gameMode ? (
+                  <span className="text-xs text-primary font-medium">Active</span>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onSwitch(dataSet.id)}
+                      className="px-2 py-1 text-xs rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+                    >
+                      Switch
+                    </button>
+                    {dataSet.overlay && (
+                      <button
+                        onClick={() => handleRemove(dataSet)}
+                        className="px-2 py-1 text-xs rounded text-destructive hover:bg-destructive/10 transition-colors"
+                        title="Remove this data set (plans made with it move to its base set)"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="pt-3 border-t border-border space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium text-foreground">Add Overlay</div>
+            <label className="text-xs text-primary hover:underline cursor-pointer">
+              Open JSON File…
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={label}
+              maxLength={MAX_LABEL_LENGTH}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (e.g. VRO)"
+              className="flex-1 px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <select
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              title="Data set the overlay is merged over"
+            >
+              {BUILT_IN_DATA_SETS.map((d) => (
+                <option key={d.id} value={d.id}>
+                  Over {d.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              clearErrors();
+            }}
+            placeholder='Partial game data JSON, e.g. { "recipes": { "energycells_default": { "time": 45 } } }'
+            className="w-full h-32 px-3 py-2 text-xs font-mono rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring resize-none"
+          />
+          <div className="text-xs text-muted-foreground">
+            Entries are merged over the base data field by field; new entries need every field, and null
+            removes an entry.
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 border border-destructive/30 rounded px-3 py-2">
+              {error}
+              {issues.length > 0 && (
+                <ul className="mt-2 space-y-0.5 max-h-40 overflow-y-auto text-xs">
+                  {issues.slice(0, MAX_SHOWN_ISSUES).map((issue, index) => (
+                    <li key={index}>
+                      <span className="font-mono">{issue.path || 'overlay'}</span>: {issue.message}
+                    </li>
+                  ))}
+                  {issues.length > MAX_SHOWN_ISSUES && (
+                    <li className="italic">…and {issues.length - MAX_SHOWN_ISSUES} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleAdd}
+              disabled={adding || !input.trim()}
+              className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {adding ? 'Checking…' : 'Add Data Set'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -3,23 +3,39 @@ import { useGameModeStore } from '@/store/gameModeStore';
 import { useGameDataStore, usePlanStore, usePlanManagerStore, useUIStore } from '@/store';
 import { loadGameData, clearGameDataCache } from '@/data/loader';
 import { Modal } from '@/components/shared/Modal';
-import type { GameMode } from '@/types';
+import { DataSetDialog } from './DataSetDialog';
+import type { DataSet, GameMode } from '@/types';
+
+/** Badge colour: shipped sets have their own, custom overlays share one */
+function badgeClass(dataSet: DataSet | undefined): string {
+  if (dataSet?.id === 'swi') return 'bg-amber-600 text-white hover:bg-amber-700';
+  if (dataSet?.id === 'base') return 'bg-blue-600 text-white hover:bg-blue-700';
+  return 'bg-violet-600 text-white hover:bg-violet-700';
+}
 
 export function GameModeToggle() {
   const gameMode = useGameModeStore((s) => s.gameMode);
+  const dataSets = useGameModeStore((s) => s.dataSets);
   const setGameMode = useGameModeStore((s) => s.setGameMode);
   const setGameData = useGameDataStore((s) => s.setGameData);
   const setLoading = useGameDataStore((s) => s.setLoading);
   const setError = useGameDataStore((s) => s.setError);
   const setPlansOpen = useUIStore((s) => s.setPlansOpen);
 
-  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [dataSetsOpen, setDataSetsOpen] = useState(false);
+  const [newMode, setNewMode] = useState<GameMode | null>(null);
 
-  const newMode: GameMode = gameMode === 'swi' ? 'base' : 'swi';
-  const newModeLabel = newMode === 'swi' ? 'SWI Mod' : 'Base Game';
+  const current = dataSets.find((d) => d.id === gameMode);
+  const newModeLabel = dataSets.find((d) => d.id === newMode)?.label ?? '';
+
+  const requestSwitch = (mode: GameMode) => {
+    setDataSetsOpen(false);
+    setNewMode(mode);
+  };
 
   const performSwitch = async (save: boolean) => {
-    setConfirmOpen(false);
+    setNewMode(null);
+    if (!newMode) return;
 
     if (save) {
       // Explicitly save the current plan
@@ -63,26 +79,28 @@ export function GameModeToggle() {
   return (
     <>
       <button
-        onClick={() => setConfirmOpen(true)}
-        className={`px-3 py-1.5 text-sm rounded transition-colors font-medium ${
-          gameMode === 'swi'
-            ? 'bg-amber-600 text-white hover:bg-amber-700'
-            : 'bg-blue-600 text-white hover:bg-blue-700'
-        }`}
-        title={`Switch to ${newModeLabel}`}
+        onClick={() => setDataSetsOpen(true)}
+        className={`px-3 py-1.5 text-sm rounded transition-colors font-medium ${badgeClass(current)}`}
+        title="Switch or manage game data sets"
       >
-        {gameMode === 'swi' ? 'SWI' : 'Base'}
+        {current?.label ?? gameMode}
       </button>
 
+      <DataSetDialog
+        open={dataSetsOpen}
+        onClose={() => setDataSetsOpen(false)}
+        onSwitch={requestSwitch}
+      />
+
       <Modal
-        open={confirmOpen}
-        onClose={() => setConfirmOpen(false)}
+        open={newMode !== null}
+        onClose={() => setNewMode(null)}
         title={`Switch to ${newModeLabel}?`}
         size="sm"
         footer={
           <div className="flex items-center gap-2 w-full">
             <button
-              onClick={() => setConfirmOpen(false)}
+              onClick={() => setNewMode(null)}
               className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
             >
               Cancel
@@ -104,7 +122,7 @@ export function GameModeToggle() {
         }
       >
         <p className="text-sm text-muted-foreground">
-          You are about to switch to <span className="font-medium text-foreground">{newModeLabel}</span> mode.
+          You are about to switch to the <span className="font-medium text-foreground">{newModeLabel}</span> data set.
           Game data will be reloaded with different wares and modules.
         </p>
         <p className="text-sm text-muted-foreground mt-2">
@@ -1,6 +1,6 @@
 import { useEffect } from 'react';
 import { useUIStore, usePlanStore } from '@/store';
-import { StationPanel, SectorPanel, ModulePalette, ModulePanel, ConnectionPanel, ModuleConnectionPanel } from '@/components/panels';
+import { StationPanel, SectorPanel, MiningSourcePanel, MarketPanel, ModulePalette, ModulePanel, ConnectionPanel, ModuleConnectionPanel, SupplyChainPanel, SelectionPanel } from '@/components/panels';
 
 export function Sidebar() {
   const sidebarOpen = useUIStore((state) => state.sidebarOpen);
@@ -8,6 +8,7 @@ export function Sidebar() {
   const setSidebarOpen = useUIStore((state) => state.setSidebarOpen);
   const selectedNodeId = useUIStore((state) => state.selectedNodeId);
   const selectedEdgeId = useUIStore((state) => state.selectedEdgeId);
+  const selectedNodeIds = useUIStore((state) => state.selectedNodeIds);
   const viewMode = useUIStore((state) => state.viewMode);
   const activeStationId = useUIStore((state) => state.activeStationId);
   const plan = usePlanStore((state) => state.plan);
@@ -35,6 +36,12 @@ export function Sidebar() {
   const selectedSector = viewMode === 'network'
     ? plan.sectors.find((s) => s.id === selectedNodeId)
     : null;
+  const selectedMiningSource = viewMode === 'network'
+    ? plan.miningSources?.find((m) => m.id === selectedNodeId)
+    : null;
+  const selectedMarket = viewMode === 'network'
+    ? plan.markets?.find((m) => m.id === selectedNodeId)
+    : null;
   const selectedConnection = plan.connections.find(
     (c) => c.id === selectedEdgeId
   );
@@ -48,9 +55,17 @@ export function Sidebar() {
     ? (activeStation.moduleConnections ?? []).find((c) => c.id === selectedEdgeId)
     : null;
 
+  // Several nodes selected (Station Input/Output don't count)
+  const multiSelectCount = viewMode === 'station'
+    ? (activeStation?.modules ?? []).filter((m) => selectedNodeIds.includes(m.id)).length
+    : viewMode === 'network' ? selectedNodeIds.length : 0;
+  const hasMultiSelection = multiSelectCount > 1;
+
   // Determine panel title
   let panelTitle = 'Network';
-  if (viewMode === 'station') {
+  if (hasMultiSelection) {
+    panelTitle = 'Selection';
+  } else if (viewMode === 'station') {
     if (selectedModuleConnection) {
       panelTitle = 'Connection';
     } else if (selectedModule) {
@@ -58,15 +73,25 @@ export function Sidebar() {
     } else {
       panelTitle = 'Add Modules';
     }
+  } else if (viewMode === 'supplyChain') {
+    panelTitle = 'Supply Chain';
   } else if (selectedStation) {
     panelTitle = 'Station';
   } else if (selectedSector) {
     panelTitle = 'Sector';
+  } else if (selectedMiningSource) {
+    panelTitle = 'Mining Source';
+  } else if (selectedMarket) {
+    panelTitle = 'Market';
   } else if (selectedConnection) {
     panelTitle = 'Connection';
   }
 
   const renderContent = () => {
+    if (hasMultiSelection) {
+      return <SelectionPanel count={multiSelectCount} noun={viewMode === 'station' ? 'module' : 'item'} />;
+    }
+
     // Station view
     if (viewMode === 'station') {
       if (selectedModuleConnection && activeStationId) {
@@ -78,6 +103,10 @@ export function Sidebar() {
       return <ModulePalette />;
     }
 
+    if (viewMode === 'supplyChain') {
+      return <SupplyChainPanel />;
+    }
+
     // Network view
     if (selectedStation) {
       return <StationPanel station={selectedStation} />;
@@ -87,6 +116,14 @@ export function Sidebar() {
       return <SectorPanel sector={selectedSector} />;
     }
 
+    if (selectedMiningSource) {
+      return <MiningSourcePanel source={selectedMiningSource} />;
+    }
+
+    if (selectedMarket) {
+      return <MarketPanel market={selectedMarket} />;
+    }
+
     if (selectedConnection) {
       return <ConnectionPanel connection={selectedConnection} />;
     }
@@ -99,8 +136,10 @@ export function Sidebar() {
           <p className="font-medium text-foreground">Quick Actions</p>
           <ul className="text-xs space-y-1">
             <li>Right-click on the canvas to add stations</li>
+            <li>Right-click a sector to add miners for its resources</li>
             <li>Drag from one station handle to another to connect</li>
             <li>Press Delete to remove selected items</li>
+            <li>Shift-drag to select several items, then Ctrl+C / Ctrl+V to copy them</li>
             <li>Double-click a station to configure modules</li>
           </ul>
         </div>
@@ -5,11 +5,16 @@ import { PlanManagerDialog } from './PlanManagerDialog';
 import { ExportDialog } from '@/components/shared/ExportDialog';
 import { ImportDialog } from '@/components/shared/ImportDialog';
 import { AboutDialog } from '@/components/shared/AboutDialog';
+import { NetworkOptimizerDialog } from '@/components/shared/NetworkOptimizerDialog';
+import { SimulationDialog } from '@/components/shared/SimulationDialog';
+import { GameDataBrowser } from '@/components/shared/GameDataBrowser';
+import { createStationFromLayout, type StationLayout } from '@/lib/importConstructionPlan';
 import type { Plan } from '@/types';
 
 export function TopBar() {
   const plan = usePlanStore((state) => state.plan);
   const renamePlan = usePlanStore((state) => state.renamePlan);
+  const importStation = usePlanStore((state) => state.importStation);
   const toggleReport = useUIStore((state) => state.toggleReport);
   const reportOpen = useUIStore((state) => state.reportOpen);
   const plansOpen = useUIStore((state) => state.plansOpen);
@@ -21,11 +26,15 @@ export function TopBar() {
   const setLanguage = useUIStore((state) => state.setLanguage);
   const gameData = useGameDataStore((state) => state.gameData);
   const gameMode = useGameModeStore((state) => state.gameMode);
+  const dataSets = useGameModeStore((state) => state.dataSets);
   const importPlanToManager = usePlanManagerStore((state) => state.importPlan);
 
   const [exportOpen, setExportOpen] = useState(false);
   const [importOpen, setImportOpen] = useState(false);
   const [aboutOpen, setAboutOpen] = useState(false);
+  const [optimizerOpen, setOptimizerOpen] = useState(false);
+  const [simulationOpen, setSimulationOpen] = useState(false);
+  const [dataBrowserOpen, setDataBrowserOpen] = useState(false);
 
   const cycleTheme = () => {
     const next: Theme = theme === 'light' ? 'dark' : theme === 'dark' ? 'system' : 'light';
@@ -37,7 +46,12 @@ export function TopBar() {
     showToast(`Imported "${plan.name}" successfully!`, 'success');
   };
 
-  const appTitle = gameMode === 'swi' ? 'X4 SWI Station Planner' : 'X4 Station Planner';
+  const handleImportStation = (layout: StationLayout) => {
+    importStation(createStationFromLayout(layout, plan));
+    showToast(`Added station "${layout.name}"`, 'success');
+  };
+
+  const appTitle = dataSets.find((d) => d.id === gameMode)?.title ?? 'X4 Station Planner';
 
   return (
     <>
@@ -78,6 +92,27 @@ export function TopBar() {
             {theme === 'system' && '💻'}
             <span className="text-xs">{theme.charAt(0).toUpperCase() + theme.slice(1)}</span>
           </button>
+          <button
+            onClick={() => setOptimizerOpen(true)}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+            title="Optimize module counts across the network"
+          >
+            Optimize
+          </button>
+          <button
+            onClick={() => setSimulationOpen(true)}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+            title="Simulate station stockpiles over time"
+          >
+            Simulate
+          </button>
+          <button
+            onClick={() => setDataBrowserOpen(true)}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+            title="Browse wares, recipes and modules"
+          >
+            Data
+          </button>
           <button
             onClick={() => setExportOpen(true)}
             className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
@@ -131,12 +166,28 @@ export function TopBar() {
         open={importOpen}
         onClose={() => setImportOpen(false)}
         onImport={handleImport}
+        onImportStation={handleImportStation}
       />
 
       <AboutDialog
         open={aboutOpen}
         onClose={() => setAboutOpen(false)}
       />
+
+      <NetworkOptimizerDialog
+        open={optimizerOpen}
+        onClose={() => setOptimizerOpen(false)}
+      />
+
+      <SimulationDialog
+        open={simulationOpen}
+        onClose={() => setSimulationOpen(false)}
+      />
+
+      <GameDataBrowser
+        open={dataBrowserOpen}
+        onClose={() => setDataBrowserOpen(false)}
+      />
     </>
   );
 }
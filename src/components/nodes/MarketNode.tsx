@@ -0,0 +1,112 @@
+import { memo, useMemo } from 'react';
+import { type NodeProps, type Node } from '@xyflow/react';
+import { usePlanStore } from '@/store';
+import { getMarketComputed } from '@/engine';
+import { formatAmount } from '@/lib/format';
+import type { MarketWareComputed, PlanMarket } from '@/types';
+import { WareIORow, MARKET_PRESET, computeStatus, type IOStatus } from './WareIORow';
+
+export type MarketNodeData = {
+  market: PlanMarket;
+};
+
+export type MarketNodeType = Node<MarketNodeData, 'market'>;
+
+export const MarketNode = memo(function MarketNode({
+  data,
+  selected,
+}: NodeProps<MarketNodeType>) {
+  const { market } = data;
+  const sectors = usePlanStore((state) => state.plan.sectors);
+  const computed = usePlanStore((state) => state.computed);
+
+  const sector = market.sectorId
+    ? sectors.find((s) => s.id === market.sectorId)
+    : null;
+
+  const marketComputed = useMemo(
+    () => getMarketComputed(computed, market.id),
+    [computed, market.id]
+  );
+
+  const supplies = marketComputed?.wares.filter((w) => w.kind === 'supply') ?? [];
+  const demands = marketComputed?.wares.filter((w) => w.kind === 'demand') ?? [];
+
+  // Render one traded ware: supplies are outputs, demands are inputs
+  const renderWare = (ware: MarketWareComputed, index: number) => {
+    const isSupply = ware.kind === 'supply';
+    const type = isSupply ? 'output' : 'input';
+    const limitLabel = ware.limit === null ? 'Unlimited' : `Limit: ${formatAmount(ware.limit)}`;
+
+    // Capped wares fill up; unlimited ones are satisfied by any trade
+    const status: IOStatus =
+      ware.limit === null
+        ? ware.traded > 0.01 ? 'satisfied' : 'unsatisfied'
+        : computeStatus(ware.limit - ware.traded, ware.traded);
+
+    return (
+      <WareIORow
+        key={`${ware.wareId}-${index}`}
+        wareId={ware.wareId}
+        type={type}
+        handleId={`${type}-${ware.wareId}`}
+        amount={{
+          primary: ware.traded,
+          fulfilled: ware.traded,
+        }}
+        status={isSupply ? status : 'satisfied'}
+        preset={MARKET_PRESET}
+        amountTooltip={`${isSupply ? 'Sold to network' : 'Bought from network'}: ${formatAmount(ware.traded)}, ${limitLabel}`}
+      />
+    );
+  };
+
+  return (
+    <div
+      className={`
+        min-w-[200px] max-w-[200px] rounded-lg border-2 bg-card shadow-md cursor-pointer relative
+        ${selected ? 'border-primary ring-2 ring-primary/20' : 'border-sky-500/40'}
+      `}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-border bg-sky-500/10 rounded-t-lg">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sky-500 text-sm">⇄</span>
+          <h3 className="font-medium text-sm truncate flex-1 text-foreground">{market.name}</h3>
+          {sector && (
+            <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-primary/10 text-primary truncate max-w-[60px]">
+              {sector.name}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Body */}
+      <div className="px-3 py-2 space-y-2">
+        {supplies.length > 0 && (
+          <div>
+            <div className="text-[10px] text-muted-foreground mb-0.5">
+              Sells <span className="opacity-60">/hr</span>:
+            </div>
+            <div className="space-y-0 pr-2">{supplies.map(renderWare)}</div>
+          </div>
+        )}
+
+        {demands.length > 0 && (
+          <div>
+            <div className="text-[10px] text-muted-foreground mb-0.5">
+              Buys <span className="opacity-60">/hr</span>:
+            </div>
+            <div className="space-y-0 pl-2">{demands.map(renderWare)}</div>
+          </div>
+        )}
+
+        {market.wares.length === 0 && (
+          <p className="text-xs text-muted-foreground italic">
+            Select to add traded wares
+          </p>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,97 @@
+import { memo, useMemo } from 'react';
+import { type NodeProps, type Node } from '@xyflow/react';
+import { usePlanStore } from '@/store';
+import { getMiningSourceComputed } from '@/engine';
+import { formatAmount } from '@/lib/format';
+import type { PlanMiningSource } from '@/types';
+import { WareIORow, MINING_PRESET, computeStatus } from './WareIORow';
+
+export type MiningSourceNodeData = {
+  source: PlanMiningSource;
+};
+
+export type MiningSourceNodeType = Node<MiningSourceNodeData, 'mining'>;
+
+export const MiningSourceNode = memo(function MiningSourceNode({
+  data,
+  selected,
+}: NodeProps<MiningSourceNodeType>) {
+  const { source } = data;
+  const sectors = usePlanStore((state) => state.plan.sectors);
+  const computed = usePlanStore((state) => state.computed);
+
+  const sector = source.sectorId
+    ? sectors.find((s) => s.id === source.sectorId)
+    : null;
+
+  const sourceComputed = useMemo(
+    () => getMiningSourceComputed(computed, source.id),
+    [computed, source.id]
+  );
+
+  const output = sourceComputed?.output ?? 0;
+  const consumed = sourceComputed?.consumed ?? 0;
+  const unavailable = sourceComputed !== undefined && !sourceComputed.available;
+
+  return (
+    <div
+      className={`
+        min-w-[200px] max-w-[200px] rounded-lg border-2 bg-card shadow-md cursor-pointer relative
+        ${selected ? 'border-primary ring-2 ring-primary/20' : 'border-amber-500/40'}
+        ${unavailable ? 'border-red-500/50' : ''}
+      `}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-border bg-amber-500/10 rounded-t-lg">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-amber-500 text-sm">⛏</span>
+          <h3 className="font-medium text-sm truncate flex-1 text-foreground">{source.name}</h3>
+          {sector && (
+            <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-primary/10 text-primary truncate max-w-[60px]">
+              {sector.name}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Body */}
+      <div className="px-3 py-2 space-y-1.5">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">Miners</span>
+          <span className="text-foreground">
+            {source.miners} × {formatAmount(source.yieldPerMiner)}/hr
+          </span>
+        </div>
+
+        {unavailable && (
+          <p className="text-[10px] text-red-400">
+            {sector ? 'Sector has no such resource' : 'Place in a sector to mine'}
+          </p>
+        )}
+
+        {source.wareId && (
+          <div className="pt-1.5 mt-1 border-t border-border/50">
+            <div className="text-[10px] text-muted-foreground mb-0.5">
+              Output <span className="opacity-60">/hr</span>:
+            </div>
+            <div className="space-y-0 pr-2">
+              <WareIORow
+                wareId={source.wareId}
+                type="output"
+                handleId={`output-${source.wareId}`}
+                amount={{
+                  primary: output,
+                  secondary: consumed > 0.01 ? consumed : undefined,
+                  fulfilled: consumed,
+                }}
+                status={computeStatus(output - consumed, consumed)}
+                preset={MINING_PRESET}
+                amountTooltip={`Mined: ${formatAmount(output)}, Delivered: ${formatAmount(consumed)}`}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
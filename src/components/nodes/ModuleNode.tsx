@@ -301,6 +301,16 @@ export const ModuleNode = memo(function ModuleNode({
           <span className="text-foreground font-medium">{module.count}</span>
         </div>
 
+        {/* Explicit production method */}
+        {moduleType === 'production' && module.recipeId && (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">Method</span>
+            <span className="text-foreground font-medium capitalize">
+              {gameData?.recipes[module.recipeId]?.method ?? module.recipeId}
+            </span>
+          </div>
+        )}
+
         {/* Habitat workforce */}
         {moduleType === 'habitat' && blueprint && 'workforceCapacity' in blueprint && (
           <div className="flex items-center justify-between text-xs">
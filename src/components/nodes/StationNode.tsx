@@ -37,6 +37,12 @@ export const StationNode = memo(function StationNode({
     [computed, station.id]
   );
 
+  // Supply loop this station belongs to, if any
+  const cycle = useMemo(
+    () => computed.cycles.find((c) => c.stationIds.includes(station.id)),
+    [computed.cycles, station.id]
+  );
+
   // Get deficit count
   const deficitCount = useMemo(
     () => getStationDeficitCount(computed, station.id),
@@ -291,6 +297,7 @@ export const StationNode = memo(function StationNode({
         min-w-[240px] max-w-[240px] rounded-lg border-2 bg-card shadow-md cursor-pointer relative
         ${selected ? 'border-primary ring-2 ring-primary/20' : 'border-border'}
         ${deficitCount > 0 ? 'border-red-500/50' : ''}
+        ${cycle && !selected ? 'ring-2 ring-violet-500/40' : ''}
       `}
       onDoubleClick={handleDoubleClick}
     >
@@ -325,6 +332,15 @@ export const StationNode = memo(function StationNode({
           <h3 className={`font-medium text-sm truncate flex-1 ${station.completed ? 'text-muted-foreground line-through' : 'text-foreground'}`}>
             {station.name}
           </h3>
+          {/* Supply loop badge */}
+          {cycle && (
+            <span
+              className="text-violet-400 text-sm"
+              title={`Part of a supply loop with ${cycle.stationIds.length - 1} other station(s)`}
+            >
+              ↻
+            </span>
+          )}
           {/* Sector badge */}
           {sector && (
             <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-primary/10 text-primary truncate max-w-[60px]">
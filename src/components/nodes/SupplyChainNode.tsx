@@ -0,0 +1,60 @@
+import { memo } from 'react';
+import { Handle, Position, type NodeProps, type Node } from '@xyflow/react';
+import { useGameDataStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { formatAmount } from '@/lib/format';
+import { roundModuleCount } from '@/lib/supplyChainStation';
+import type { SupplyChainWare } from '@/engine';
+
+export type SupplyChainNodeData = {
+  ware: SupplyChainWare;
+  /** The ware the chain was built for */
+  isRoot: boolean;
+};
+
+export type SupplyChainNodeType = Node<SupplyChainNodeData, 'supplyChain'>;
+
+export const SupplyChainNode = memo(function SupplyChainNode({
+  data,
+}: NodeProps<SupplyChainNodeType>) {
+  const { ware, isRoot } = data;
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
+
+  const module = ware.moduleId ? gameData?.modules.production[ware.moduleId] : undefined;
+
+  return (
+    <div
+      className={`
+        min-w-[200px] max-w-[200px] rounded-lg border-2 bg-card shadow-md relative
+        ${isRoot ? 'border-primary' : module ? 'border-orange-400/50' : 'border-border'}
+      `}
+    >
+      <Handle type="target" position={Position.Left} className="!w-2 !h-2 !bg-muted-foreground" />
+      <div className="px-3 py-2 border-b border-border">
+        <h3 className="font-medium text-sm truncate text-foreground">
+          {t(gameData?.wares[ware.wareId]?.name, ware.wareId)}
+        </h3>
+        <div className="text-xs text-muted-foreground">
+          {formatAmount(ware.amount)} <span className="opacity-60">/hr</span>
+        </div>
+      </div>
+      <div className="px-3 py-2 text-xs">
+        {module ? (
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate text-foreground">{t(module.name, module.id)}</span>
+            <span
+              className="px-1.5 py-0.5 rounded bg-orange-400/10 text-orange-500 font-medium flex-shrink-0"
+              title={`${ware.modules.toFixed(2)} modules at base rates`}
+            >
+              ×{roundModuleCount(ware.modules)}
+            </span>
+          </div>
+        ) : (
+          <span className="text-muted-foreground italic">Raw resource</span>
+        )}
+      </div>
+      <Handle type="source" position={Position.Right} className="!w-2 !h-2 !bg-muted-foreground" />
+    </div>
+  );
+});
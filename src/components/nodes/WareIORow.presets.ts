@@ -132,3 +132,54 @@ export const STATION_OUTPUT_PRESET: WareIOPreset = {
   fontSize: 'text-[10px]',
   nameMaxWidth: 'max-w-[80px]',
 };
+
+/**
+ * Preset for MiningSourceNode rows
+ * - Inline handles with handle-base class (like stations)
+ * - Amber colors for mined raw wares
+ * - No reordering (a source gathers a single ware)
+ */
+export const MINING_PRESET: WareIOPreset = {
+  handle: {
+    baseClass: 'handle-base',
+    inline: true,
+    colorClass: 'handle-mining',  // Amber color for mined wares
+  },
+  inputColors: {
+    // Not used for mining sources (they only have outputs)
+    default: 'text-amber-400',
+    satisfied: 'text-amber-300/60',
+  },
+  outputColors: {
+    default: 'text-amber-400',
+    satisfied: 'text-amber-300/60',
+  },
+  hasDrag: false,
+  fontSize: 'text-[10px]',
+  nameMaxWidth: 'max-w-[80px]',
+};
+
+/**
+ * Preset for MarketNode rows
+ * - Inline handles with handle-base class (like stations)
+ * - Sky colors for wares traded with NPC markets
+ * - No reordering
+ */
+export const MARKET_PRESET: WareIOPreset = {
+  handle: {
+    baseClass: 'handle-base',
+    inline: true,
+    colorClass: 'handle-market',  // Sky color for market trade
+  },
+  inputColors: {
+    default: 'text-sky-400',
+    satisfied: 'text-sky-300/60',
+  },
+  outputColors: {
+    default: 'text-sky-400',
+    satisfied: 'text-sky-300/60',
+  },
+  hasDrag: false,
+  fontSize: 'text-[10px]',
+  nameMaxWidth: 'max-w-[80px]',
+};
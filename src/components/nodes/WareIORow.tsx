@@ -230,4 +230,6 @@ export {
   STATION_PRESET,
   STATION_INPUT_PRESET,
   STATION_OUTPUT_PRESET,
+  MINING_PRESET,
+  MARKET_PRESET,
 } from './WareIORow.presets';
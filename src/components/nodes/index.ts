@@ -3,3 +3,6 @@ export { SectorGroup, type SectorGroupData, type SectorGroupType } from './Secto
 export { ModuleNode, type ModuleNodeData, type ModuleNodeType } from './ModuleNode';
 export { StationInputNode, type StationInputNodeData, type StationInputNodeType, STATION_INPUT_GENERIC_HANDLE } from './StationInputNode';
 export { StationOutputNode, type StationOutputNodeData, type StationOutputNodeType, STATION_OUTPUT_GENERIC_HANDLE } from './StationOutputNode';
+export { MiningSourceNode, type MiningSourceNodeData, type MiningSourceNodeType } from './MiningSourceNode';
+export { MarketNode, type MarketNodeData, type MarketNodeType } from './MarketNode';
+export { SupplyChainNode, type SupplyChainNodeData, type SupplyChainNodeType } from './SupplyChainNode';
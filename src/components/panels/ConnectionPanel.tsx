@@ -1,8 +1,18 @@
 import { useMemo } from 'react';
 import { usePlanStore, useGameDataStore } from '@/store';
-import { getStationComputed, getConnectionComputed } from '@/engine';
+import {
+  getStationComputed,
+  getConnectionComputed,
+  getMiningSourceComputed,
+  getTransportThroughput,
+  getTravelMinutes,
+  DEFAULT_TRANSPORT,
+  DEFAULT_CONNECTION_SHARE,
+  SHIP_CLASS_CARGO,
+  SHIP_CLASS_LABELS,
+} from '@/engine';
 import { useLocale } from '@/hooks/useLocale';
-import type { PlanConnection, ConnectionMode } from '@/types';
+import type { PlanConnection, ConnectionMode, ConnectionTransport, ShipClass } from '@/types';
 
 interface ConnectionPanelProps {
   connection: PlanConnection;
@@ -16,10 +26,19 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
   const gameData = useGameDataStore((state) => state.gameData);
   const { t } = useLocale();
 
-  // Get source and target stations
+  // Get source and target stations (either end may also be a mining source or market)
   const sourceStation = plan.stations.find(
     (s) => s.id === connection.sourceStationId
   );
+  const sourceMining = plan.miningSources?.find(
+    (m) => m.id === connection.sourceStationId
+  );
+  const sourceMarket = plan.markets?.find(
+    (m) => m.id === connection.sourceStationId
+  );
+  const targetMarket = plan.markets?.find(
+    (m) => m.id === connection.targetStationId
+  );
   const targetStation = plan.stations.find(
     (s) => s.id === connection.targetStationId
   );
@@ -45,7 +64,9 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
   const sourceOutput = sourceComputed?.netOutputs.find(
     (o) => o.wareId === connection.wareId
   );
-  const sourceAvailable = sourceOutput?.amount ?? 0;
+  const sourceMarketLimit = sourceMarket?.wares.find(
+    (w) => w.kind === 'supply' && w.wareId === connection.wareId
+  )?.limit;
 
   // Get target needs for this ware
   const targetInput = targetComputed?.netInputs.find(
@@ -53,12 +74,22 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
   );
   const targetNeeds = targetInput?.amount ?? 0;
 
+  // Unlimited markets offer as much as the target needs
+  const sourceAvailable = sourceMining
+    ? getMiningSourceComputed(computed, sourceMining.id)?.output ?? 0
+    : sourceMarket
+      ? sourceMarketLimit ?? targetNeeds
+      : sourceOutput?.amount ?? 0;
+
   // Get connection computed (effective amount)
   const connectionComputed = useMemo(
     () => getConnectionComputed(computed, connection.id),
     [computed, connection.id]
   );
 
+  // Connections sharing the source output or target need this one ran out of
+  const sharedCount = connectionComputed?.sharedWith?.length ?? 0;
+
   const effectiveAmount = connectionComputed?.effectiveAmount ?? connection.amount;
   const currentMode: ConnectionMode = connection.mode ?? 'auto';
 
@@ -93,6 +124,19 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
     }
   };
 
+  const handleShareChange = (value: string) => {
+    const numValue = parseFloat(value);
+    updateConnection(connection.id, {
+      // Empty input falls back to the default share
+      share: isNaN(numValue) ? undefined : Math.min(Math.max(numValue, 0), 100),
+    });
+  };
+
+  const handlePriorityChange = (value: string) => {
+    const numValue = parseInt(value, 10);
+    updateConnection(connection.id, { priority: isNaN(numValue) ? undefined : numValue });
+  };
+
   const handleSetToMax = () => {
     updateConnection(connection.id, { mode: 'custom', amount: sourceAvailable });
   };
@@ -102,6 +146,27 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
     updateConnection(connection.id, { mode: 'custom', amount });
   };
 
+  const transport = connection.transport;
+  const ware = gameData?.wares[connection.wareId];
+  const requiredShips = connectionComputed?.requiredShips ?? 0;
+  const shipClassLabel = SHIP_CLASS_LABELS[(transport ?? DEFAULT_TRANSPORT).shipClass];
+
+  const updateTransport = (patch: Partial<ConnectionTransport>) => {
+    updateConnection(connection.id, {
+      transport: { ...(transport ?? DEFAULT_TRANSPORT), ...patch },
+    });
+  };
+
+  const handleTransportToggle = (enabled: boolean) => {
+    updateConnection(connection.id, {
+      transport: enabled ? { ...DEFAULT_TRANSPORT, ships: Math.max(requiredShips, 1) } : undefined,
+    });
+  };
+
+  const handleShipClassChange = (shipClass: ShipClass) => {
+    updateTransport({ shipClass, cargoCapacity: SHIP_CLASS_CARGO[shipClass] });
+  };
+
   const handleDelete = () => {
     if (confirm('Delete this connection?')) {
       removeConnection(connection.id);
@@ -122,13 +187,13 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
         <div className="flex items-center gap-2 text-sm">
           <span className="text-muted-foreground">From:</span>
           <span className="font-medium text-foreground truncate">
-            {sourceStation?.name ?? 'Unknown'}
+            {sourceStation?.name ?? sourceMining?.name ?? sourceMarket?.name ?? 'Unknown'}
           </span>
         </div>
         <div className="flex items-center gap-2 text-sm">
           <span className="text-muted-foreground">To:</span>
           <span className="font-medium text-foreground truncate">
-            {targetStation?.name ?? 'Unknown'}
+            {targetStation?.name ?? targetMarket?.name ?? 'Unknown'}
           </span>
         </div>
       </div>
@@ -155,11 +220,46 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
           <option value="auto">Auto (match availability)</option>
           <option value="max">Max (take all available)</option>
           <option value="custom">Custom (fixed amount)</option>
+          <option value="share">Share (% of source output)</option>
         </select>
         <p className="text-xs text-muted-foreground">
           {currentMode === 'auto' && 'Transfers min(source available, target need)'}
           {currentMode === 'max' && 'Takes all available from source up to target need'}
           {currentMode === 'custom' && 'Uses a fixed amount you specify'}
+          {currentMode === 'share' && "Takes a percentage of the source's output"}
+        </p>
+      </div>
+
+      {/* Share */}
+      {currentMode === 'share' && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">
+            Share <span className="text-muted-foreground font-normal">(% of source output)</span>
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={connection.share ?? DEFAULT_CONNECTION_SHARE}
+            onChange={(e) => handleShareChange(e.target.value)}
+            className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      )}
+
+      {/* Priority */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Priority</label>
+        <input
+          type="number"
+          step={1}
+          value={connection.priority ?? 0}
+          onChange={(e) => handlePriorityChange(e.target.value)}
+          className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <p className="text-xs text-muted-foreground">
+          Higher priority connections are supplied first; equal priorities split what is left
         </p>
       </div>
 
@@ -241,11 +341,13 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
           {connectionComputed?.sourceConstrained && (
             <div className="text-yellow-400 mt-1">
               ⚠ Limited by source availability
+              {sharedCount > 0 && ` (split with ${sharedCount} other connection${sharedCount === 1 ? '' : 's'})`}
             </div>
           )}
           {connectionComputed?.targetConstrained && (
             <div className="text-blue-400 mt-1">
               ℹ Target needs less than available
+              {sharedCount > 0 && ` (also supplied by ${sharedCount} other connection${sharedCount === 1 ? '' : 's'})`}
             </div>
           )}
         </div>
@@ -271,6 +373,108 @@ export function ConnectionPanel({ connection }: ConnectionPanelProps) {
         )}
       </div>
 
+      {/* Transport */}
+      <div className="space-y-1.5">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!transport}
+            onChange={(e) => handleTransportToggle(e.target.checked)}
+            className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+          />
+          <span className="text-sm font-medium text-foreground">Assign trade ships</span>
+        </label>
+
+        {transport && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Ship class</label>
+              <select
+                value={transport.shipClass}
+                onChange={(e) => handleShipClassChange(e.target.value as ShipClass)}
+                className="w-full px-2 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                {(Object.keys(SHIP_CLASS_LABELS) as ShipClass[]).map((shipClass) => (
+                  <option key={shipClass} value={shipClass}>
+                    {SHIP_CLASS_LABELS[shipClass]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Ships</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={transport.ships}
+                onChange={(e) => updateTransport({ ships: Math.max(parseInt(e.target.value, 10) || 0, 0) })}
+                className="w-full px-2 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Cargo (m³)</label>
+              <input
+                type="number"
+                min={0}
+                value={transport.cargoCapacity}
+                onChange={(e) => updateTransport({ cargoCapacity: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                className="w-full px-2 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Gate jumps</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={transport.jumps}
+                onChange={(e) => updateTransport({ jumps: Math.max(parseInt(e.target.value, 10) || 0, 0) })}
+                className="w-full px-2 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <label className="text-xs text-muted-foreground">One-way travel time (minutes)</label>
+              <input
+                type="number"
+                min={0}
+                value={transport.travelMinutes ?? ''}
+                placeholder={`${getTravelMinutes({ ...transport, travelMinutes: undefined })} (estimated from jumps)`}
+                onChange={(e) => {
+                  const minutes = parseFloat(e.target.value);
+                  updateTransport({ travelMinutes: isNaN(minutes) || minutes <= 0 ? undefined : minutes });
+                }}
+                className="w-full px-2 py-1.5 text-sm rounded-md border border-input bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="text-xs space-y-0.5 text-muted-foreground">
+          {transport && (
+            <div className="flex justify-between">
+              <span>Ship throughput:</span>
+              <span className="font-mono text-foreground">
+                {formatAmount(getTransportThroughput(transport, ware))}/hr
+              </span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Needed for current flow:</span>
+            <span className={`font-mono ${
+              transport && requiredShips > transport.ships ? 'text-yellow-400' : 'text-foreground'
+            }`}>
+              {isFinite(requiredShips) ? requiredShips : '∞'} × {shipClassLabel}
+            </span>
+          </div>
+          {connectionComputed?.transportConstrained && (
+            <div className="text-yellow-400 mt-1">
+              ⚠ Limited by ship capacity
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Actions */}
       <div className="pt-4 border-t border-border">
         <button
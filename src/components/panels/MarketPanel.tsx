@@ -0,0 +1,222 @@
+import { useMemo, useState } from 'react';
+import { usePlanStore, useGameDataStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { getMarketComputed, getWarePrice } from '@/engine';
+import { formatAmount, formatCredits } from '@/lib/format';
+import type { MarketTradeKind, PlanMarket, PlanMarketWare } from '@/types';
+
+interface MarketPanelProps {
+  market: PlanMarket;
+}
+
+export function MarketPanel({ market }: MarketPanelProps) {
+  const updateMarket = usePlanStore((state) => state.updateMarket);
+  const removeMarket = usePlanStore((state) => state.removeMarket);
+  const plan = usePlanStore((state) => state.plan);
+  const computed = usePlanStore((state) => state.computed);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { language, t } = useLocale();
+
+  const [newWareId, setNewWareId] = useState('');
+  const [newKind, setNewKind] = useState<MarketTradeKind>('supply');
+
+  const getWareName = (id: string): string => t(gameData?.wares[id]?.name, id);
+
+  const allWares = useMemo(() => {
+    if (!gameData) return [];
+    return Object.values(gameData.wares)
+      .map((ware) => ({ id: ware.id, name: t(ware.name, ware.id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameData, language]);
+
+  const sector = plan.sectors.find((s) => s.id === market.sectorId);
+  const marketComputed = getMarketComputed(computed, market.id);
+  const connectionCount = plan.connections.filter(
+    (c) => c.sourceStationId === market.id || c.targetStationId === market.id
+  ).length;
+
+  const setWares = (wares: PlanMarketWare[]) => updateMarket(market.id, { wares });
+
+  const updateWare = (index: number, patch: Partial<PlanMarketWare>) => {
+    setWares(market.wares.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  };
+
+  const removeWare = (index: number) => {
+    setWares(market.wares.filter((_, i) => i !== index));
+  };
+
+  const isListed = (wareId: string, kind: MarketTradeKind) =>
+    market.wares.some((w) => w.wareId === wareId && w.kind === kind);
+
+  const handleAddWare = () => {
+    if (!newWareId || isListed(newWareId, newKind)) return;
+    setWares([...market.wares, { wareId: newWareId, kind: newKind }]);
+    setNewWareId('');
+  };
+
+  // Empty input clears the optional number
+  const parseOptional = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const num = parseFloat(value);
+    return isNaN(num) || num < 0 ? undefined : num;
+  };
+
+  const handleDelete = () => {
+    const message =
+      connectionCount > 0
+        ? `Delete market "${market.name}"? ${connectionCount} connection(s) will be removed.`
+        : `Delete market "${market.name}"?`;
+
+    if (confirm(message)) {
+      removeMarket(market.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Name */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Name</label>
+        <input
+          type="text"
+          value={market.name}
+          onChange={(e) => updateMarket(market.id, { name: e.target.value })}
+          className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <p className="text-xs text-muted-foreground">
+          {sector ? `In ${sector.name}` : 'Not in a sector'}
+        </p>
+      </div>
+
+      {/* Traded wares */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">
+          Wares ({market.wares.length})
+        </label>
+        {market.wares.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add wares this market sells to or buys from your stations.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {market.wares.map((ware, index) => {
+              const wareComputed = marketComputed?.wares[index];
+              const defaultPrice = gameData
+                ? getWarePrice(ware.wareId, gameData, plan.pricing)
+                : null;
+              return (
+                <div key={`${ware.wareId}-${index}`} className="p-2 rounded bg-muted/50 space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-foreground truncate">{getWareName(ware.wareId)}</span>
+                    <button
+                      onClick={() => removeWare(index)}
+                      className="text-muted-foreground hover:text-destructive text-sm"
+                      title="Remove ware"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    <select
+                      value={ware.kind}
+                      onChange={(e) => updateWare(index, { kind: e.target.value as MarketTradeKind })}
+                      className="px-2 py-1 text-xs rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                    >
+                      <option value="supply">Sells</option>
+                      <option value="demand">Buys</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={ware.limit ?? ''}
+                      placeholder="∞ /hr"
+                      onChange={(e) => updateWare(index, { limit: parseOptional(e.target.value) })}
+                      className="px-2 py-1 text-xs rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                      title="Max units per hour (empty = unlimited)"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={ware.price ?? ''}
+                      placeholder={defaultPrice !== null ? `${defaultPrice} Cr` : 'Cr'}
+                      onChange={(e) => updateWare(index, { price: parseOptional(e.target.value) })}
+                      className="px-2 py-1 text-xs rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                      title="Credits per unit (empty = plan price profile)"
+                    />
+                  </div>
+                  {wareComputed && (
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        {ware.kind === 'supply' ? 'Sold to network' : 'Bought from network'}:{' '}
+                        {formatAmount(wareComputed.traded)}/hr
+                      </span>
+                      {wareComputed.price !== null && wareComputed.traded > 0 && (
+                        <span>{formatCredits(wareComputed.traded * wareComputed.price)}/hr</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Add ware */}
+        <div className="flex items-center gap-1.5 pt-1">
+          <select
+            value={newWareId}
+            onChange={(e) => setNewWareId(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+          >
+            <option value="">Select ware...</option>
+            {allWares.map((ware) => (
+              <option key={ware.id} value={ware.id}>
+                {ware.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as MarketTradeKind)}
+            className="px-2 py-1 text-xs rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+          >
+            <option value="supply">Sells</option>
+            <option value="demand">Buys</option>
+          </select>
+          <button
+            onClick={handleAddWare}
+            disabled={!newWareId || isListed(newWareId, newKind)}
+            className="px-2 py-1 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Connect a station output to a bought ware, or a sold ware to a station input.
+        </p>
+      </div>
+
+      {/* Lock Position */}
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={market.locked ?? false}
+          onChange={(e) => updateMarket(market.id, { locked: e.target.checked })}
+          className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+        />
+        <span className="text-sm">Lock position</span>
+      </label>
+
+      {/* Actions */}
+      <div className="pt-4 border-t border-border">
+        <button
+          onClick={handleDelete}
+          className="w-full px-3 py-2 text-sm rounded-md bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors"
+        >
+          Delete Market
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useMemo } from 'react';
+import { usePlanStore, useGameDataStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import {
+  getDefaultMiningYield,
+  getMiningSourceComputed,
+  getSectorRawWares,
+  getUnknownSectorResources,
+} from '@/engine';
+import { formatAmount } from '@/lib/format';
+import type { PlanMiningSource } from '@/types';
+
+interface MiningSourcePanelProps {
+  source: PlanMiningSource;
+}
+
+export function MiningSourcePanel({ source }: MiningSourcePanelProps) {
+  const updateMiningSource = usePlanStore((state) => state.updateMiningSource);
+  const removeMiningSource = usePlanStore((state) => state.removeMiningSource);
+  const plan = usePlanStore((state) => state.plan);
+  const computed = usePlanStore((state) => state.computed);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
+
+  const sector = plan.sectors.find((s) => s.id === source.sectorId);
+  const rawWares = useMemo(
+    () => (gameData ? getSectorRawWares(sector, gameData) : []),
+    [gameData, sector]
+  );
+  const unknownResources = useMemo(
+    () => (gameData ? getUnknownSectorResources(sector, gameData) : []),
+    [gameData, sector]
+  );
+
+  const sourceComputed = getMiningSourceComputed(computed, source.id);
+  const deliveries = plan.connections.filter((c) => c.sourceStationId === source.id);
+
+  const getWareName = (id: string): string => t(gameData?.wares[id]?.name, id);
+  const getStationName = (id: string): string =>
+    plan.stations.find((s) => s.id === id)?.name ?? 'Unknown';
+
+  const handleWareChange = (wareId: string) => {
+    if (!gameData) return;
+    updateMiningSource(source.id, {
+      wareId,
+      yieldPerMiner: getDefaultMiningYield(wareId, gameData),
+    });
+  };
+
+  const handleDelete = () => {
+    const message =
+      deliveries.length > 0
+        ? `Delete "${source.name}"? ${deliveries.length} connection(s) will be removed.`
+        : `Delete "${source.name}"?`;
+
+    if (confirm(message)) {
+      removeMiningSource(source.id);
+    }
+  };
+
+  // Keep the current ware selectable even if the sector does not offer it
+  const wareOptions = rawWares.includes(source.wareId) || !source.wareId
+    ? rawWares
+    : [source.wareId, ...rawWares];
+
+  return (
+    <div className="space-y-4">
+      {/* Name */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Name</label>
+        <input
+          type="text"
+          value={source.name}
+          onChange={(e) => updateMiningSource(source.id, { name: e.target.value })}
+          className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+      </div>
+
+      {/* Sector */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Sector</label>
+        {sector ? (
+          <p className="text-sm text-foreground">{sector.name}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Not in a sector. Drag the source into a sector to mine its resources.
+          </p>
+        )}
+        {sector && rawWares.length === 0 && unknownResources.length === 0 && (
+          <p className="text-xs text-yellow-500">
+            No known resources here. Pick a game sector name for this sector.
+          </p>
+        )}
+        {unknownResources.length > 0 && (
+          <p className="text-xs text-yellow-500">
+            Can't mine {unknownResources.join(', ')} here: this game data has no ware for it.
+          </p>
+        )}
+      </div>
+
+      {/* Ware */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Resource</label>
+        <select
+          value={source.wareId}
+          onChange={(e) => handleWareChange(e.target.value)}
+          disabled={wareOptions.length === 0}
+          className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+        >
+          {wareOptions.map((wareId) => (
+            <option key={wareId} value={wareId}>
+              {getWareName(wareId)}
+              {!rawWares.includes(wareId) ? ' (not in sector)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Miners and yield */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">Miners</label>
+          <input
+            type="number"
+            min={0}
+            value={source.miners}
+            onChange={(e) =>
+              updateMiningSource(source.id, { miners: Math.max(parseInt(e.target.value, 10) || 0, 0) })
+            }
+            className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">Yield / miner</label>
+          <input
+            type="number"
+            min={0}
+            value={source.yieldPerMiner}
+            onChange={(e) =>
+              updateMiningSource(source.id, { yieldPerMiner: Math.max(parseFloat(e.target.value) || 0, 0) })
+            }
+            className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            title="Units per hour delivered by one miner"
+          />
+        </div>
+      </div>
+      {gameData && source.wareId && (
+        <button
+          onClick={() =>
+            updateMiningSource(source.id, {
+              yieldPerMiner: getDefaultMiningYield(source.wareId, gameData),
+            })
+          }
+          className="text-xs text-primary hover:underline"
+        >
+          Reset yield to default ({formatAmount(getDefaultMiningYield(source.wareId, gameData))}/hr)
+        </button>
+      )}
+
+      {/* Output */}
+      {sourceComputed && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">Output</label>
+          <div className="text-sm space-y-0.5">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Mined</span>
+              <span className="text-foreground">{formatAmount(sourceComputed.output)}/hr</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Delivered</span>
+              <span className="text-foreground">{formatAmount(sourceComputed.consumed)}/hr</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Unused</span>
+              <span className="text-foreground">{formatAmount(sourceComputed.remaining)}/hr</span>
+            </div>
+          </div>
+          {!sourceComputed.available && (
+            <p className="text-xs text-red-400">
+              This sector has no {getWareName(source.wareId)}; the miners gather nothing.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Deliveries */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">
+          Deliveries ({deliveries.length})
+        </label>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Drag from the output handle to a station input to deliver.
+          </p>
+        ) : (
+          <ul className="text-sm space-y-1">
+            {deliveries.map((conn) => (
+              <li
+                key={conn.id}
+                className="flex items-center justify-between px-2 py-1 rounded bg-muted/50"
+              >
+                <span className="text-foreground">{getStationName(conn.targetStationId)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {formatAmount(
+                    computed.connections.find((c) => c.connectionId === conn.id)?.effectiveAmount ?? 0
+                  )}/hr
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Lock Position */}
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={source.locked ?? false}
+          onChange={(e) => updateMiningSource(source.id, { locked: e.target.checked })}
+          className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+        />
+        <span className="text-sm">Lock position</span>
+      </label>
+
+      {/* Actions */}
+      <div className="pt-4 border-t border-border">
+        <button
+          onClick={handleDelete}
+          className="w-full px-3 py-2 text-sm rounded-md bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors"
+        >
+          Delete Mining Source
+        </button>
+      </div>
+    </div>
+  );
+}
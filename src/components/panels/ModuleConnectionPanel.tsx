@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { usePlanStore, useGameDataStore, useUIStore } from '@/store';
 import { useLocale } from '@/hooks/useLocale';
-import { getModuleComputed, getStationComputed } from '@/engine';
+import { getModuleComputed, getStationComputed, DEFAULT_CONNECTION_SHARE } from '@/engine';
 import type { PlanModuleConnection, ConnectionMode } from '@/types';
 import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
 
@@ -62,6 +62,9 @@ export function ModuleConnectionPanel({ stationId, connection }: ModuleConnectio
     return stationComputed?.moduleConnections.find((c) => c.connectionId === connection.id);
   }, [computed, stationId, connection.id]);
 
+  // Connections sharing the source output or target need this one ran out of
+  const sharedCount = connectionComputed?.sharedWith?.length ?? 0;
+
   const effectiveAmount = connectionComputed?.effectiveAmount ?? connection.amount;
   const currentMode: ConnectionMode = connection.mode ?? 'auto';
 
@@ -121,6 +124,19 @@ export function ModuleConnectionPanel({ stationId, connection }: ModuleConnectio
     });
   };
 
+  const handleShareChange = (value: string) => {
+    const numValue = parseFloat(value);
+    updateModuleConnection(stationId, connection.id, {
+      // Empty input falls back to the default share
+      share: isNaN(numValue) ? undefined : Math.min(Math.max(numValue, 0), 100),
+    });
+  };
+
+  const handlePriorityChange = (value: string) => {
+    const numValue = parseInt(value, 10);
+    updateModuleConnection(stationId, connection.id, { priority: isNaN(numValue) ? undefined : numValue });
+  };
+
   const handleSetToMax = () => {
     updateModuleConnection(stationId, connection.id, {
       mode: 'custom',
@@ -183,11 +199,46 @@ export function ModuleConnectionPanel({ stationId, connection }: ModuleConnectio
           <option value="auto">Auto (match availability)</option>
           <option value="max">Max (take all available)</option>
           <option value="custom">Custom (fixed amount)</option>
+          <option value="share">Share (% of source output)</option>
         </select>
         <p className="text-xs text-muted-foreground">
           {currentMode === 'auto' && 'Transfers min(source available, target need)'}
           {currentMode === 'max' && 'Takes all available from source up to target need'}
           {currentMode === 'custom' && 'Uses a fixed amount you specify'}
+          {currentMode === 'share' && "Takes a percentage of the source's output"}
+        </p>
+      </div>
+
+      {/* Share */}
+      {currentMode === 'share' && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">
+            Share <span className="text-muted-foreground font-normal">(% of source output)</span>
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={connection.share ?? DEFAULT_CONNECTION_SHARE}
+            onChange={(e) => handleShareChange(e.target.value)}
+            className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      )}
+
+      {/* Priority */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Priority</label>
+        <input
+          type="number"
+          step={1}
+          value={connection.priority ?? 0}
+          onChange={(e) => handlePriorityChange(e.target.value)}
+          className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <p className="text-xs text-muted-foreground">
+          Higher priority connections are supplied first; equal priorities split what is left
         </p>
       </div>
 
@@ -271,11 +322,13 @@ export function ModuleConnectionPanel({ stationId, connection }: ModuleConnectio
           {connectionComputed?.sourceConstrained && (
             <div className="text-yellow-400 mt-1">
               ⚠ Limited by source availability
+              {sharedCount > 0 && ` (split with ${sharedCount} other connection${sharedCount === 1 ? '' : 's'})`}
             </div>
           )}
           {connectionComputed?.targetConstrained && (
             <div className="text-blue-400 mt-1">
               ℹ Target needs less than available
+              {sharedCount > 0 && ` (also supplied by ${sharedCount} other connection${sharedCount === 1 ? '' : 's'})`}
             </div>
           )}
           {!isFromStationInput && connection.ratio !== undefined && currentMode === 'custom' && (
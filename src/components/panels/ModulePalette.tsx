@@ -1,6 +1,8 @@
 import { useState, useMemo } from 'react';
 import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
 import { useLocale } from '@/hooks/useLocale';
+import { AutoBalanceDialog } from '@/components/shared/AutoBalanceDialog';
+import { getNextModulePosition } from '@/lib/moduleLayout';
 import type { LocalizedName } from '@/types/gamedata';
 
 type ModuleCategory = 'production' | 'habitat' | 'storage';
@@ -20,8 +22,9 @@ export function ModulePalette() {
 
   const [expandedCategory, setExpandedCategory] = useState<ModuleCategory | null>('production');
   const [searchQuery, setSearchQuery] = useState('');
+  const [autoBalanceOpen, setAutoBalanceOpen] = useState(false);
 
-  // Get the active station to calculate next module position
+  // Get the active station to place new modules
   const activeStation = useMemo(
     () => stations.find((s) => s.id === activeStationId),
     [stations, activeStationId]
@@ -47,17 +50,7 @@ export function ModulePalette() {
 
   const handleAddModule = (blueprintId: string) => {
     if (!activeStationId || !activeStation) return;
-
-    // Calculate position for new module (grid layout)
-    const existingCount = activeStation.modules.length;
-    const col = existingCount % 3;
-    const row = Math.floor(existingCount / 3);
-    const position = {
-      x: col * 220 + 50,
-      y: row * 150 + 50,
-    };
-
-    addModule(activeStationId, blueprintId, position);
+    addModule(activeStationId, blueprintId, getNextModulePosition(activeStation));
   };
 
   const toggleCategory = (category: ModuleCategory) => {
@@ -137,6 +130,23 @@ export function ModulePalette() {
       <p className="text-xs text-muted-foreground">
         Click a module to add it to the station.
       </p>
+
+      {/* Auto-balance */}
+      {activeStationId && (
+        <>
+          <button
+            onClick={() => setAutoBalanceOpen(true)}
+            className="w-full px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+          >
+            ⚖ Auto-balance…
+          </button>
+          <AutoBalanceDialog
+            open={autoBalanceOpen}
+            onClose={() => setAutoBalanceOpen(false)}
+            stationId={activeStationId}
+          />
+        </>
+      )}
     </div>
   );
 }
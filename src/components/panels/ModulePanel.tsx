@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
 import { useLocale } from '@/hooks/useLocale';
+import { findRecipeForModule, getRaceWorkforce, getRecipesForWare } from '@/engine';
 import type { PlanModule } from '@/types';
 
 interface ModulePanelProps {
@@ -28,10 +29,25 @@ export function ModulePanel({ stationId, module }: ModulePanelProps) {
     return Object.values(modules).sort((a, b) => t(a.name).localeCompare(t(b.name)));
   }, [gameData, moduleType, t]);
 
+  // Production methods (recipes) available for the produced ware
+  const recipeOptions = useMemo(() => {
+    if (!gameData || !blueprint || !('producedWareId' in blueprint)) return [];
+    return getRecipesForWare(blueprint.producedWareId, gameData.recipes);
+  }, [gameData, blueprint]);
+
+  const inferredRecipe = useMemo(() => {
+    if (!gameData || !blueprint || !('producedWareId' in blueprint)) return null;
+    return findRecipeForModule(blueprint, gameData.recipes);
+  }, [gameData, blueprint]);
+
   const handleBlueprintChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     updateModule(stationId, module.id, { blueprintId: e.target.value });
   };
 
+  const handleRecipeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateModule(stationId, module.id, { recipeId: e.target.value || undefined });
+  };
+
   const handleCountChange = (delta: number) => {
     const newCount = Math.max(1, module.count + delta);
     updateModule(stationId, module.id, { count: newCount });
@@ -77,6 +93,25 @@ export function ModulePanel({ stationId, module }: ModulePanelProps) {
         </select>
       </div>
 
+      {/* Production method selector */}
+      {moduleType === 'production' && recipeOptions.length > 1 && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">Production Method</label>
+          <select
+            value={module.recipeId ?? ''}
+            onChange={handleRecipeChange}
+            className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring capitalize"
+          >
+            <option value="">Auto ({inferredRecipe?.method ?? 'default'})</option>
+            {recipeOptions.map((recipe) => (
+              <option key={recipe.id} value={recipe.id}>
+                {recipe.method}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Count adjuster */}
       <div className="space-y-1.5">
         <label className="text-sm font-medium text-foreground">Count</label>
@@ -118,6 +153,12 @@ export function ModulePanel({ stationId, module }: ModulePanelProps) {
             {moduleType === 'habitat' && 'workforceCapacity' in blueprint && (
               <>
                 <p>Race: {blueprint.race}</p>
+                <p>
+                  Upkeep:{' '}
+                  {getRaceWorkforce(blueprint.race, gameData?.workforce)
+                    .upkeep.map((u) => t(gameData?.wares[u.ware]?.name, u.ware))
+                    .join(', ')}
+                </p>
                 <p>Capacity: {blueprint.workforceCapacity * module.count} workers</p>
               </>
             )}
@@ -0,0 +1,65 @@
+import { useUIStore } from '@/store';
+import { useSelectionActions } from '@/hooks/useSelectionActions';
+
+interface SelectionPanelProps {
+  count: number;
+  noun: string;
+}
+
+export function SelectionPanel({ count, noun }: SelectionPanelProps) {
+  const clipboard = useUIStore((state) => state.clipboard);
+  const { copy, paste, duplicate, remove } = useSelectionActions();
+
+  const handleDelete = () => {
+    if (confirm(`Delete ${count} selected ${noun}s?`)) {
+      remove();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-foreground">
+        {count} {noun}s selected
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={copy}
+          className="px-3 py-2 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+        >
+          Copy
+        </button>
+        <button
+          onClick={duplicate}
+          className="px-3 py-2 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={() => paste()}
+          disabled={!clipboard}
+          className="col-span-2 px-3 py-2 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors disabled:opacity-50"
+        >
+          Paste
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Shortcuts</p>
+        <ul className="text-xs text-muted-foreground space-y-1">
+          <li>Shift-drag on the canvas to box-select</li>
+          <li>Ctrl+C / Ctrl+V to copy and paste, also into another station or plan</li>
+          <li>Ctrl+D to duplicate</li>
+          <li>Delete to remove the selection</li>
+        </ul>
+      </div>
+
+      <button
+        onClick={handleDelete}
+        className="w-full px-3 py-2 text-sm rounded-md bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors"
+      >
+        Delete Selection
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useMemo } from 'react';
+import { usePlanStore, useGameDataStore, useUIStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { useSupplyChain } from '@/hooks/useSupplyChain';
+import { formatAmount } from '@/lib/format';
+import { createStationFromSupplyChain, roundModuleCount } from '@/lib/supplyChainStation';
+
+export function SupplyChainPanel() {
+  const gameData = useGameDataStore((state) => state.gameData);
+  const importStation = usePlanStore((state) => state.importStation);
+  const openSupplyChain = useUIStore((state) => state.openSupplyChain);
+  const setSupplyChainRate = useUIStore((state) => state.setSupplyChainRate);
+  const supplyChainRate = useUIStore((state) => state.supplyChainRate);
+  const drillIntoStation = useUIStore((state) => state.drillIntoStation);
+  const showToast = useUIStore((state) => state.showToast);
+  const { language, t } = useLocale();
+  const supplyChain = useSupplyChain();
+
+  const getWareName = (id: string): string => t(gameData?.wares[id]?.name, id);
+
+  // Wares some recipe makes
+  const producedWares = useMemo(() => {
+    if (!gameData) return [];
+    const ids = new Set(Object.values(gameData.recipes).map((r) => r.wareId));
+    return [...ids]
+      .map((id) => ({ id, name: t(gameData.wares[id]?.name, id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameData, language]);
+
+  // Wares and whole modules per tier, requested ware first
+  const tiers = useMemo(() => {
+    const byTier = new Map<number, { wareIds: string[]; modules: number }>();
+    for (const ware of supplyChain?.chain.wares ?? []) {
+      const tier = byTier.get(ware.tier) ?? { wareIds: [], modules: 0 };
+      tier.wareIds.push(ware.wareId);
+      if (ware.moduleId) tier.modules += roundModuleCount(ware.modules);
+      byTier.set(ware.tier, tier);
+    }
+    return [...byTier].sort(([a], [b]) => a - b);
+  }, [supplyChain]);
+
+  const handleCreateStation = () => {
+    if (!gameData || !supplyChain) return;
+    const plan = usePlanStore.getState().plan;
+    const station = createStationFromSupplyChain(
+      supplyChain.chain,
+      `${getWareName(supplyChain.wareId)} Production`,
+      plan,
+      gameData
+    );
+    importStation(station);
+    drillIntoStation(station.id);
+    showToast(`Created "${station.name}" with ${station.modules.length} module types`, 'success');
+  };
+
+  const totalModules = tiers.reduce((sum, [, tier]) => sum + tier.modules, 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Ware */}
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium text-foreground">Ware</label>
+        <select
+          value={supplyChain?.wareId ?? ''}
+          onChange={(e) => openSupplyChain(e.target.value)}
+          className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          {!supplyChain && <option value="">Select a ware…</option>}
+          {producedWares.map((ware) => (
+            <option key={ware.id} value={ware.id}>
+              {ware.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {supplyChain && (
+        <>
+          {/* Rate */}
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Output per hour</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                value={Math.round(supplyChain.amount)}
+                onChange={(e) => {
+                  const rate = parseFloat(e.target.value);
+                  setSupplyChainRate(isNaN(rate) || rate < 0 ? null : rate);
+                }}
+                className="flex-1 px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <button
+                onClick={() => setSupplyChainRate(null)}
+                disabled={supplyChainRate === null}
+                className="px-2 py-1 text-xs rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                title={`Output of one module (${formatAmount(supplyChain.moduleOutput)}/hr)`}
+              >
+                1 module
+              </button>
+            </div>
+          </div>
+
+          {/* Tiers */}
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">
+              Modules per tier ({totalModules})
+            </label>
+            <div className="space-y-2">
+              {tiers.map(([tier, { wareIds, modules }]) => (
+                <div key={tier} className="p-2 rounded bg-muted/50 text-xs space-y-0.5">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-foreground">Tier {tier}</span>
+                    <span className="text-muted-foreground">
+                      {modules} module{modules !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">{wareIds.map(getWareName).join(', ')}</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Counts are rounded up and use base rates, without sunlight or workforce bonuses.
+            </p>
+          </div>
+
+          <button
+            onClick={handleCreateStation}
+            className="w-full px-3 py-2 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            Create Station
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
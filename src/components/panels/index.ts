@@ -4,3 +4,7 @@ export { ModulePalette } from './ModulePalette';
 export { ModulePanel } from './ModulePanel';
 export { ConnectionPanel } from './ConnectionPanel';
 export { ModuleConnectionPanel } from './ModuleConnectionPanel';
+export { MiningSourcePanel } from './MiningSourcePanel';
+export { MarketPanel } from './MarketPanel';
+export { SupplyChainPanel } from './SupplyChainPanel';
+export { SelectionPanel } from './SelectionPanel';
@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { usePlanStore, useGameDataStore } from '@/store';
+import {
+  computePlanBuildCost,
+  getBuildCostValue,
+  getPaybackHours,
+  getStationComputed,
+  hasBuildCostData,
+  type BuildCostTotals,
+} from '@/engine';
+import { useLocale } from '@/hooks/useLocale';
+import { formatCredits } from '@/lib/format';
+
+// Format a payback duration in hours as "3.5h" or "2.1d"
+function formatPayback(hours: number | null): string {
+  if (hours === null) return 'never';
+  if (hours >= 48) return `${(hours / 24).toFixed(1)}d`;
+  return `${hours.toFixed(1)}h`;
+}
+
+export function ConstructionSummary() {
+  const plan = usePlanStore((state) => state.plan);
+  const computed = usePlanStore((state) => state.computed);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
+  const [showRemaining, setShowRemaining] = useState(true);
+
+  const getWareName = (wareId: string): string => {
+    return t(gameData?.wares[wareId]?.name, wareId);
+  };
+
+  const getModuleName = (blueprintId: string): string => {
+    const module =
+      gameData?.modules.production[blueprintId] ??
+      gameData?.modules.habitat[blueprintId] ??
+      gameData?.modules.storage[blueprintId];
+    return t(module?.name, blueprintId);
+  };
+
+  // Format amount for display
+  const formatAmount = (amount: number): string => {
+    if (Math.abs(amount) >= 10000) {
+      return `${(amount / 1000).toFixed(1)}k`;
+    }
+    return amount.toFixed(0);
+  };
+
+  const buildCost = useMemo(
+    () => (gameData ? computePlanBuildCost(plan, gameData) : null),
+    [plan, gameData]
+  );
+
+  if (!gameData || !buildCost) return null;
+
+  if (plan.stations.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground italic">
+        No stations yet. Right-click on the canvas to add one.
+      </div>
+    );
+  }
+
+  if (!hasBuildCostData(gameData)) {
+    return (
+      <div className="text-sm text-muted-foreground italic">
+        The loaded game data has no module build costs.
+      </div>
+    );
+  }
+
+  const renderTotals = (totals: BuildCostTotals) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Credits</span>
+        <span className="font-mono text-foreground">{formatCredits(totals.credits)}</span>
+      </div>
+      {totals.wares.map((ware) => (
+        <div key={ware.wareId} className="flex items-center justify-between text-sm">
+          <span className="text-foreground">{getWareName(ware.wareId)}</span>
+          <span className="font-mono text-blue-400">{formatAmount(ware.amount)}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const planValue = getBuildCostValue(buildCost.total, gameData, plan.pricing);
+  const planPayback = getPaybackHours(planValue, computed.profit);
+
+  return (
+    <div className="space-y-6">
+      {/* Plan totals */}
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-foreground">
+            {showRemaining ? 'Left to Buy' : 'Total Build Cost'}
+          </h3>
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showRemaining}
+              onChange={(e) => setShowRemaining(e.target.checked)}
+              className="w-3.5 h-3.5 rounded border-input text-primary focus:ring-primary"
+            />
+            Skip completed
+          </label>
+        </div>
+        {renderTotals(showRemaining ? buildCost.remaining : buildCost.total)}
+        <div className="mt-3 pt-2 border-t border-border space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Total value (incl. materials)</span>
+            <span className="font-mono text-foreground">{formatCredits(planValue)}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Network payback</span>
+            <span className="font-mono text-foreground">{formatPayback(planPayback)}</span>
+          </div>
+        </div>
+        {buildCost.unknownBlueprints.length > 0 && (
+          <p className="mt-2 text-xs text-yellow-500">
+            No build cost data for {buildCost.unknownBlueprints.map(getModuleName).join(', ')}
+          </p>
+        )}
+      </section>
+
+      {/* Per station */}
+      <section>
+        <h3 className="text-sm font-semibold text-foreground mb-3">Per Station</h3>
+        <div className="space-y-3">
+          {buildCost.stations.map((stationCost) => {
+            const station = plan.stations.find((s) => s.id === stationCost.stationId);
+            if (!station) return null;
+            const stationComputed = getStationComputed(computed, station.id);
+            const totals = showRemaining ? stationCost.remaining : stationCost.total;
+            const value = getBuildCostValue(stationCost.total, gameData, plan.pricing);
+            const payback = getPaybackHours(value, stationComputed?.profit ?? 0);
+
+            return (
+              <div key={station.id} className="p-3 rounded-lg border border-border bg-card">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className={`font-medium ${station.completed ? 'text-muted-foreground line-through' : 'text-foreground'}`}>
+                    {station.name}
+                  </h4>
+                  <span className="text-xs text-muted-foreground" title="Time until station profit covers its build cost">
+                    Payback {formatPayback(payback)}
+                  </span>
+                </div>
+                {totals.credits === 0 && totals.wares.length === 0 ? (
+                  <p className="text-xs text-muted-foreground italic">
+                    {showRemaining && stationCost.total.credits > 0 ? 'Fully built' : 'Nothing to build'}
+                  </p>
+                ) : (
+                  renderTotals(totals)
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
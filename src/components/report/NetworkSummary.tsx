@@ -1,10 +1,13 @@
 import { useMemo } from 'react';
 import { usePlanStore, useGameDataStore } from '@/store';
 import { useLocale } from '@/hooks/useLocale';
+import { formatCredits } from '@/lib/format';
+import { PriceProfile } from './PriceProfile';
 import type { ResourceAmount } from '@/types';
 
 export function NetworkSummary() {
   const computed = usePlanStore((state) => state.computed);
+  const stations = usePlanStore((state) => state.plan.stations);
   const gameData = useGameDataStore((state) => state.gameData);
   const { t } = useLocale();
 
@@ -13,6 +16,9 @@ export function NetworkSummary() {
     return t(gameData?.wares[wareId]?.name, wareId);
   };
 
+  const getStationName = (stationId: string): string =>
+    stations.find((s) => s.id === stationId)?.name ?? 'Unknown';
+
   // Format amount for display
   const formatAmount = (amount: number): string => {
     if (Math.abs(amount) >= 10000) {
@@ -104,6 +110,33 @@ export function NetworkSummary() {
         )}
       </section>
 
+      {/* Economics */}
+      <section>
+        <h3 className="text-sm font-semibold text-foreground mb-3">Economics</h3>
+        <div className="space-y-1 mb-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Revenue</span>
+            <span className="font-mono text-green-400">{formatCredits(computed.revenue)}/hr</span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Input cost</span>
+            <span className="font-mono text-blue-400">{formatCredits(computed.inputCost)}/hr</span>
+          </div>
+          <div className="flex items-center justify-between text-sm font-medium">
+            <span className="text-foreground">Profit</span>
+            <span className={`font-mono ${computed.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCredits(computed.profit)}/hr
+            </span>
+          </div>
+          {computed.unpricedWares.length > 0 && (
+            <p className="text-xs text-yellow-500">
+              No price for {computed.unpricedWares.map(getWareName).join(', ')} (not counted)
+            </p>
+          )}
+        </div>
+        <PriceProfile />
+      </section>
+
       {/* Total Outputs */}
       <section>
         <h3 className="text-sm font-semibold text-foreground mb-3">
@@ -170,6 +203,30 @@ export function NetworkSummary() {
           </div>
         </section>
       )}
+
+      {/* Supply Loops */}
+      {computed.cycles.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-violet-400 mb-3">
+            Supply Loops ({computed.cycles.length})
+          </h3>
+          <div className="space-y-2">
+            {computed.cycles.map((cycle, index) => (
+              <div
+                key={index}
+                className="p-2 rounded bg-violet-500/10 border border-violet-500/30 text-sm text-foreground"
+              >
+                {cycle.stationIds.map(getStationName).join(' ↻ ')}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            {computed.converged
+              ? `Flows settled after ${computed.iterations} passes.`
+              : `Flows did not settle after ${computed.iterations} passes; amounts in loops are approximate.`}
+          </p>
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { usePlanStore, useGameDataStore } from '@/store';
+import { DEFAULT_PRICING } from '@/engine';
+import { useLocale } from '@/hooks/useLocale';
+import type { PriceLevel } from '@/types';
+
+const PRICE_LEVELS: { value: PriceLevel; label: string }[] = [
+  { value: 'min', label: 'Minimum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'max', label: 'Maximum' },
+];
+
+/**
+ * Price level picker plus per-ware custom prices for every ware the network trades.
+ */
+export function PriceProfile() {
+  const pricing = usePlanStore((state) => state.plan.pricing) ?? DEFAULT_PRICING;
+  const computed = usePlanStore((state) => state.computed);
+  const updatePricing = usePlanStore((state) => state.updatePricing);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
+
+  // Wares traded by any station, plus any ware that already has a custom price
+  const tradedWares = useMemo(() => {
+    const wareIds = new Set<string>(Object.keys(pricing.overrides));
+    for (const sc of computed.stations) {
+      sc.netOutputs.forEach((o) => wareIds.add(o.wareId));
+      sc.netInputs.forEach((i) => wareIds.add(i.wareId));
+    }
+    return [...wareIds]
+      .map((id) => ({ id, name: t(gameData?.wares[id]?.name, id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [computed.stations, pricing.overrides, gameData, t]);
+
+  const setOverride = (wareId: string, value: string) => {
+    const overrides = { ...pricing.overrides };
+    const price = parseFloat(value);
+    if (value === '' || isNaN(price) || price < 0) {
+      delete overrides[wareId];
+    } else {
+      overrides[wareId] = price;
+    }
+    updatePricing({ overrides });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Price level</span>
+        <select
+          value={pricing.level}
+          onChange={(e) => updatePricing({ level: e.target.value as PriceLevel })}
+          className="px-2 py-1 text-sm rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+        >
+          {PRICE_LEVELS.map((level) => (
+            <option key={level.value} value={level.value}>
+              {level.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tradedWares.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {tradedWares.map((ware) => {
+            const dataPrice = gameData?.wares[ware.id]?.price?.[pricing.level];
+            const override = pricing.overrides[ware.id];
+            const unpriced = override === undefined && dataPrice === undefined;
+            return (
+              <div key={ware.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className={`truncate ${unpriced ? 'text-yellow-500' : 'text-foreground'}`}>
+                  {ware.name}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  value={override ?? ''}
+                  placeholder={dataPrice !== undefined ? String(dataPrice) : 'no price'}
+                  onChange={(e) => setOverride(ware.id, e.target.value)}
+                  className="w-24 px-2 py-0.5 text-xs font-mono text-right rounded border border-input bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                  title="Custom price (credits per unit). Leave empty to use the price level."
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
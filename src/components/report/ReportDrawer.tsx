@@ -1,17 +1,35 @@
 import { useState } from 'react';
-import { useUIStore } from '@/store';
+import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { downloadFile } from '@/lib/download';
+import { exportNetworkTotalsCsv, exportStationReportCsv } from '@/lib/exportReport';
 import { NetworkSummary } from './NetworkSummary';
 import { StationSummary } from './StationSummary';
+import { ConstructionSummary } from './ConstructionSummary';
 
-type Tab = 'network' | 'stations';
+type Tab = 'network' | 'stations' | 'construction';
 
 export function ReportDrawer() {
   const reportOpen = useUIStore((state) => state.reportOpen);
   const setReportOpen = useUIStore((state) => state.setReportOpen);
+  const plan = usePlanStore((state) => state.plan);
+  const computed = usePlanStore((state) => state.computed);
+  const gameData = useGameDataStore((state) => state.gameData);
+  const { t } = useLocale();
   const [activeTab, setActiveTab] = useState<Tab>('network');
 
   if (!reportOpen) return null;
 
+  const handleExportStations = () => {
+    if (!gameData) return;
+    downloadFile(`${plan.name} - stations.csv`, exportStationReportCsv(plan, computed, gameData, t), 'text/csv');
+  };
+
+  const handleExportNetwork = () => {
+    if (!gameData) return;
+    downloadFile(`${plan.name} - network.csv`, exportNetworkTotalsCsv(computed, gameData, t), 'text/csv');
+  };
+
   return (
     <>
       {/* Backdrop */}
@@ -69,16 +87,46 @@ export function ReportDrawer() {
           >
             Per Station
           </button>
+          <button
+            onClick={() => setActiveTab('construction')}
+            className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'construction'
+                ? 'text-primary border-b-2 border-primary bg-primary/5'
+                : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+            }`}
+          >
+            Construction
+          </button>
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
-          {activeTab === 'network' ? <NetworkSummary /> : <StationSummary />}
+          {activeTab === 'network' && <NetworkSummary />}
+          {activeTab === 'stations' && <StationSummary />}
+          {activeTab === 'construction' && <ConstructionSummary />}
         </div>
 
         {/* Footer */}
-        <div className="px-4 py-3 border-t border-border text-xs text-muted-foreground">
-          All values are per hour (3600 game seconds)
+        <div className="px-4 py-3 border-t border-border text-xs text-muted-foreground flex items-center justify-between gap-2">
+          <span>All values are per hour (3600 game seconds)</span>
+          <div className="flex items-center gap-1 shrink-0">
+            <button
+              onClick={handleExportStations}
+              disabled={!gameData}
+              className="px-2 py-1 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors disabled:opacity-50"
+              title="Download the per-station report as CSV"
+            >
+              Stations CSV
+            </button>
+            <button
+              onClick={handleExportNetwork}
+              disabled={!gameData}
+              className="px-2 py-1 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors disabled:opacity-50"
+              title="Download network input/output totals as CSV"
+            >
+              Network CSV
+            </button>
+          </div>
         </div>
       </div>
     </>
@@ -1,7 +1,10 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { usePlanStore, useGameDataStore } from '@/store';
 import { getStationComputed, getStationDeficitCount } from '@/engine';
 import { useLocale } from '@/hooks/useLocale';
+import { formatCredits } from '@/lib/format';
+
+type SortMode = 'deficits' | 'profit';
 
 export function StationSummary() {
   const stations = usePlanStore((state) => state.plan.stations);
@@ -9,6 +12,7 @@ export function StationSummary() {
   const computed = usePlanStore((state) => state.computed);
   const gameData = useGameDataStore((state) => state.gameData);
   const { t } = useLocale();
+  const [sortMode, setSortMode] = useState<SortMode>('deficits');
 
   // Get ware name helper
   const getWareName = (wareId: string): string => {
@@ -32,15 +36,21 @@ export function StationSummary() {
     return sectors.find((s) => s.id === sectorId)?.name ?? null;
   };
 
-  // Sort stations by deficit count (most deficits first), then by name
+  // Sort stations by deficit count (most deficits first) or by profit (highest first), then by name
   const sortedStations = useMemo(() => {
     return [...stations].sort((a, b) => {
-      const aDeficits = getStationDeficitCount(computed, a.id);
-      const bDeficits = getStationDeficitCount(computed, b.id);
-      if (aDeficits !== bDeficits) return bDeficits - aDeficits;
+      if (sortMode === 'profit') {
+        const aProfit = getStationComputed(computed, a.id)?.profit ?? 0;
+        const bProfit = getStationComputed(computed, b.id)?.profit ?? 0;
+        if (aProfit !== bProfit) return bProfit - aProfit;
+      } else {
+        const aDeficits = getStationDeficitCount(computed, a.id);
+        const bDeficits = getStationDeficitCount(computed, b.id);
+        if (aDeficits !== bDeficits) return bDeficits - aDeficits;
+      }
       return a.name.localeCompare(b.name);
     });
-  }, [stations, computed]);
+  }, [stations, computed, sortMode]);
 
   if (stations.length === 0) {
     return (
@@ -52,6 +62,19 @@ export function StationSummary() {
 
   return (
     <div className="space-y-4">
+      {/* Sort */}
+      <div className="flex items-center justify-end gap-2 text-xs">
+        <span className="text-muted-foreground">Sort by</span>
+        <select
+          value={sortMode}
+          onChange={(e) => setSortMode(e.target.value as SortMode)}
+          className="px-2 py-1 rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+        >
+          <option value="deficits">Deficits</option>
+          <option value="profit">Profit</option>
+        </select>
+      </div>
+
       {sortedStations.map((station) => {
         const stationComputed = getStationComputed(computed, station.id);
         const deficitCount = getStationDeficitCount(computed, station.id);
@@ -118,6 +141,24 @@ export function StationSummary() {
                 <span className="text-muted-foreground">Modules</span>
                 <span className="text-foreground">{station.modules.length}</span>
               </div>
+              {stationComputed && (
+                <div
+                  className="col-span-2 flex items-center justify-between"
+                  title={`Revenue ${formatCredits(stationComputed.revenue)}, input cost ${formatCredits(stationComputed.inputCost)}${
+                    stationComputed.unpricedWares.length > 0
+                      ? ` (${stationComputed.unpricedWares.length} unpriced wares not counted)`
+                      : ''
+                  }`}
+                >
+                  <span className="text-muted-foreground">Profit</span>
+                  <span className={`font-mono ${stationComputed.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCredits(stationComputed.profit)}/hr
+                    {stationComputed.unpricedWares.length > 0 && (
+                      <span className="text-yellow-500 ml-1">*</span>
+                    )}
+                  </span>
+                </div>
+              )}
               {stationComputed && stationComputed.totalWorkforceRequired > 0 && (
                 <>
                   <div className="flex items-center justify-between">
@@ -192,6 +233,51 @@ export function StationSummary() {
                   </div>
                 )}
 
+                {/* Storage */}
+                {stationComputed.storage.capacities.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-border">
+                    <div className="text-[10px] text-muted-foreground mb-1">Storage:</div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-0.5 mb-1">
+                      {stationComputed.storage.capacities.map((cap) => (
+                        <div key={cap.transport} className="text-xs flex items-center gap-1">
+                          <span className="text-muted-foreground capitalize">{cap.transport}</span>
+                          <span className={`font-mono ${cap.capacity > 0 ? 'text-foreground' : 'text-red-400'}`}>
+                            {formatAmount(cap.capacity)} m³
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-0.5">
+                      {stationComputed.storage.buffers.map((buffer) => {
+                        if (buffer.bufferHours === null) return null;
+                        return (
+                          <div
+                            key={`${buffer.direction}-${buffer.wareId}`}
+                            className="text-xs flex items-center justify-between"
+                            title={`${formatAmount(buffer.storedAmount)} units fit in this ware's share of ${buffer.transport} storage`}
+                          >
+                            <span className={buffer.direction === 'output' ? 'text-green-400' : 'text-blue-400'}>
+                              {getWareName(buffer.wareId)}
+                            </span>
+                            <span
+                              className={`font-mono ${
+                                buffer.bufferHours < 1 ? 'text-red-400' : 'text-muted-foreground'
+                              }`}
+                            >
+                              {buffer.direction === 'output' ? 'full in' : 'lasts'} {buffer.bufferHours.toFixed(1)}h
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {stationComputed.storage.unstorableWares.length > 0 && (
+                      <p className="mt-1 text-xs text-red-400">
+                        No storage for {stationComputed.storage.unstorableWares.map(getWareName).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Deficit Details */}
                 {stationDeficits.length > 0 && (
                   <div className="mt-2 pt-2 border-t border-red-500/20">
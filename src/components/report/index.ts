@@ -1,3 +1,4 @@
 export { ReportDrawer } from './ReportDrawer';
 export { NetworkSummary } from './NetworkSummary';
 export { StationSummary } from './StationSummary';
+export { ConstructionSummary } from './ConstructionSummary';
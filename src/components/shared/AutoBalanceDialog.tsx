@@ -0,0 +1,279 @@
+import { useMemo, useState } from 'react';
+import { Modal } from '@/components/shared/Modal';
+import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { findProducerModules, getEffectiveSunlight, solveStation } from '@/engine';
+import { formatAmount } from '@/lib/format';
+
+interface AutoBalanceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  stationId: string;
+}
+
+export function AutoBalanceDialog({ open, onClose, stationId }: AutoBalanceDialogProps) {
+  const gameData = useGameDataStore((s) => s.gameData);
+  const station = usePlanStore((s) => s.plan.stations.find((st) => st.id === stationId));
+  const sectors = usePlanStore((s) => s.plan.sectors);
+  const applyStationSolution = usePlanStore((s) => s.applyStationSolution);
+  const showToast = useUIStore((s) => s.showToast);
+  const { t } = useLocale();
+
+  const [wareId, setWareId] = useState('');
+  const [amount, setAmount] = useState(10000);
+  const [applyWorkforceBonus, setApplyWorkforceBonus] = useState(true);
+  const [habitatId, setHabitatId] = useState('');
+  const [replace, setReplace] = useState(false);
+  const [producers, setProducers] = useState<Record<string, string>>({});
+  const [imports, setImports] = useState<string[]>([]);
+
+  const getWareName = (id: string): string => t(gameData?.wares[id]?.name, id);
+  const getModuleName = (id: string): string => {
+    const module = gameData?.modules.production[id] ?? gameData?.modules.habitat[id];
+    return t(module?.name, id);
+  };
+
+  // Wares that at least one production module can produce
+  const producibleWares = useMemo(() => {
+    if (!gameData) return [];
+    const wareIds = new Set(
+      Object.values(gameData.modules.production).map((m) => m.producedWareId)
+    );
+    return [...wareIds]
+      .map((id) => ({ id, name: t(gameData.wares[id]?.name, id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [gameData, t]);
+
+  const habitatOptions = useMemo(() => {
+    if (!gameData) return [];
+    return Object.values(gameData.modules.habitat).sort((a, b) =>
+      t(a.name).localeCompare(t(b.name))
+    );
+  }, [gameData, t]);
+
+  const sunlight = station ? getEffectiveSunlight(station, sectors) : 100;
+  const selectedWareId = wareId || producibleWares[0]?.id || '';
+
+  const solution = useMemo(() => {
+    if (!open || !gameData || !selectedWareId || amount <= 0) return null;
+    return solveStation(selectedWareId, amount, gameData, {
+      sunlight,
+      applyWorkforceBonus,
+      producers,
+      imports,
+      habitatId: habitatId || null,
+    });
+  }, [open, gameData, selectedWareId, amount, sunlight, applyWorkforceBonus, producers, imports, habitatId]);
+
+  const toggleImport = (id: string) => {
+    setImports((prev) => (prev.includes(id) ? prev.filter((w) => w !== id) : [...prev, id]));
+  };
+
+  const handleApply = () => {
+    if (!solution) return;
+    applyStationSolution(stationId, solution, replace);
+    showToast(`Added ${solution.modules.length} module types to ${station?.name ?? 'station'}`, 'success');
+    onClose();
+  };
+
+  if (!gameData || !station) return null;
+
+  // Wares imported by the user's choice (not raw resources) can be toggled back
+  const userImports = imports.filter((id) => findProducerModules(id, gameData).length > 0);
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Auto-balance Station"
+      size="lg"
+      footer={
+        <>
+          <label className="flex items-center gap-2 mr-auto cursor-pointer">
+            <input
+              type="checkbox"
+              checked={replace}
+              onChange={(e) => setReplace(e.target.checked)}
+              className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+            />
+            <span className="text-sm">Replace existing modules</span>
+          </label>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!solution || solution.modules.length === 0}
+            className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            Apply to Station
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {/* Target */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Target Ware</label>
+            <select
+              value={selectedWareId}
+              onChange={(e) => setWareId(e.target.value)}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {producibleWares.map((ware) => (
+                <option key={ware.id} value={ware.id}>
+                  {ware.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">
+              Target Rate <span className="text-muted-foreground font-normal">(per hour)</span>
+            </label>
+            <input
+              type="number"
+              min={1}
+              step={100}
+              value={amount}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                setAmount(isNaN(value) ? 0 : value);
+              }}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          </div>
+        </div>
+
+        {/* Workforce */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Habitats</label>
+            <select
+              value={habitatId}
+              onChange={(e) => setHabitatId(e.target.value)}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="">None</option>
+              {habitatOptions.map((hab) => (
+                <option key={hab.id} value={hab.id}>
+                  {t(hab.name)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Modifiers</label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={applyWorkforceBonus || !!habitatId}
+                disabled={!!habitatId}
+                onChange={(e) => setApplyWorkforceBonus(e.target.checked)}
+                className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+              />
+              <span className="text-sm">Workforce bonus (fully staffed)</span>
+            </label>
+            <p className="text-xs text-muted-foreground">Sunlight: {sunlight}% (from station)</p>
+          </div>
+        </div>
+
+        {solution && (
+          <>
+            {/* Modules */}
+            <div className="space-y-1.5">
+              <label className="text-sm font-medium text-foreground">Modules</label>
+              <div className="border border-border rounded-md divide-y divide-border">
+                {solution.modules.length === 0 && (
+                  <p className="px-3 py-2 text-xs text-muted-foreground">
+                    Nothing to produce in-station.
+                  </p>
+                )}
+                {solution.modules.map((module) => {
+                  const candidates = module.wareId ? findProducerModules(module.wareId, gameData) : [];
+                  return (
+                    <div key={module.id} className="px-3 py-1.5 flex items-center gap-2 text-sm">
+                      <span className="font-mono text-foreground w-10 text-right">{module.count}×</span>
+                      {candidates.length > 1 && module.wareId ? (
+                        <select
+                          value={module.blueprintId}
+                          onChange={(e) =>
+                            setProducers((prev) => ({ ...prev, [module.wareId!]: e.target.value }))
+                          }
+                          className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                        >
+                          {candidates.map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {t(c.name, c.id)}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="flex-1 truncate text-foreground">
+                          {getModuleName(module.blueprintId)}
+                        </span>
+                      )}
+                      {module.wareId && module.wareId !== solution.targetWareId && (
+                        <button
+                          onClick={() => toggleImport(module.wareId!)}
+                          className="px-2 py-0.5 text-xs rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                          title="Import this ware instead of producing it"
+                        >
+                          Import
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Workforce: {solution.workforceRequired.toLocaleString()}
+                {solution.workforceCapacity > 0 && ` / ${solution.workforceCapacity.toLocaleString()} capacity`}
+              </p>
+            </div>
+
+            {/* Imports */}
+            {solution.imports.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Station imports (per hour):</div>
+                {solution.imports.map((item) => (
+                  <div key={item.wareId} className="flex items-center justify-between text-sm">
+                    <span className="text-blue-400 flex items-center gap-2">
+                      {getWareName(item.wareId)}
+                      {userImports.includes(item.wareId) && (
+                        <button
+                          onClick={() => toggleImport(item.wareId)}
+                          className="text-xs text-muted-foreground hover:text-foreground underline"
+                        >
+                          produce
+                        </button>
+                      )}
+                    </span>
+                    <span className="font-mono">-{formatAmount(item.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Surplus from rounding */}
+            {solution.surplus.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Surplus from rounding (per hour):</div>
+                {solution.surplus.map((item) => (
+                  <div key={item.wareId} className="flex items-center justify-between text-sm">
+                    <span className="text-green-500">{getWareName(item.wareId)}</span>
+                    <span className="font-mono">+{formatAmount(item.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
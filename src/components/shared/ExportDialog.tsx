@@ -1,9 +1,24 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Modal } from '@/components/shared/Modal';
-import { exportPlan } from '@/lib/exportPlan';
+import { downloadFile } from '@/lib/download';
+import {
+  DEFAULT_CONSTRUCTION_PLAN_OPTIONS,
+  exportConstructionPlan,
+  type ConstructionPlanOptions,
+} from '@/lib/exportConstructionPlan';
+import { exportPlan, exportPlanLink } from '@/lib/exportPlan';
 import { useUIStore } from '@/store';
 import type { Plan } from '@/types/plan';
 
+// File name the game reads player construction plans from
+const CONSTRUCTION_PLANS_FILE = 'constructionplans.xml';
+
+const CONSTRUCTION_PLAN_OPTION_LABELS: Record<keyof ConstructionPlanOptions, string> = {
+  includeDock: 'Add dock',
+  includeConnections: 'Add connection structures',
+  gridLayout: 'Grid layout',
+};
+
 interface ExportDialogProps {
   open: boolean;
   onClose: () => void;
@@ -13,27 +28,51 @@ interface ExportDialogProps {
 export function ExportDialog({ open, onClose, plan }: ExportDialogProps) {
   const showToast = useUIStore((s) => s.showToast);
 
-  const base64String = useMemo(() => exportPlan(plan), [plan]);
+  const [exported, setExported] = useState<{ data: string; link: string } | null>(null);
+  const [stationId, setStationId] = useState('');
+  const [planOptions, setPlanOptions] = useState<ConstructionPlanOptions>(DEFAULT_CONSTRUCTION_PLAN_OPTIONS);
+
+  const selectedStation = plan.stations.find((s) => s.id === stationId) ?? plan.stations[0];
+
+  // Compression is asynchronous; only encode while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    Promise.all([exportPlan(plan), exportPlanLink(plan)]).then(([data, link]) => {
+      if (!cancelled) setExported({ data, link });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, plan]);
+
+  const exportString = exported?.data ?? '';
 
   const encodedSize = useMemo(() => {
-    const bytes = base64String.length;
+    const bytes = exportString.length;
     if (bytes < 1024) return `${bytes} B`;
     const kb = bytes / 1024;
     if (kb < 1024) return `${kb.toFixed(1)} KB`;
     const mb = kb / 1024;
     return `${mb.toFixed(1)} MB`;
-  }, [base64String]);
+  }, [exportString]);
 
-  const handleCopy = async () => {
+  const handleCopy = async (text: string, message: string) => {
     try {
-      await navigator.clipboard.writeText(base64String);
-      showToast('Copied to clipboard!', 'success');
+      await navigator.clipboard.writeText(text);
+      showToast(message, 'success');
       onClose();
     } catch (error) {
       showToast('Failed to copy to clipboard', 'error');
     }
   };
 
+  const handleDownloadConstructionPlan = () => {
+    if (!selectedStation) return;
+    downloadFile(CONSTRUCTION_PLANS_FILE, exportConstructionPlan(selectedStation, planOptions), 'application/xml');
+    showToast(`Saved ${CONSTRUCTION_PLANS_FILE}`, 'success');
+  };
+
   return (
     <Modal
       open={open}
@@ -49,8 +88,16 @@ export function ExportDialog({ open, onClose, plan }: ExportDialogProps) {
             Close
           </button>
           <button
-            onClick={handleCopy}
-            className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+            onClick={() => exported && handleCopy(exported.link, 'Share link copied!')}
+            disabled={!exported}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors disabled:opacity-50"
+          >
+            Copy Link
+          </button>
+          <button
+            onClick={() => exported && handleCopy(exported.data, 'Copied to clipboard!')}
+            disabled={!exported}
+            className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
           >
             Copy to Clipboard
           </button>
@@ -70,14 +117,61 @@ export function ExportDialog({ open, onClose, plan }: ExportDialogProps) {
           </div>
           <textarea
             readOnly
-            value={base64String}
+            value={exportString}
             className="w-full h-48 px-3 py-2 text-xs font-mono rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring resize-none"
             onClick={(e) => e.currentTarget.select()}
           />
           <div className="text-xs text-muted-foreground mt-1">
-            Click to select all, then copy manually or use the button below
+            Click to select all, then copy manually or use the button below.
+            Copy Link gives a URL that opens this plan directly.
           </div>
         </div>
+
+        <div className="pt-3 border-t border-border space-y-2">
+          <div className="text-sm font-medium text-foreground">In-game Construction Plan</div>
+          {selectedStation ? (
+            <>
+              <div className="flex items-center gap-2">
+                <select
+                  value={selectedStation.id}
+                  onChange={(e) => setStationId(e.target.value)}
+                  className="flex-1 px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  {plan.stations.map((station) => (
+                    <option key={station.id} value={station.id}>
+                      {station.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDownloadConstructionPlan}
+                  className="px-3 py-2 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+                >
+                  Download XML
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-1">
+                {(Object.keys(CONSTRUCTION_PLAN_OPTION_LABELS) as (keyof ConstructionPlanOptions)[]).map((key) => (
+                  <label key={key} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={planOptions[key]}
+                      onChange={(e) => setPlanOptions({ ...planOptions, [key]: e.target.checked })}
+                      className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+                    />
+                    <span className="text-sm">{CONSTRUCTION_PLAN_OPTION_LABELS[key]}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Put {CONSTRUCTION_PLANS_FILE} in your X4 user folder (merge its &lt;plan&gt; into an existing
+                file to keep your other plans), then load it in the station editor.
+              </div>
+            </>
+          ) : (
+            <div className="text-sm text-muted-foreground">Add a station to export it as a construction plan.</div>
+          )}
+        </div>
       </div>
     </Modal>
   );
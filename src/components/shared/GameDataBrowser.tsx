@@ -0,0 +1,510 @@
+import { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { useLocale } from '@/hooks/useLocale';
+import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
+import {
+  buildSupplyTree,
+  findProducerModules,
+  findRecipeForModule,
+  getConsumerRecipes,
+  getDefaultProducerModule,
+  getRecipeRates,
+  getRecipesForWare,
+  type SupplyTreeNode,
+} from '@/engine';
+import { formatAmount, formatCredits } from '@/lib/format';
+import { getNextModulePosition } from '@/lib/moduleLayout';
+import type { GameData, PlanStation, Recipe } from '@/types';
+
+// Entries listed per group before the search needs narrowing
+const MAX_RESULTS = 30;
+
+type Selection = { kind: 'ware'; id: string } | { kind: 'module'; id: string };
+
+interface GameDataBrowserProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function formatRate(amount: number): string {
+  return amount < 10 ? amount.toFixed(2) : formatAmount(amount);
+}
+
+export function GameDataBrowser({ open, onClose }: GameDataBrowserProps) {
+  const { language, t } = useLocale();
+  const gameData = useGameDataStore((s) => s.gameData);
+  const stations = usePlanStore((s) => s.plan.stations);
+  const addModule = usePlanStore((s) => s.addModule);
+  const updateModule = usePlanStore((s) => s.updateModule);
+  const viewMode = useUIStore((s) => s.viewMode);
+  const activeStationId = useUIStore((s) => s.activeStationId);
+  const selectedNodeId = useUIStore((s) => s.selectedNodeId);
+  const showToast = useUIStore((s) => s.showToast);
+  const openSupplyChain = useUIStore((s) => s.openSupplyChain);
+
+  const [query, setQuery] = useState('');
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  // Modules go to the open station, or the selected one in the network view
+  const targetStation = stations.find(
+    (s) => s.id === (viewMode === 'station' ? activeStationId : selectedNodeId)
+  );
+
+  const results = useMemo(() => {
+    if (!gameData) return { wares: [], recipes: [], modules: [] };
+    const q = query.trim().toLowerCase();
+    const matches = (...values: string[]) => !q || values.some((v) => v.toLowerCase().includes(q));
+
+    const wares = Object.values(gameData.wares)
+      .filter((w) => matches(w.id, t(w.name, w.id)))
+      .sort((a, b) => t(a.name, a.id).localeCompare(t(b.name, b.id)));
+    const recipes = Object.values(gameData.recipes)
+      .filter((r) => matches(r.id, r.method, t(gameData.wares[r.wareId]?.name, r.wareId)))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    const modules = [
+      ...Object.values(gameData.modules.production),
+      ...Object.values(gameData.modules.habitat),
+      ...Object.values(gameData.modules.storage),
+    ]
+      .filter((m) => matches(m.id, t(m.name, m.id)))
+      .sort((a, b) => t(a.name, a.id).localeCompare(t(b.name, b.id)));
+    return { wares, recipes, modules };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameData, query, language]);
+
+  const handleAdd = (blueprintId: string, recipeId?: string) => {
+    if (!gameData || !targetStation) return;
+    const moduleId = addModule(targetStation.id, blueprintId, getNextModulePosition(targetStation));
+    const module = gameData.modules.production[blueprintId];
+    if (module && recipeId && findRecipeForModule(module, gameData.recipes)?.id !== recipeId) {
+      updateModule(targetStation.id, moduleId, { recipeId });
+    }
+    const name =
+      module?.name ?? gameData.modules.habitat[blueprintId]?.name ?? gameData.modules.storage[blueprintId]?.name;
+    showToast(`Added ${t(name, blueprintId)} to ${targetStation.name}`, 'success');
+  };
+
+  if (!gameData) return null;
+
+  const listButton = (key: string, label: string, detail: string, isSelected: boolean, onClick: () => void) => (
+    <button
+      key={key}
+      onClick={onClick}
+      className={`w-full text-left px-2 py-1 rounded text-sm transition-colors ${
+        isSelected ? 'bg-primary/10 text-primary' : 'text-foreground hover:bg-muted'
+      }`}
+    >
+      <div className="truncate">{label}</div>
+      <div className="text-[10px] text-muted-foreground truncate font-mono">{detail}</div>
+    </button>
+  );
+
+  const selectWare = (id: string) => setSelection({ kind: 'ware', id });
+
+  const handleShowSupplyChain = (wareId: string) => {
+    openSupplyChain(wareId);
+    onClose();
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Game Data"
+      size="lg"
+      footer={
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+        >
+          Close
+        </button>
+      }
+    >
+      <div className="flex gap-4 h-[60vh]">
+        <div className="w-52 flex-shrink-0 flex flex-col gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search wares, recipes, modules…"
+            className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <div className="flex-1 overflow-y-auto space-y-3">
+            {(['wares', 'recipes', 'modules'] as const).map((group) => {
+              const entries = results[group];
+              if (entries.length === 0) return null;
+              return (
+                <div key={group}>
+                  <div className="px-2 pb-1 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    {group} ({entries.length})
+                  </div>
+                  {group === 'wares' &&
+                    results.wares
+                      .slice(0, MAX_RESULTS)
+                      .map((w) =>
+                        listButton(w.id, t(w.name, w.id), w.id, selection?.kind === 'ware' && selection.id === w.id, () =>
+                          selectWare(w.id)
+                        )
+                      )}
+                  {group === 'recipes' &&
+                    results.recipes
+                      .slice(0, MAX_RESULTS)
+                      .map((r) =>
+                        listButton(
+                          r.id,
+                          `${t(gameData.wares[r.wareId]?.name, r.wareId)} (${r.method})`,
+                          r.id,
+                          false,
+                          () => selectWare(r.wareId)
+                        )
+                      )}
+                  {group === 'modules' &&
+                    results.modules
+                      .slice(0, MAX_RESULTS)
+                      .map((m) =>
+                        listButton(
+                          m.id,
+                          t(m.name, m.id),
+                          m.id,
+                          selection?.kind === 'module' && selection.id === m.id,
+                          () => setSelection({ kind: 'module', id: m.id })
+                        )
+                      )}
+                  {entries.length > MAX_RESULTS && (
+                    <div className="px-2 text-[10px] text-muted-foreground italic">
+                      …{entries.length - MAX_RESULTS} more, refine the search
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0 overflow-y-auto">
+          {selection?.kind === 'ware' && (
+            <WareDetail
+              wareId={selection.id}
+              gameData={gameData}
+              targetStation={targetStation}
+              onSelectWare={selectWare}
+              onAdd={handleAdd}
+              onShowSupplyChain={handleShowSupplyChain}
+            />
+          )}
+          {selection?.kind === 'module' && (
+            <ModuleDetail
+              moduleId={selection.id}
+              gameData={gameData}
+              targetStation={targetStation}
+              onSelectWare={selectWare}
+              onAdd={handleAdd}
+              onShowSupplyChain={handleShowSupplyChain}
+            />
+          )}
+          {!selection && (
+            <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+              Select a ware, recipe or module
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+interface DetailProps {
+  gameData: GameData;
+  targetStation: PlanStation | undefined;
+  onSelectWare: (wareId: string) => void;
+  onAdd: (blueprintId: string, recipeId?: string) => void;
+  onShowSupplyChain: (wareId: string) => void;
+}
+
+function AddButton({ targetStation, onClick }: { targetStation: PlanStation | undefined; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={!targetStation}
+      className="px-2 py-1 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 flex-shrink-0"
+      title={targetStation ? `Add to ${targetStation.name}` : 'Open or select a station first'}
+    >
+      + Add
+    </button>
+  );
+}
+
+function WareLink({ wareId, gameData, onSelectWare }: { wareId: string; gameData: GameData; onSelectWare: (wareId: string) => void }) {
+  const { t } = useLocale();
+  return (
+    <button onClick={() => onSelectWare(wareId)} className="text-primary hover:underline">
+      {t(gameData.wares[wareId]?.name, wareId)}
+    </button>
+  );
+}
+
+function WareDetail({
+  wareId,
+  gameData,
+  targetStation,
+  onSelectWare,
+  onAdd,
+  onShowSupplyChain,
+}: DetailProps & { wareId: string }) {
+  const { t } = useLocale();
+  const ware = gameData.wares[wareId];
+  const recipes = getRecipesForWare(wareId, gameData.recipes);
+  const producers = findProducerModules(wareId, gameData);
+  const consumers = getConsumerRecipes(wareId, gameData.recipes);
+
+  // Upstream chain for the output of one default producer module
+  const tree = useMemo(() => {
+    const module = getDefaultProducerModule(wareId, gameData);
+    const recipe = module ? findRecipeForModule(module, gameData.recipes) : null;
+    return recipe ? buildSupplyTree(wareId, getRecipeRates(recipe).output, gameData) : null;
+  }, [wareId, gameData]);
+
+  if (!ware) {
+    return <div className="text-sm text-muted-foreground">Unknown ware "{wareId}"</div>;
+  }
+
+  // Producer module for a recipe: one that runs it by default, else the ware's default module
+  const moduleForRecipe = (recipe: Recipe) =>
+    producers.find((m) => findRecipeForModule(m, gameData.recipes)?.id === recipe.id) ??
+    getDefaultProducerModule(wareId, gameData);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-base font-semibold text-foreground">{t(ware.name, ware.id)}</div>
+        <div className="text-xs text-muted-foreground">
+          <span className="font-mono">{ware.id}</span> · {ware.group} · {ware.transport} · {ware.volume} m³
+          {ware.price && (
+            <>
+              {' '}
+              · {formatCredits(ware.price.min)} – {formatCredits(ware.price.max)}
+            </>
+          )}
+        </div>
+      </div>
+
+      <section className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Produced by</div>
+        {recipes.length === 0 && <div className="text-xs text-muted-foreground">Raw resource (no recipe)</div>}
+        {recipes.map((recipe) => {
+          const rates = getRecipeRates(recipe);
+          const module = moduleForRecipe(recipe);
+          return (
+            <div key={recipe.id} className="px-3 py-2 rounded border border-border text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="font-medium text-foreground">{recipe.method}</span>
+                  <span className="ml-2 font-mono text-muted-foreground">{recipe.id}</span>
+                </div>
+                {module && (
+                  <AddButton targetStation={targetStation} onClick={() => onAdd(module.id, recipe.id)} />
+                )}
+              </div>
+              <div className="text-muted-foreground">
+                {recipe.amount} per {recipe.time}s cycle · workforce bonus +{(recipe.workforceBonus * 100).toFixed(0)}%
+              </div>
+              <div>
+                <span className="text-green-600 dark:text-green-400">+{formatRate(rates.output)}/h</span>
+                {rates.inputs.length > 0 && <span className="text-muted-foreground"> from </span>}
+                {rates.inputs.map((input, i) => (
+                  <span key={input.wareId}>
+                    {i > 0 && ', '}
+                    <span className="text-red-600 dark:text-red-400">{formatRate(input.amount)}/h</span>{' '}
+                    <WareLink wareId={input.wareId} gameData={gameData} onSelectWare={onSelectWare} />
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+        {producers.length > 0 && (
+          <div className="space-y-1">
+            {producers.map((m) => (
+              <div key={m.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate text-foreground">
+                  {t(m.name, m.id)}
+                  <span className="ml-2 text-muted-foreground">
+                    {findRecipeForModule(m, gameData.recipes)?.method} · {m.workforceMax} workers
+                  </span>
+                </span>
+                <AddButton targetStation={targetStation} onClick={() => onAdd(m.id)} />
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-1">
+        <div className="text-sm font-medium text-foreground">Consumed by</div>
+        {consumers.length === 0 && <div className="text-xs text-muted-foreground">Not used in any recipe</div>}
+        {consumers.map((recipe) => {
+          const input = getRecipeRates(recipe).inputs.find((i) => i.wareId === wareId);
+          return (
+            <div key={recipe.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate">
+                <WareLink wareId={recipe.wareId} gameData={gameData} onSelectWare={onSelectWare} />
+                {recipe.method !== 'default' && <span className="ml-1 text-muted-foreground">({recipe.method})</span>}
+              </span>
+              <span className="text-red-600 dark:text-red-400 flex-shrink-0">
+                {formatRate(input?.amount ?? 0)}/h per module
+              </span>
+            </div>
+          );
+        })}
+      </section>
+
+      {tree && tree.inputs.length > 0 && (
+        <section className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-medium text-foreground">Supply chain</div>
+            <button
+              onClick={() => onShowSupplyChain(wareId)}
+              className="px-2 py-1 text-xs rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+              title="Show the chain as a diagram and turn it into a station"
+            >
+              Open Diagram
+            </button>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Upstream wares and modules to feed one module, at base rates (no sunlight or workforce bonus).
+          </div>
+          <div className="pt-1">
+            {tree.inputs.map((node) => (
+              <SupplyTreeRow key={node.wareId} node={node} depth={0} gameData={gameData} onSelectWare={onSelectWare} />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+interface SupplyTreeRowProps {
+  node: SupplyTreeNode;
+  depth: number;
+  gameData: GameData;
+  onSelectWare: (wareId: string) => void;
+}
+
+function SupplyTreeRow({ node, depth, gameData, onSelectWare }: SupplyTreeRowProps) {
+  const [expanded, setExpanded] = useState(true);
+  const hasInputs = node.inputs.length > 0;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 text-xs py-0.5" style={{ paddingLeft: depth * 16 }}>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          disabled={!hasInputs}
+          className="w-4 text-muted-foreground disabled:invisible"
+        >
+          {expanded ? '▾' : '▸'}
+        </button>
+        <WareLink wareId={node.wareId} gameData={gameData} onSelectWare={onSelectWare} />
+        <span className="text-muted-foreground">{formatRate(node.amount)}/h</span>
+        {node.cyclic ? (
+          <span className="text-[10px] px-1 rounded bg-muted text-muted-foreground" title="Already further up this chain">
+            loop
+          </span>
+        ) : node.moduleId ? (
+          <span className="text-muted-foreground">· ≈{node.modules.toFixed(2)} modules</span>
+        ) : (
+          <span className="text-[10px] px-1 rounded bg-muted text-muted-foreground">raw</span>
+        )}
+      </div>
+      {expanded &&
+        node.inputs.map((child) => (
+          <SupplyTreeRow
+            key={child.wareId}
+            node={child}
+            depth={depth + 1}
+            gameData={gameData}
+            onSelectWare={onSelectWare}
+          />
+        ))}
+    </div>
+  );
+}
+
+function ModuleDetail({
+  moduleId,
+  gameData,
+  targetStation,
+  onSelectWare,
+  onAdd,
+  onShowSupplyChain,
+}: DetailProps & { moduleId: string }) {
+  const { t } = useLocale();
+  const production = gameData.modules.production[moduleId];
+  const habitat = gameData.modules.habitat[moduleId];
+  const storage = gameData.modules.storage[moduleId];
+  const module = production ?? habitat ?? storage;
+  if (!module) {
+    return <div className="text-sm text-muted-foreground">Unknown module "{moduleId}"</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-base font-semibold text-foreground">{t(module.name, module.id)}</div>
+          <div className="text-xs text-muted-foreground font-mono">{module.id}</div>
+        </div>
+        <AddButton targetStation={targetStation} onClick={() => onAdd(module.id)} />
+      </div>
+
+      <div className="text-xs space-y-1">
+        {production && (
+          <>
+            <div>
+              Produces{' '}
+              {production.producedWareId.split(' ').map((wareId, i) => (
+                <span key={wareId}>
+                  {i > 0 && ', '}
+                  <WareLink wareId={wareId} gameData={gameData} onSelectWare={onSelectWare} />
+                </span>
+              ))}{' '}
+              ({findRecipeForModule(production, gameData.recipes)?.method ?? 'no recipe'})
+            </div>
+            <div className="text-muted-foreground">Up to {production.workforceMax} workers</div>
+            <button
+              onClick={() => onShowSupplyChain(production.producedWareId.split(' ')[0])}
+              className="text-primary hover:underline"
+            >
+              Show supply chain
+            </button>
+          </>
+        )}
+        {habitat && (
+          <div>
+            Houses {habitat.workforceCapacity} {habitat.race} workers
+          </div>
+        )}
+        {storage && (
+          <div>
+            Stores {formatAmount(storage.cargoMax)} m³ ({storage.cargoType})
+          </div>
+        )}
+        {module.buildCost && (
+          <div className="text-muted-foreground">
+            Build cost {formatCredits(module.buildCost.credits)}
+            {module.buildCost.wares.length > 0 && ' + '}
+            {module.buildCost.wares.map((w, i) => (
+              <span key={w.ware}>
+                {i > 0 && ', '}
+                {formatAmount(w.amount)}{' '}
+                <WareLink wareId={w.ware} gameData={gameData} onSelectWare={onSelectWare} />
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
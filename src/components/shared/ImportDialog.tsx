@@ -1,55 +1,114 @@
-import { useState } from 'react';
+import { useState, type ChangeEvent } from 'react';
 import { Modal } from '@/components/shared/Modal';
+import { useLocale } from '@/hooks/useLocale';
+import { parseStationLayouts, type StationLayout } from '@/lib/importConstructionPlan';
 import { importPlan } from '@/lib/importPlan';
+import type { ValidationIssue } from '@/lib/schema';
+import { useGameDataStore } from '@/store';
 import type { Plan } from '@/types/plan';
 
+// Field errors listed before the rest are summarized
+const MAX_SHOWN_ISSUES = 20;
+
 interface ImportDialogProps {
   open: boolean;
   onClose: () => void;
   onImport: (plan: Plan) => void;
+  /** Add a station read from a construction plan or savegame to the current plan */
+  onImportStation: (layout: StationLayout) => void;
 }
 
-export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
+export function ImportDialog({ open, onClose, onImport, onImportStation }: ImportDialogProps) {
+  const gameData = useGameDataStore((s) => s.gameData);
+  const { t } = useLocale();
+
   const [input, setInput] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
   const [validatedPlan, setValidatedPlan] = useState<Plan | null>(null);
+  const [layouts, setLayouts] = useState<StationLayout[] | null>(null);
+  const [layoutIndex, setLayoutIndex] = useState(0);
 
-  const handleValidate = () => {
+  const getModuleName = (id: string): string =>
+    t(
+      gameData?.modules.production[id]?.name ??
+        gameData?.modules.habitat[id]?.name ??
+        gameData?.modules.storage[id]?.name,
+      id
+    );
+
+  const resetValidation = () => {
     setError(null);
+    setIssues([]);
     setValidatedPlan(null);
+    setLayouts(null);
+    setLayoutIndex(0);
+  };
 
-    if (!input.trim()) {
+  const handleValidate = async () => {
+    resetValidation();
+
+    const text = input.trim();
+    if (!text) {
       setError('Please paste the exported plan data');
       return;
     }
 
-    const result = importPlan(input.trim());
+    // Construction plans and savegames are XML; everything else is a plan export
+    if (text.startsWith('<')) {
+      if (!gameData) {
+        setError('Game data is still loading');
+        return;
+      }
+      const parsed = parseStationLayouts(text, gameData);
+      if (parsed.success) {
+        setLayouts(parsed.layouts);
+      } else {
+        setError(parsed.error);
+      }
+      return;
+    }
+
+    const result = await importPlan(text);
     if (result.success) {
       setValidatedPlan(result.plan);
     } else {
       setError(result.error);
+      setIssues(result.issues ?? []);
     }
   };
 
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setInput(await file.text());
+    resetValidation();
+  };
+
   const handleImport = () => {
     if (validatedPlan) {
       onImport(validatedPlan);
-      // Reset state
-      setInput('');
-      setError(null);
-      setValidatedPlan(null);
-      onClose();
+    } else if (layouts) {
+      onImportStation(layouts[layoutIndex]);
+    } else {
+      return;
     }
+    // Reset state
+    setInput('');
+    resetValidation();
+    onClose();
   };
 
   const handleClose = () => {
     // Reset state on close
     setInput('');
-    setError(null);
-    setValidatedPlan(null);
+    resetValidation();
     onClose();
   };
 
+  const layout = layouts?.[layoutIndex];
+
   return (
     <Modal
       open={open}
@@ -64,7 +123,7 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
           >
             Cancel
           </button>
-          {!validatedPlan ? (
+          {!validatedPlan && !layout ? (
             <button
               onClick={handleValidate}
               className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
@@ -76,7 +135,7 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
               onClick={handleImport}
               className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
             >
-              Import
+              {layout ? 'Add Station' : 'Import'}
             </button>
           )}
         </>
@@ -84,16 +143,21 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
     >
       <div className="space-y-3">
         <div>
-          <div className="text-sm font-medium text-foreground mb-1">Paste Exported Data</div>
+          <div className="flex items-center justify-between mb-1">
+            <div className="text-sm font-medium text-foreground">Paste Exported Data</div>
+            <label className="text-xs text-primary hover:underline cursor-pointer">
+              Open XML File…
+              <input type="file" accept=".xml,text/xml" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
           <textarea
             value={input}
             onChange={(e) => {
               setInput(e.target.value);
               // Clear validation state when input changes
-              setError(null);
-              setValidatedPlan(null);
+              resetValidation();
             }}
-            placeholder="Paste the base64-encoded plan data here..."
+            placeholder="Paste the exported plan data, a share link, or X4 construction plan / savegame XML here..."
             className="w-full h-48 px-3 py-2 text-xs font-mono rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring resize-none"
           />
         </div>
@@ -101,6 +165,18 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
         {error && (
           <div className="text-sm text-destructive bg-destructive/10 border border-destructive/30 rounded px-3 py-2">
             {error}
+            {issues.length > 0 && (
+              <ul className="mt-2 space-y-0.5 max-h-40 overflow-y-auto text-xs">
+                {issues.slice(0, MAX_SHOWN_ISSUES).map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{issue.path || 'plan'}</span>: {issue.message}
+                  </li>
+                ))}
+                {issues.length > MAX_SHOWN_ISSUES && (
+                  <li className="italic">…and {issues.length - MAX_SHOWN_ISSUES} more</li>
+                )}
+              </ul>
+            )}
           </div>
         )}
 
@@ -115,6 +191,52 @@ export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
             </div>
           </div>
         )}
+
+        {layout && layouts && (
+          <div className="text-sm bg-primary/10 border border-primary/30 rounded px-3 py-2 space-y-2">
+            <div className="font-medium text-foreground">
+              Found {layouts.length} station layout{layouts.length !== 1 ? 's' : ''}
+            </div>
+            {layouts.length > 1 && (
+              <select
+                value={layoutIndex}
+                onChange={(e) => setLayoutIndex(parseInt(e.target.value, 10))}
+                className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                {layouts.map((l, index) => (
+                  <option key={index} value={index}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="text-muted-foreground">
+              <div><span className="font-medium">Name:</span> {layout.name}</div>
+              <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto text-xs">
+                {layout.modules.map(({ macro, count }) => (
+                  <li key={macro}>
+                    {count} × {getModuleName(macro)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            {layout.unknownMacros.length > 0 && (
+              <div className="text-xs text-destructive">
+                <div className="font-medium">Not imported (no matching module in the game data):</div>
+                <ul className="mt-0.5 space-y-0.5 max-h-24 overflow-y-auto">
+                  {layout.unknownMacros.map(({ macro, count }) => (
+                    <li key={macro}>
+                      {count} × <span className="font-mono">{macro}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              The station is added to the current plan without module connections.
+            </div>
+          </div>
+        )}
       </div>
     </Modal>
   );
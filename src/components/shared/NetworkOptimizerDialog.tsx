@@ -0,0 +1,472 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Modal } from '@/components/shared/Modal';
+import { useGameDataStore, usePlanStore, useUIStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import {
+  computeNetwork,
+  findProducerModules,
+  getDefaultExportTargets,
+  type ExportTarget,
+  type NetworkOptimization,
+  type OptimizationObjective,
+} from '@/engine';
+import { applyModuleCountChanges } from '@/lib/applyModuleCountChanges';
+import { formatAmount } from '@/lib/format';
+import { runNetworkOptimizer, type NetworkOptimizerRun } from '@/lib/runNetworkOptimizer';
+
+interface NetworkOptimizerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function NetworkOptimizerDialog({ open, onClose }: NetworkOptimizerDialogProps) {
+  const gameData = useGameDataStore((s) => s.gameData);
+  const plan = usePlanStore((s) => s.plan);
+  const applyChanges = usePlanStore((s) => s.applyModuleCountChanges);
+  const showToast = useUIStore((s) => s.showToast);
+  const { t } = useLocale();
+
+  const [objective, setObjective] = useState<OptimizationObjective>('modules');
+  const [keepExisting, setKeepExisting] = useState(true);
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [targets, setTargets] = useState<ExportTarget[]>([]);
+  const [result, setResult] = useState<NetworkOptimization | null>(null);
+  const [running, setRunning] = useState(false);
+  const runRef = useRef<NetworkOptimizerRun | null>(null);
+
+  const cancelRun = () => {
+    runRef.current?.cancel();
+    runRef.current = null;
+    setRunning(false);
+  };
+
+  // Start from the network's current exports each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const { plan, computed } = usePlanStore.getState();
+    setStationIds(plan.stations.map((s) => s.id));
+    setTargets(getDefaultExportTargets(computed));
+    setResult(null);
+    // Stop a running optimization when the dialog closes
+    return cancelRun;
+  }, [open]);
+
+  const getWareName = (id: string): string => t(gameData?.wares[id]?.name, id);
+  const getModuleName = (id: string): string => t(gameData?.modules.production[id]?.name, id);
+  const getStationName = (id: string): string =>
+    plan.stations.find((s) => s.id === id)?.name ?? 'Unknown';
+
+  const producibleWares = useMemo(() => {
+    if (!gameData) return [];
+    const wareIds = new Set(
+      Object.values(gameData.modules.production).map((m) => m.producedWareId)
+    );
+    return [...wareIds]
+      .map((id) => ({ id, name: t(gameData.wares[id]?.name, id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [gameData, t]);
+
+  // Stations grouped by sector for the scope picker
+  const stationGroups = useMemo(() => {
+    const groups = plan.sectors.map((sector) => ({
+      id: sector.id,
+      name: sector.name,
+      stations: plan.stations.filter((s) => s.sectorId === sector.id),
+    }));
+    groups.push({
+      id: '',
+      name: 'No sector',
+      stations: plan.stations.filter(
+        (s) => !s.sectorId || !plan.sectors.some((sector) => sector.id === s.sectorId)
+      ),
+    });
+    return groups.filter((g) => g.stations.length > 0);
+  }, [plan.sectors, plan.stations]);
+
+  // Deficits the plan would still have after accepting (raw resources excluded)
+  const remainingDeficits = useMemo(() => {
+    if (!gameData || !result || result.status !== 'optimal') return [];
+    const next = applyModuleCountChanges(plan, result.changes, gameData, targets);
+    return computeNetwork(next, gameData).deficits.filter(
+      (d) => findProducerModules(d.wareId, gameData).length > 0
+    );
+  }, [gameData, plan, result, targets]);
+
+  const changesByStation = useMemo(() => {
+    const groups = new Map<string, NetworkOptimization['changes']>();
+    for (const change of result?.changes ?? []) {
+      groups.set(change.stationId, [...(groups.get(change.stationId) ?? []), change]);
+    }
+    return [...groups.entries()];
+  }, [result]);
+
+  const toggleStations = (ids: string[], checked: boolean) => {
+    setStationIds((prev) =>
+      checked ? [...new Set([...prev, ...ids])] : prev.filter((id) => !ids.includes(id))
+    );
+    setResult(null);
+  };
+
+  const updateTarget = (index: number, patch: Partial<ExportTarget>) => {
+    setTargets((prev) => prev.map((target, i) => (i === index ? { ...target, ...patch } : target)));
+    setResult(null);
+  };
+
+  const removeTarget = (index: number) => {
+    setTargets((prev) => prev.filter((_, i) => i !== index));
+    setResult(null);
+  };
+
+  const addTarget = () => {
+    if (plan.stations.length === 0 || producibleWares.length === 0) return;
+    setTargets((prev) => [
+      ...prev,
+      { stationId: plan.stations[0].id, wareId: producibleWares[0].id, amount: 10000 },
+    ]);
+    setResult(null);
+  };
+
+  const handleOptimize = async () => {
+    if (!gameData || runRef.current) return;
+    const run = runNetworkOptimizer({
+      plan,
+      gameData,
+      options: {
+        targets: targets.filter((target) => target.amount > 0),
+        stationIds,
+        objective,
+        keepExisting,
+      },
+    });
+    runRef.current = run;
+    setRunning(true);
+
+    try {
+      const optimization = await run.result;
+      setResult(optimization);
+      if (optimization.status === 'iteration-limit' || optimization.status === 'too-large') {
+        showToast('Plan is too large for the optimizer', 'error');
+      } else if (optimization.status !== 'optimal') {
+        showToast('Optimizer could not find a solution', 'error');
+      }
+    } catch (error) {
+      // Cancelled runs have already been cleared
+      if (runRef.current === run) {
+        showToast(error instanceof Error ? error.message : 'Optimizer failed', 'error');
+      }
+    } finally {
+      if (runRef.current === run) {
+        runRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleAccept = () => {
+    if (!result) return;
+    applyChanges(result.changes, targets);
+    showToast(`Applied ${result.changes.length} module changes`, 'success');
+    onClose();
+  };
+
+  if (!gameData) return null;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Optimize Network"
+      size="lg"
+      footer={
+        <>
+          <button
+            onClick={running ? cancelRun : result ? () => setResult(null) : onClose}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+          >
+            {running ? 'Stop' : result ? 'Reject' : 'Cancel'}
+          </button>
+          {result ? (
+            <button
+              onClick={handleAccept}
+              disabled={result.status !== 'optimal' || result.changes.length === 0}
+              className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              Accept Changes
+            </button>
+          ) : (
+            <button
+              onClick={handleOptimize}
+              disabled={stationIds.length === 0 || running}
+              className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {running ? 'Optimizing…' : 'Optimize'}
+            </button>
+          )}
+        </>
+      }
+    >
+      {!result ? (
+        <div className="space-y-4">
+          {/* Objective */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <label className="text-sm font-medium text-foreground">Minimize</label>
+              <select
+                value={objective}
+                onChange={(e) => setObjective(e.target.value as OptimizationObjective)}
+                className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="modules">Total module count</option>
+                <option value="workforce">Total workforce</option>
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <label className="text-sm font-medium text-foreground">Existing modules</label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keepExisting}
+                  onChange={(e) => setKeepExisting(e.target.checked)}
+                  className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+                />
+                <span className="text-sm">Keep (only add modules)</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Stations to optimize</label>
+            {stationGroups.length === 0 && (
+              <p className="text-xs text-muted-foreground">This plan has no stations.</p>
+            )}
+            <div className="space-y-2">
+              {stationGroups.map((group) => {
+                const ids = group.stations.map((s) => s.id);
+                const allChecked = ids.every((id) => stationIds.includes(id));
+                return (
+                  <div key={group.id} className="border border-border rounded-md">
+                    <label className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={allChecked}
+                        onChange={(e) => toggleStations(ids, e.target.checked)}
+                        className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+                      />
+                      <span className="text-sm font-medium">{group.name}</span>
+                    </label>
+                    <div className="px-3 py-1.5 flex flex-wrap gap-x-4 gap-y-1">
+                      {group.stations.map((station) => (
+                        <label key={station.id} className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={stationIds.includes(station.id)}
+                            onChange={(e) => toggleStations([station.id], e.target.checked)}
+                            className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+                          />
+                          <span className="text-sm">{station.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Unchecked stations keep their current modules.
+            </p>
+          </div>
+
+          {/* Export targets */}
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-foreground">
+                Export targets <span className="text-muted-foreground font-normal">(per hour)</span>
+              </label>
+              <button
+                onClick={addTarget}
+                className="px-2 py-0.5 text-xs rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+              >
+                + Add target
+              </button>
+            </div>
+            {targets.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No targets. The optimizer will only cover existing station demand.
+              </p>
+            )}
+            {targets.map((target, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={target.stationId}
+                  onChange={(e) => updateTarget(index, { stationId: e.target.value })}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                >
+                  {plan.stations.map((station) => (
+                    <option key={station.id} value={station.id}>
+                      {station.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={target.wareId}
+                  onChange={(e) => updateTarget(index, { wareId: e.target.value })}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                >
+                  {producibleWares.map((ware) => (
+                    <option key={ware.id} value={ware.id}>
+                      {ware.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={Math.round(target.amount)}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    updateTarget(index, { amount: isNaN(value) ? 0 : value });
+                  }}
+                  className="w-24 px-2 py-1 text-sm rounded border border-input bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+                />
+                <button
+                  onClick={() => removeTarget(index)}
+                  className="p-1 text-muted-foreground hover:text-destructive"
+                  title="Remove target"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {result.status === 'too-large' ? (
+            <p className="text-sm text-destructive">
+              The plan has too many stations and wares to optimize at once. Try optimizing fewer
+              stations at a time.
+            </p>
+          ) : result.status === 'iteration-limit' ? (
+            <p className="text-sm text-destructive">
+              The plan is too large to solve in the allowed number of steps. Try optimizing fewer
+              stations at a time.
+            </p>
+          ) : result.status !== 'optimal' ? (
+            <p className="text-sm text-destructive">
+              No solution found. Try optimizing more stations or removing targets.
+            </p>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className="border border-border rounded-md px-3 py-2">
+                  <div className="text-xs text-muted-foreground">Production modules</div>
+                  <div className="font-mono">
+                    {result.moduleTotals.before} → {result.moduleTotals.after}
+                  </div>
+                </div>
+                <div className="border border-border rounded-md px-3 py-2">
+                  <div className="text-xs text-muted-foreground">Workforce required</div>
+                  <div className="font-mono">
+                    {result.workforceTotals.before.toLocaleString()} →{' '}
+                    {result.workforceTotals.after.toLocaleString()}
+                  </div>
+                </div>
+              </div>
+
+              {/* Diff */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Module changes</label>
+                {changesByStation.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    The current plan already meets all targets.
+                  </p>
+                )}
+                {changesByStation.map(([stationId, changes]) => (
+                  <div key={stationId} className="border border-border rounded-md">
+                    <div className="px-3 py-1.5 bg-muted/50 text-sm font-medium">
+                      {getStationName(stationId)}
+                    </div>
+                    <div className="divide-y divide-border">
+                      {changes.map((change) => {
+                        const delta = change.proposedCount - change.currentCount;
+                        return (
+                          <div
+                            key={change.blueprintId}
+                            className="px-3 py-1 flex items-center justify-between text-sm"
+                          >
+                            <span className="truncate text-foreground">
+                              {getModuleName(change.blueprintId)}
+                            </span>
+                            <span className="font-mono flex items-center gap-2">
+                              <span className="text-muted-foreground">
+                                {change.currentCount} → {change.proposedCount}
+                              </span>
+                              <span className={delta > 0 ? 'text-green-500' : 'text-red-500'}>
+                                {delta > 0 ? `+${delta}` : delta}
+                              </span>
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Raw resources */}
+              {result.externalSupplies.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">
+                    Raw resources brought in from outside (per hour):
+                  </div>
+                  {result.externalSupplies.map((item) => (
+                    <div
+                      key={`${item.stationId}-${item.wareId}`}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="text-blue-400">
+                        {getWareName(item.wareId)}
+                        <span className="text-muted-foreground"> @ {getStationName(item.stationId)}</span>
+                      </span>
+                      <span className="font-mono">{formatAmount(item.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Unmet demand */}
+              {result.unmet.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs text-red-500">
+                    Demand that cannot be met (no connection from an optimized station):
+                  </div>
+                  {result.unmet.map((item) => (
+                    <div
+                      key={`${item.stationId}-${item.wareId}`}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="text-red-500">
+                        {getWareName(item.wareId)}
+                        <span className="text-muted-foreground"> @ {getStationName(item.stationId)}</span>
+                      </span>
+                      <span className="font-mono">-{formatAmount(item.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {remainingDeficits.length === 0
+                  ? 'After accepting, no stations will have unsupplied inputs other than raw resources.'
+                  : `After accepting, ${remainingDeficits.length} unsupplied inputs will remain (check connections).`}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Modal } from '@/components/shared/Modal';
+import { useGameDataStore, usePlanStore } from '@/store';
+import { useLocale } from '@/hooks/useLocale';
+import { simulatePlan, type SimulationResult, type StallPeriod } from '@/engine';
+import { formatAmount } from '@/lib/format';
+
+interface SimulationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Line colors for ware series, reused in order
+const SERIES_COLORS = [
+  '#60a5fa', '#4ade80', '#f472b6', '#facc15', '#a78bfa',
+  '#fb923c', '#2dd4bf', '#f87171', '#94a3b8', '#c084fc',
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 48 };
+
+/** Stalls of one module, grouped by reason and ware */
+interface StallSummary {
+  key: string;
+  moduleId: string;
+  blueprintId: string;
+  reason: StallPeriod['reason'];
+  wareId: string;
+  count: number;
+  hours: number;
+  first: number;
+}
+
+function summarizeStalls(stalls: StallPeriod[]): StallSummary[] {
+  const groups = new Map<string, StallSummary>();
+  for (const stall of stalls) {
+    const key = `${stall.moduleId}-${stall.reason}-${stall.wareId}`;
+    const group = groups.get(key);
+    if (group) {
+      group.count += 1;
+      group.hours += stall.end - stall.start;
+    } else {
+      groups.set(key, { key, ...stall, count: 1, hours: stall.end - stall.start, first: stall.start });
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.hours - a.hours);
+}
+
+export function SimulationDialog({ open, onClose }: SimulationDialogProps) {
+  const gameData = useGameDataStore((s) => s.gameData);
+  const plan = usePlanStore((s) => s.plan);
+  const { t } = useLocale();
+
+  const [hours, setHours] = useState(12);
+  const [stepSeconds, setStepSeconds] = useState(60);
+  const [startingStockHours, setStartingStockHours] = useState(0);
+  const [tradeWithMarket, setTradeWithMarket] = useState(true);
+  const [unlimitedStorage, setUnlimitedStorage] = useState(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [stationId, setStationId] = useState('');
+  const [hiddenWares, setHiddenWares] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setResult(null);
+    setStationId(usePlanStore.getState().plan.stations[0]?.id ?? '');
+    setHiddenWares([]);
+  }, [open]);
+
+  const getWareName = (id: string): string => t(gameData?.wares[id]?.name, id);
+  const getModuleName = (id: string): string =>
+    t(gameData?.modules.production[id]?.name ?? gameData?.modules.habitat[id]?.name, id);
+
+  const stationResult = result?.stations.find((s) => s.stationId === stationId) ?? null;
+  const stallSummaries = useMemo(
+    () => (stationResult ? summarizeStalls(stationResult.stalls) : []),
+    [stationResult]
+  );
+
+  const handleRun = () => {
+    if (!gameData) return;
+    setResult(
+      simulatePlan(plan, gameData, {
+        hours,
+        stepSeconds,
+        startingStockHours,
+        tradeWithMarket,
+        unlimitedStorage,
+      })
+    );
+  };
+
+  const toggleWare = (wareId: string) => {
+    setHiddenWares((prev) =>
+      prev.includes(wareId) ? prev.filter((id) => id !== wareId) : [...prev, wareId]
+    );
+  };
+
+  const renderChart = () => {
+    if (!result || !stationResult) return null;
+
+    const visible = stationResult.wares.filter((w) => !hiddenWares.includes(w.wareId));
+    const maxTime = result.times[result.times.length - 1] || 1;
+    const maxValue = Math.max(1, ...visible.flatMap((w) => w.values));
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (time: number) => CHART_PADDING.left + (time / maxTime) * plotWidth;
+    const y = (value: number) => CHART_PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+    return (
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto text-muted-foreground">
+        {/* Stall periods */}
+        {stationResult.stalls.map((stall, i) => (
+          <rect
+            key={i}
+            x={x(stall.start)}
+            y={CHART_PADDING.top}
+            width={Math.max(x(stall.end) - x(stall.start), 1)}
+            height={plotHeight}
+            className={stall.reason === 'input' ? 'fill-red-500/10' : 'fill-yellow-500/10'}
+          />
+        ))}
+
+        {/* Axes */}
+        <line
+          x1={CHART_PADDING.left}
+          y1={CHART_PADDING.top + plotHeight}
+          x2={CHART_PADDING.left + plotWidth}
+          y2={CHART_PADDING.top + plotHeight}
+          stroke="currentColor"
+          strokeOpacity={0.4}
+        />
+        <line
+          x1={CHART_PADDING.left}
+          y1={CHART_PADDING.top}
+          x2={CHART_PADDING.left}
+          y2={CHART_PADDING.top + plotHeight}
+          stroke="currentColor"
+          strokeOpacity={0.4}
+        />
+        <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + 8} textAnchor="end" fontSize={10} fill="currentColor">
+          {formatAmount(maxValue)}
+        </text>
+        <text x={CHART_PADDING.left - 4} y={CHART_PADDING.top + plotHeight} textAnchor="end" fontSize={10} fill="currentColor">
+          0
+        </text>
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} fontSize={10} fill="currentColor">
+          0h
+        </text>
+        <text x={CHART_PADDING.left + plotWidth} y={CHART_HEIGHT - 6} textAnchor="end" fontSize={10} fill="currentColor">
+          {maxTime.toFixed(1)}h
+        </text>
+
+        {/* Ware levels */}
+        {stationResult.wares.map((series, index) => {
+          if (hiddenWares.includes(series.wareId)) return null;
+          const points = series.values
+            .map((value, i) => `${x(result.times[i]).toFixed(1)},${y(value).toFixed(1)}`)
+            .join(' ');
+          return (
+            <polyline
+              key={series.wareId}
+              points={points}
+              fill="none"
+              stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+              strokeWidth={1.5}
+            />
+          );
+        })}
+      </svg>
+    );
+  };
+
+  if (!gameData) return null;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Simulate Stockpiles"
+      size="lg"
+      footer={
+        <>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={plan.stations.length === 0 || hours <= 0}
+            className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {result ? 'Run Again' : 'Run'}
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {/* Options */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Horizon (hours)</label>
+            <input
+              type="number"
+              min={1}
+              max={168}
+              value={hours}
+              onChange={(e) => setHours(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 168))}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Step (seconds)</label>
+            <select
+              value={stepSeconds}
+              onChange={(e) => setStepSeconds(parseInt(e.target.value, 10))}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value={10}>10</option>
+              <option value={30}>30</option>
+              <option value={60}>60</option>
+              <option value={120}>120</option>
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-sm font-medium text-foreground">Starting stock (hours)</label>
+            <input
+              type="number"
+              min={0}
+              value={startingStockHours}
+              onChange={(e) => setStartingStockHours(Math.max(parseFloat(e.target.value) || 0, 0))}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              title="Each station starts with this many hours of its input demand"
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={tradeWithMarket}
+              onChange={(e) => setTradeWithMarket(e.target.checked)}
+              className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+            />
+            <span className="text-sm">Trade unconnected wares with the market</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={unlimitedStorage}
+              onChange={(e) => setUnlimitedStorage(e.target.checked)}
+              className="w-4 h-4 rounded border-input text-primary focus:ring-primary"
+            />
+            <span className="text-sm">Unlimited storage</span>
+          </label>
+        </div>
+
+        {result && (
+          <>
+            {/* Station picker */}
+            <select
+              value={stationId}
+              onChange={(e) => setStationId(e.target.value)}
+              className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {plan.stations.map((station) => (
+                <option key={station.id} value={station.id}>
+                  {station.name}
+                </option>
+              ))}
+            </select>
+
+            {stationResult && stationResult.wares.length > 0 ? (
+              <>
+                {renderChart()}
+
+                {/* Legend */}
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {stationResult.wares.map((series, index) => (
+                    <button
+                      key={series.wareId}
+                      onClick={() => toggleWare(series.wareId)}
+                      className={`flex items-center gap-1 text-xs transition-opacity ${
+                        hiddenWares.includes(series.wareId) ? 'opacity-40' : ''
+                      }`}
+                      title={isFinite(series.limit) ? `Storage limit ${formatAmount(series.limit)}` : 'Unlimited storage'}
+                    >
+                      <span
+                        className="w-3 h-0.5 rounded"
+                        style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+                      />
+                      <span className="text-foreground">{getWareName(series.wareId)}</span>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Stalls */}
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium text-foreground">Stalls</label>
+                  {stallSummaries.length === 0 ? (
+                    <p className="text-sm text-green-400">No module stalled.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {stallSummaries.map((stall) => (
+                        <div key={stall.key} className="flex items-center justify-between text-xs">
+                          <span className="text-foreground truncate">{getModuleName(stall.blueprintId)}</span>
+                          <span className={stall.reason === 'input' ? 'text-red-400' : 'text-yellow-500'}>
+                            {stall.reason === 'input'
+                              ? `out of ${getWareName(stall.wareId)}`
+                              : `${getWareName(stall.wareId)} storage full`}
+                            <span className="text-muted-foreground ml-2">
+                              {stall.hours.toFixed(1)}h total, {stall.count}×, first at {stall.first.toFixed(1)}h
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">This station has no production to simulate.</p>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,75 @@
+import type { DataSet, GameData, GameDataOverlay, OverlayEntries } from '@/types';
+
+const STORAGE_KEY = 'x4-data-sets';
+
+/** Data sets shipped with the app (files in public/) */
+export const BUILT_IN_DATA_SETS: DataSet[] = [
+  { id: 'base', label: 'Base', title: 'X4 Station Planner', file: 'gamedata-base.json' },
+  { id: 'swi', label: 'SWI', title: 'X4 SWI Station Planner', file: 'gamedata-swi.json' },
+];
+
+export const DEFAULT_DATA_SET_ID = 'swi';
+
+/**
+ * Custom (overlay) data sets saved in this browser.
+ */
+export function loadCustomDataSets(): DataSet[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DataSet[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomDataSets(dataSets: DataSet[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(dataSets));
+}
+
+/**
+ * Find a shipped or custom data set by ID.
+ */
+export function getDataSet(id: string): DataSet | undefined {
+  return BUILT_IN_DATA_SETS.find((d) => d.id === id) ?? loadCustomDataSets().find((d) => d.id === id);
+}
+
+function mergeEntries<T>(base: Record<string, T>, patch: OverlayEntries<T> | undefined): Record<string, T> {
+  if (!patch) return base;
+  const merged = { ...base };
+  for (const [key, entry] of Object.entries(patch)) {
+    if (entry === null) delete merged[key];
+    else merged[key] = { ...merged[key], ...entry };
+  }
+  return merged;
+}
+
+/** Entries with an id field always use their key as ID */
+function mergeKeyedEntries<T extends { id: string }>(
+  base: Record<string, T>,
+  patch: OverlayEntries<T> | undefined
+): Record<string, T> {
+  const merged = mergeEntries(base, patch);
+  for (const key of Object.keys(patch ?? {})) {
+    if (merged[key]) merged[key] = { ...merged[key], id: key };
+  }
+  return merged;
+}
+
+/**
+ * Merge an overlay over game data. Entries are merged field by field, so an
+ * overlay can change just a recipe's time or a ware's price; null removes an entry.
+ */
+export function applyOverlay(base: GameData, overlay: GameDataOverlay): GameData {
+  return {
+    languages: { ...base.languages, ...overlay.languages },
+    wares: mergeKeyedEntries(base.wares, overlay.wares),
+    recipes: mergeKeyedEntries(base.recipes, overlay.recipes),
+    modules: {
+      production: mergeKeyedEntries(base.modules.production, overlay.modules?.production),
+      habitat: mergeKeyedEntries(base.modules.habitat, overlay.modules?.habitat),
+      storage: mergeKeyedEntries(base.modules.storage, overlay.modules?.storage),
+    },
+    sectors: mergeKeyedEntries(base.sectors, overlay.sectors),
+    workforce: overlay.workforce ? mergeEntries(base.workforce ?? {}, overlay.workforce) : base.workforce,
+  };
+}
@@ -1,23 +1,45 @@
-import type { GameData } from '@/types';
+import type { DataSet, GameData } from '@/types';
 import type { GameMode } from '@/types/plan';
+import { applyOverlay, DEFAULT_DATA_SET_ID, getDataSet } from './dataSets';
 
 let cachedGameData: GameData | null = null;
 let cachedMode: GameMode | null = null;
 
-export async function loadGameData(mode: GameMode = 'swi'): Promise<GameData> {
+async function fetchDataFile(file: string): Promise<GameData> {
+  const response = await fetch(`${import.meta.env.BASE_URL}${file}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load game data: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Load a data set without caching: its file, or its base set's file with the overlay merged over it.
+ */
+export async function loadDataSet(dataSet: DataSet): Promise<GameData> {
+  if (dataSet.file) return fetchDataFile(dataSet.file);
+
+  const base = dataSet.baseId ? getDataSet(dataSet.baseId) : undefined;
+  if (!base?.file) {
+    throw new Error(`Data set "${dataSet.label}" has no base data set`);
+  }
+  const data = await fetchDataFile(base.file);
+  return dataSet.overlay ? applyOverlay(data, dataSet.overlay) : data;
+}
+
+export async function loadGameData(mode: GameMode = DEFAULT_DATA_SET_ID): Promise<GameData> {
   if (cachedGameData && cachedMode === mode) {
     return cachedGameData;
   }
 
-  const file = mode === 'base' ? 'gamedata-base.json' : 'gamedata-swi.json';
-  const response = await fetch(`${import.meta.env.BASE_URL}${file}`);
-  if (!response.ok) {
-    throw new Error(`Failed to load game data: ${response.statusText}`);
+  const dataSet = getDataSet(mode);
+  if (!dataSet) {
+    throw new Error(`Unknown game data set: ${mode}`);
   }
 
-  cachedGameData = await response.json();
+  cachedGameData = await loadDataSet(dataSet);
   cachedMode = mode;
-  return cachedGameData!;
+  return cachedGameData;
 }
 
 export function getGameData(): GameData | null {
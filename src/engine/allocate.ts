@@ -0,0 +1,239 @@
+/**
+ * Order-independent flow allocation.
+ *
+ * Shares each source's output and each target's need between all
+ * connections that draw on it, regardless of the order the connections were
+ * created in. Every flow first gets a desired amount (what it would carry on
+ * its own). All flows then grow together in proportion to their desired
+ * amounts; when a source runs dry or a target is fully supplied, the flows
+ * through it stop growing and the rest keep going. Flows with a higher
+ * priority are allocated first, and lower ones share what is left.
+ *
+ * All amounts are per-hour (3600 seconds).
+ */
+
+import type { ConnectionLimit, PlanConnection } from '@/types';
+
+// Relative tolerance when deciding that a pool is used up
+const POOL_EPSILON = 1e-9;
+
+// Percentage of the source's output a 'share' connection takes when none is set
+export const DEFAULT_CONNECTION_SHARE = 100;
+
+/** One connection to allocate */
+export interface FlowRequest {
+  id: string;
+  wareId: string;
+  /** Node supplying the flow (unset = unlimited outside supply) */
+  sourceId?: string;
+  /** Node receiving the flow (unset = unlimited outside demand) */
+  targetId?: string;
+  /** Most this flow may carry by its own rule (Infinity = no limit) */
+  cap: number;
+  /** Reported when the cap is what holds the flow back (unset = the rule itself) */
+  capLimit?: ConnectionLimit;
+  /** Flows with higher priority are allocated first (default 0) */
+  priority?: number;
+}
+
+/** Allocated amount of one connection */
+export interface FlowAllocation {
+  amount: number;
+  /** What stopped the flow from growing */
+  limitedBy?: ConnectionLimit;
+  /** Other connections sharing the used-up source output or target need */
+  sharedWith: string[];
+}
+
+/**
+ * Most a connection may carry by its own mode (Infinity = no limit).
+ * 'share' takes its percentage of the source's output.
+ */
+export function getConnectionCap(
+  conn: Pick<PlanConnection, 'mode' | 'amount' | 'share'>,
+  sourceOutput: number
+): number {
+  // Default to 'auto' for backwards compatibility
+  switch (conn.mode ?? 'auto') {
+    case 'custom':
+      return conn.amount;
+    case 'share': {
+      const fraction = Math.min(Math.max(conn.share ?? DEFAULT_CONNECTION_SHARE, 0), 100) / 100;
+      return fraction > 0 ? fraction * sourceOutput : 0;
+    }
+    case 'max':
+    case 'auto':
+    default:
+      return Infinity;
+  }
+}
+
+interface Pool {
+  capacity: number;
+  used: number;
+  kind: 'source' | 'target';
+  flows: number[];
+}
+
+/**
+ * Allocate flows against nodes' remaining outputs and inputs.
+ * The remaining maps (nodeId -> wareId -> amount) are reduced by the allocated amounts.
+ */
+export function allocateFlows(
+  requests: FlowRequest[],
+  remainingOutput: Map<string, Map<string, number>>,
+  remainingInput: Map<string, Map<string, number>>
+): Map<string, FlowAllocation> {
+  const pools = new Map<string, Pool>();
+
+  const getPool = (
+    kind: Pool['kind'],
+    nodeId: string | undefined,
+    wareId: string,
+    index: number
+  ): Pool | undefined => {
+    if (nodeId === undefined) return undefined;
+    const key = `${kind}:${nodeId}:${wareId}`;
+    let pool = pools.get(key);
+    if (!pool) {
+      const remaining = kind === 'source' ? remainingOutput : remainingInput;
+      pool = {
+        capacity: Math.max(remaining.get(nodeId)?.get(wareId) ?? 0, 0),
+        used: 0,
+        kind,
+        flows: [],
+      };
+      pools.set(key, pool);
+    }
+    pool.flows.push(index);
+    return pool;
+  };
+
+  const flowPools = requests.map((request, index) => ({
+    source: getPool('source', request.sourceId, request.wareId, index),
+    target: getPool('target', request.targetId, request.wareId, index),
+  }));
+
+  const free = (pool: Pool | undefined) => (pool ? pool.capacity - pool.used : Infinity);
+
+  const isFull = (pool: Pool | undefined) =>
+    pool !== undefined &&
+    isFinite(pool.capacity) &&
+    pool.capacity - pool.used <= POOL_EPSILON * Math.max(pool.capacity, 1);
+
+  const amounts = requests.map(() => 0);
+  const results = new Map<string, FlowAllocation>();
+
+  const finish = (index: number, limitedBy: ConnectionLimit | undefined, pool?: Pool) => {
+    results.set(requests[index].id, {
+      amount: amounts[index],
+      limitedBy,
+      sharedWith: pool
+        ? pool.flows.filter((i) => i !== index).map((i) => requests[i].id)
+        : [],
+    });
+  };
+
+  // Higher priorities are served first; flows of equal priority share
+  const priorities = [...new Set(requests.map((request) => request.priority ?? 0))].sort(
+    (a, b) => b - a
+  );
+
+  for (const priority of priorities) {
+    const tier = requests
+      .map((_, index) => index)
+      .filter((index) => (requests[index].priority ?? 0) === priority);
+
+    // What each flow would carry on its own (two unlimited ends move nothing)
+    const desired = new Map<number, number>();
+    const targetFree = new Map<number, number>();
+    for (const index of tier) {
+      const { source, target } = flowPools[index];
+      const amount = Math.min(Math.max(requests[index].cap, 0), free(source), free(target));
+      desired.set(index, isFinite(amount) ? Math.max(amount, 0) : 0);
+      targetFree.set(index, free(target));
+    }
+
+    // Flows that never start
+    const active = new Set<number>();
+    for (const index of tier) {
+      if (desired.get(index)! > 0) {
+        active.add(index);
+        continue;
+      }
+      const { source, target } = flowPools[index];
+      if (requests[index].cap <= 0) {
+        finish(index, requests[index].capLimit);
+      } else if (source && free(source) <= 0) {
+        finish(index, 'source', source);
+      } else if (target && free(target) <= 0) {
+        finish(index, 'target', target);
+      } else {
+        finish(index, undefined);
+      }
+    }
+
+    // Grow all active flows by the same fraction of their desired amount
+    let level = 0;
+    while (active.size > 0) {
+      let step = 1 - level;
+      for (const pool of pools.values()) {
+        if (!isFinite(pool.capacity)) continue;
+        let weight = 0;
+        for (const index of pool.flows) {
+          if (active.has(index)) weight += desired.get(index)!;
+        }
+        if (weight > 0) step = Math.min(step, free(pool) / weight);
+      }
+      step = Math.max(step, 0);
+
+      level += step;
+      for (const index of active) {
+        const next = desired.get(index)! * level;
+        const { source, target } = flowPools[index];
+        if (source) source.used += next - amounts[index];
+        if (target) target.used += next - amounts[index];
+        amounts[index] = next;
+      }
+
+      for (const index of [...active]) {
+        const request = requests[index];
+        const { source, target } = flowPools[index];
+        const wanted = desired.get(index)!;
+        let limitedBy: ConnectionLimit | undefined;
+        let pool: Pool | undefined;
+        if (level >= 1 - POOL_EPSILON) {
+          // Reached what it would carry on its own
+          amounts[index] = wanted;
+          if (wanted >= request.cap) {
+            limitedBy = request.capLimit;
+          } else if (target && wanted >= targetFree.get(index)!) {
+            [limitedBy, pool] = ['target', target];
+          } else {
+            [limitedBy, pool] = ['source', source];
+          }
+        } else if (isFull(source)) {
+          [limitedBy, pool] = ['source', source];
+        } else if (isFull(target)) {
+          [limitedBy, pool] = ['target', target];
+        } else {
+          continue;
+        }
+        active.delete(index);
+        finish(index, limitedBy, pool);
+      }
+    }
+  }
+
+  // Take the allocated amounts out of the remaining maps
+  requests.forEach((request, index) => {
+    const amount = amounts[index];
+    if (amount <= 0) return;
+    const output = request.sourceId !== undefined ? remainingOutput.get(request.sourceId) : undefined;
+    if (output) output.set(request.wareId, (output.get(request.wareId) ?? 0) - amount);
+    const input = request.targetId !== undefined ? remainingInput.get(request.targetId) : undefined;
+    if (input) input.set(request.wareId, (input.get(request.wareId) ?? 0) - amount);
+  });
+
+  return results;
+}
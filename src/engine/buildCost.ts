@@ -0,0 +1,163 @@
+/**
+ * Station construction cost.
+ *
+ * Adds up module build costs (credits plus construction wares) per station
+ * and for the whole plan. Modules and stations marked as completed on the
+ * build checklist count towards the total but not towards what is left to buy.
+ */
+
+import type {
+  GameData,
+  Plan,
+  PlanPricing,
+  PlanStation,
+  ResourceAmount,
+} from '@/types';
+import { getWarePrice } from './economics';
+
+export interface BuildCostTotals {
+  credits: number;
+  wares: ResourceAmount[];
+}
+
+export interface StationBuildCost {
+  stationId: string;
+  total: BuildCostTotals;
+  /** Cost of modules not yet marked completed */
+  remaining: BuildCostTotals;
+  /** Blueprints in this station without build cost data */
+  unknownBlueprints: string[];
+}
+
+export interface PlanBuildCost {
+  stations: StationBuildCost[];
+  total: BuildCostTotals;
+  remaining: BuildCostTotals;
+  unknownBlueprints: string[];
+}
+
+/** Running totals while summing build costs */
+interface CostSum {
+  credits: number;
+  wares: Map<string, number>;
+}
+
+function createCostSum(): CostSum {
+  return { credits: 0, wares: new Map() };
+}
+
+function addCost(sum: CostSum, credits: number, wares: ResourceAmount[], times = 1): void {
+  sum.credits += credits * times;
+  for (const ware of wares) {
+    sum.wares.set(ware.wareId, (sum.wares.get(ware.wareId) ?? 0) + ware.amount * times);
+  }
+}
+
+function toTotals(sum: CostSum): BuildCostTotals {
+  return {
+    credits: sum.credits,
+    wares: Array.from(sum.wares.entries())
+      .map(([wareId, amount]) => ({ wareId, amount }))
+      .filter((w) => w.amount > 0)
+      .sort((a, b) => b.amount - a.amount),
+  };
+}
+
+function getBlueprintBuildCost(blueprintId: string, gameData: GameData) {
+  return (
+    gameData.modules.production[blueprintId]?.buildCost ??
+    gameData.modules.habitat[blueprintId]?.buildCost ??
+    gameData.modules.storage[blueprintId]?.buildCost ??
+    null
+  );
+}
+
+/**
+ * Whether the game data has build costs for any module at all.
+ */
+export function hasBuildCostData(gameData: GameData): boolean {
+  return [gameData.modules.production, gameData.modules.habitat, gameData.modules.storage].some(
+    (modules) => Object.values(modules).some((module) => module.buildCost)
+  );
+}
+
+/**
+ * Compute the build cost of a single station.
+ */
+export function computeStationBuildCost(
+  station: PlanStation,
+  gameData: GameData
+): StationBuildCost {
+  const total = createCostSum();
+  const remaining = createCostSum();
+  const unknown = new Set<string>();
+
+  for (const planModule of station.modules) {
+    const cost = getBlueprintBuildCost(planModule.blueprintId, gameData);
+    if (!cost) {
+      unknown.add(planModule.blueprintId);
+      continue;
+    }
+
+    const wares = cost.wares.map((w) => ({ wareId: w.ware, amount: w.amount }));
+    addCost(total, cost.credits, wares, planModule.count);
+    if (!station.completed && !planModule.completed) {
+      addCost(remaining, cost.credits, wares, planModule.count);
+    }
+  }
+
+  return {
+    stationId: station.id,
+    total: toTotals(total),
+    remaining: toTotals(remaining),
+    unknownBlueprints: [...unknown].sort(),
+  };
+}
+
+/**
+ * Compute build costs for every station and the whole plan.
+ */
+export function computePlanBuildCost(plan: Plan, gameData: GameData): PlanBuildCost {
+  const stations = plan.stations.map((station) => computeStationBuildCost(station, gameData));
+
+  const total = createCostSum();
+  const remaining = createCostSum();
+  const unknown = new Set<string>();
+  for (const sc of stations) {
+    addCost(total, sc.total.credits, sc.total.wares);
+    addCost(remaining, sc.remaining.credits, sc.remaining.wares);
+    sc.unknownBlueprints.forEach((id) => unknown.add(id));
+  }
+
+  return {
+    stations,
+    total: toTotals(total),
+    remaining: toTotals(remaining),
+    unknownBlueprints: [...unknown].sort(),
+  };
+}
+
+/**
+ * Value build costs in credits: the credit cost plus construction wares at plan prices.
+ * Wares without a price are left out.
+ */
+export function getBuildCostValue(
+  totals: BuildCostTotals,
+  gameData: GameData,
+  pricing?: PlanPricing
+): number {
+  let value = totals.credits;
+  for (const ware of totals.wares) {
+    const price = getWarePrice(ware.wareId, gameData, pricing);
+    if (price !== null) value += ware.amount * price;
+  }
+  return value;
+}
+
+/**
+ * Hours until hourly profit pays back the build cost (null if it never does).
+ */
+export function getPaybackHours(buildCostValue: number, profitPerHour: number): number | null {
+  if (profitPerHour <= 0) return null;
+  return buildCostValue / profitPerHour;
+}
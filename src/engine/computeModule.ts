@@ -20,14 +20,21 @@ import { getWorkforceMultiplier, HOUR_IN_SECONDS } from './workforce';
 
 /**
  * Find the recipe for a production module.
- * Tries different method patterns to find a matching recipe.
+ * Uses the explicitly chosen recipe when it produces the module's ware,
+ * otherwise tries different method patterns to find a matching recipe.
  */
 export function findRecipeForModule(
   module: ProductionModule,
-  recipes: Record<string, Recipe>
+  recipes: Record<string, Recipe>,
+  recipeId?: string
 ): Recipe | null {
   const wareId = module.producedWareId;
 
+  // Explicit choice wins (ignored if it belongs to another ware, e.g. after a blueprint change)
+  if (recipeId && recipes[recipeId]?.wareId === wareId) {
+    return recipes[recipeId];
+  }
+
   // Try to infer method from module ID
   let inferredMethod = 'default';
   if (module.id.includes('_imp_')) {
@@ -36,6 +43,10 @@ export function findRecipeForModule(
     inferredMethod = 'sith';
   } else if (module.id.includes('_ter_')) {
     inferredMethod = 'terran';
+  } else if (module.id.includes('_tel_')) {
+    inferredMethod = 'teladi';
+  } else if (module.id.includes('_par_')) {
+    inferredMethod = 'paranid';
   }
 
   // Try inferred method first
@@ -60,6 +71,57 @@ export function findRecipeForModule(
   return null;
 }
 
+/**
+ * Get every recipe (production method) for a ware, default method first.
+ */
+export function getRecipesForWare(
+  wareId: string,
+  recipes: Record<string, Recipe>
+): Recipe[] {
+  return Object.values(recipes)
+    .filter((r) => r.wareId === wareId)
+    .sort((a, b) => {
+      if (a.method === 'default') return -1;
+      if (b.method === 'default') return 1;
+      return a.method.localeCompare(b.method);
+    });
+}
+
+/**
+ * Find all production modules that produce a given ware.
+ */
+export function findProducerModules(
+  wareId: string,
+  gameData: GameData
+): ProductionModule[] {
+  return Object.values(gameData.modules.production).filter(
+    (m) => m.producedWareId === wareId
+  );
+}
+
+/**
+ * Pick the default producer module for a ware.
+ * Prefers generic (`_gen_`) modules, then modules running the default recipe,
+ * then falls back to the first module by ID so the choice is stable.
+ */
+export function getDefaultProducerModule(
+  wareId: string,
+  gameData: GameData
+): ProductionModule | null {
+  const candidates = findProducerModules(wareId, gameData).sort((a, b) =>
+    a.id.localeCompare(b.id)
+  );
+  if (candidates.length === 0) return null;
+
+  const generic = candidates.find((m) => m.id.includes('_gen_'));
+  if (generic) return generic;
+
+  const defaultMethod = candidates.find(
+    (m) => findRecipeForModule(m, gameData.recipes)?.method === 'default'
+  );
+  return defaultMethod ?? candidates[0];
+}
+
 /**
  * Get the type of a module by its blueprint ID.
  */
@@ -91,7 +153,7 @@ export function computeModuleIO(
   if (moduleType === 'production') {
     const prodModule = gameData.modules.production[planModule.blueprintId];
     if (prodModule) {
-      const recipe = findRecipeForModule(prodModule, gameData.recipes);
+      const recipe = findRecipeForModule(prodModule, gameData.recipes, planModule.recipeId);
       if (recipe) {
         // Calculate output multiplier
         const sunlightMult = getSunlightMultiplier(
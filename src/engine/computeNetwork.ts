@@ -2,6 +2,11 @@
  * Network-level I/O computation.
  *
  * Aggregates all station I/O and calculates deficits based on connections.
+ * Connections sharing a source or target are allocated together (see allocate.ts),
+ * so the result does not depend on the order they were created in.
+ * Stations short of a connected import produce less, which in turn starves
+ * their customers; the allocation is repeated until these rates settle,
+ * including around loops (see cycles.ts).
  */
 
 import type {
@@ -11,10 +16,24 @@ import type {
   ResourceAmount,
   ResourceDeficit,
   ConnectionComputed,
+  MiningSourceComputed,
+  MarketComputed,
   GameData,
 } from '@/types';
 import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
 import { computeStation } from './computeStation';
+import { computeTradeValue } from './economics';
+import { DEFAULT_TRANSPORT, getRequiredShips, getTransportThroughput } from './logistics';
+import { computeMiningSource } from './mining';
+import { computeMarketTradeValue, createMarketComputed, getMarketTrade } from './markets';
+import { allocateFlows, getConnectionCap, type FlowRequest } from './allocate';
+import { computeModuleRates, findNetworkCycles, getWareFactors } from './cycles';
+
+// Most allocation passes before giving up on supply chains settling
+const MAX_ITERATIONS = 50;
+
+// Largest change in any production rate (0-1) that still counts as settled
+const CONVERGENCE_TOLERANCE = 1e-6;
 
 /**
  * Aggregate resource amounts by wareId.
@@ -39,7 +58,7 @@ function aggregateResources(resources: ResourceAmount[]): ResourceAmount[] {
 export function computeNetwork(plan: Plan, gameData: GameData): NetworkComputed {
   // Compute each station
   const stationComputeds: StationComputed[] = plan.stations.map((station) =>
-    computeStation(station, plan.sectors, gameData)
+    computeStation(station, plan.sectors, gameData, plan.pricing)
   );
 
   // Create a map for quick lookup
@@ -52,91 +71,218 @@ export function computeNetwork(plan: Plan, gameData: GameData): NetworkComputed
   const stationSupplied = new Map<string, Map<string, number>>();
   // Track what each station exports via connections (external consumption)
   const stationConsumed = new Map<string, Map<string, number>>();
-  // Track remaining available output for each station/ware (for computing effective amounts)
-  const stationRemainingOutput = new Map<string, Map<string, number>>();
-  // Track remaining needed input for each station/ware
-  const stationRemainingInput = new Map<string, Map<string, number>>();
+  // Output each station/ware can give at full production, before connections
+  const baseOutput = new Map<string, Map<string, number>>();
+  // Input each station/ware needs, before connections
+  const baseInput = new Map<string, Map<string, number>>();
+  // Wares each station receives through at least one connection
+  const connectedWares = new Map<string, Set<string>>();
 
   for (const station of plan.stations) {
     stationSupplied.set(station.id, new Map());
     stationConsumed.set(station.id, new Map());
-    stationRemainingOutput.set(station.id, new Map());
-    stationRemainingInput.set(station.id, new Map());
+    baseOutput.set(station.id, new Map());
+    baseInput.set(station.id, new Map());
+    connectedWares.set(station.id, new Set());
   }
 
-  // Initialize remaining output/input from station computed data
+  // Initialize output/input from station computed data
   for (const sc of stationComputeds) {
-    const remainingOutput = stationRemainingOutput.get(sc.stationId)!;
-    const remainingInput = stationRemainingInput.get(sc.stationId)!;
+    const output = baseOutput.get(sc.stationId)!;
+    const input = baseInput.get(sc.stationId)!;
 
-    for (const output of sc.stationOutputs) {
+    for (const stationOutput of sc.stationOutputs) {
       // Cap by net output (what's actually produced)
-      const netOutput = sc.netOutputs.find(o => o.wareId === output.wareId);
-      const available = Math.min(output.amount, netOutput?.amount ?? output.amount);
-      remainingOutput.set(output.wareId, available);
+      const netOutput = sc.netOutputs.find(o => o.wareId === stationOutput.wareId);
+      const available = Math.min(stationOutput.amount, netOutput?.amount ?? stationOutput.amount);
+      output.set(stationOutput.wareId, available);
     }
 
-    for (const input of sc.stationInputs) {
-      remainingInput.set(input.wareId, input.amount);
+    for (const stationInput of sc.stationInputs) {
+      input.set(stationInput.wareId, stationInput.amount);
+    }
+  }
+
+  for (const conn of plan.connections) {
+    connectedWares.get(conn.targetStationId)?.add(conn.wareId);
+  }
+
+  // Mining sources supply their gathered ware like a station output
+  const miningComputeds: MiningSourceComputed[] = (plan.miningSources ?? []).map((source) =>
+    computeMiningSource(source, plan.sectors, gameData)
+  );
+  for (const mc of miningComputeds) {
+    baseOutput.set(mc.sourceId, new Map([[mc.wareId, mc.output]]));
+  }
+
+  // Markets supply and take their wares like a station, up to their limit
+  const marketComputeds: MarketComputed[] = (plan.markets ?? []).map((market) =>
+    createMarketComputed(market, gameData, plan.pricing)
+  );
+  for (const mc of marketComputeds) {
+    const supply = new Map<string, number>();
+    const demand = new Map<string, number>();
+    for (const ware of mc.wares) {
+      const target = ware.kind === 'supply' ? supply : demand;
+      target.set(ware.wareId, (target.get(ware.wareId) ?? 0) + (ware.limit ?? Infinity));
+    }
+    baseOutput.set(mc.marketId, supply);
+    baseInput.set(mc.marketId, demand);
+    stationSupplied.set(mc.marketId, new Map());
+    stationConsumed.set(mc.marketId, new Map());
+  }
+
+  // Allocate all connections at once so the result does not depend on their order.
+  // Station outputs are scaled by how fast each station can produce (ware -> 0-1).
+  const allocateConnections = (outputFactors: Map<string, Map<string, number>>) => {
+    const remainingOutput = new Map<string, Map<string, number>>();
+    for (const [nodeId, wares] of baseOutput) {
+      const factors = outputFactors.get(nodeId);
+      remainingOutput.set(
+        nodeId,
+        new Map([...wares].map(([wareId, amount]) => [wareId, amount * (factors?.get(wareId) ?? 1)]))
+      );
+    }
+    const remainingInput = new Map([...baseInput].map(([nodeId, wares]) => [nodeId, new Map(wares)]));
+
+    const standaloneAmounts = new Map<string, number>();
+    const requests: FlowRequest[] = plan.connections.map((conn) => {
+      // 'custom' and 'share' carry at most their own amount; 'auto' and 'max' take what they can
+      const sourceOutput = remainingOutput.get(conn.sourceStationId)?.get(conn.wareId) ?? 0;
+      const amountCap = getConnectionCap(conn, sourceOutput);
+
+      // Cap by what the assigned ships can haul
+      const throughput = conn.transport
+        ? getTransportThroughput(conn.transport, gameData.wares[conn.wareId])
+        : Infinity;
+
+      // What the connection would carry on its own, ignoring ships
+      const standalone = Math.min(
+        amountCap,
+        sourceOutput,
+        remainingInput.get(conn.targetStationId)?.get(conn.wareId) ?? 0
+      );
+      standaloneAmounts.set(conn.id, isFinite(standalone) ? standalone : 0);
+
+      return {
+        id: conn.id,
+        wareId: conn.wareId,
+        sourceId: conn.sourceStationId,
+        targetId: conn.targetStationId,
+        cap: Math.min(amountCap, throughput),
+        capLimit: throughput < amountCap ? 'transport' : undefined,
+        priority: conn.priority,
+      };
+    });
+    const allocations = allocateFlows(requests, remainingOutput, remainingInput);
+    return { allocations, standaloneAmounts, remainingOutput };
+  };
+
+  // Stations in a supply chain depend on each other's output: repeat until
+  // production rates settle. Loops may only approach their fixed point.
+  const cycles = findNetworkCycles(
+    plan.stations.map((s) => s.id),
+    plan.connections
+  );
+  let moduleRates = new Map<string, Map<string, number>>();
+  let outputFactors = new Map<string, Map<string, number>>();
+  let allocated = allocateConnections(outputFactors);
+  let iterations = 1;
+  let converged = false;
+
+  while (iterations < MAX_ITERATIONS) {
+    const supplied = new Map<string, Map<string, number>>();
+    for (const conn of plan.connections) {
+      const wares = supplied.get(conn.targetStationId) ?? new Map<string, number>();
+      const amount = allocated.allocations.get(conn.id)!.amount;
+      wares.set(conn.wareId, (wares.get(conn.wareId) ?? 0) + amount);
+      supplied.set(conn.targetStationId, wares);
+    }
+
+    const nextRates = new Map<string, Map<string, number>>();
+    const nextFactors = new Map<string, Map<string, number>>();
+    let change = 0;
+    for (const sc of stationComputeds) {
+      const rates = computeModuleRates(
+        sc,
+        supplied.get(sc.stationId) ?? new Map(),
+        connectedWares.get(sc.stationId)!
+      );
+      const factors = getWareFactors(sc.modules, rates, 'grossOutputs');
+      for (const [wareId, factor] of factors) {
+        change = Math.max(change, Math.abs(factor - (outputFactors.get(sc.stationId)?.get(wareId) ?? 1)));
+      }
+      nextRates.set(sc.stationId, rates);
+      nextFactors.set(sc.stationId, factors);
+    }
+
+    if (change <= CONVERGENCE_TOLERANCE) {
+      converged = true;
+      break;
+    }
+    moduleRates = nextRates;
+    outputFactors = nextFactors;
+    allocated = allocateConnections(outputFactors);
+    iterations++;
+  }
+
+  // Stations held back by short supply make and use less than at full rate:
+  // scale their modules, outputs, inputs and trade value to what they can
+  // actually produce. Station inputs keep the full-rate need so the shortfall
+  // still shows as a deficit.
+  for (const sc of stationComputeds) {
+    const rates = moduleRates.get(sc.stationId);
+    if (!rates || [...rates.values()].every((rate) => rate >= 1)) continue;
+    const scale = (items: ResourceAmount[], factor: (wareId: string) => number) =>
+      items.map((item) => ({ wareId: item.wareId, amount: item.amount * factor(item.wareId) }));
+
+    const factors = outputFactors.get(sc.stationId)!;
+    const inputFactors = getWareFactors(sc.modules, rates, 'grossInputs');
+    const outputFactor = (wareId: string) => factors.get(wareId) ?? 1;
+    const inputFactor = (wareId: string) => inputFactors.get(wareId) ?? 1;
+
+    for (const module of sc.modules) {
+      const rate = rates.get(module.moduleId) ?? 1;
+      module.grossInputs = scale(module.grossInputs, () => rate);
+      module.grossOutputs = scale(module.grossOutputs, () => rate);
+      module.netInputs = scale(module.netInputs, () => rate);
+      module.netOutputs = scale(module.netOutputs, () => rate);
     }
+    sc.grossOutputs = scale(sc.grossOutputs, outputFactor);
+    sc.netOutputs = scale(sc.netOutputs, outputFactor);
+    sc.stationOutputs = scale(sc.stationOutputs, outputFactor);
+    sc.grossInputs = scale(sc.grossInputs, inputFactor);
+    sc.netInputs = scale(sc.netInputs, inputFactor);
+    Object.assign(sc, computeTradeValue(sc.netOutputs, sc.netInputs, gameData, plan.pricing));
   }
 
-  // Compute effective amounts for each connection
+  const { allocations, standaloneAmounts } = allocated;
+  const stationRemainingOutput = allocated.remainingOutput;
   const connectionComputeds: ConnectionComputed[] = [];
 
   for (const conn of plan.connections) {
-    const mode = conn.mode ?? 'auto'; // Default to 'auto' for backwards compatibility
-
-    // Get source's remaining available output
-    const sourceRemaining = stationRemainingOutput.get(conn.sourceStationId);
-    const sourceAvailable = sourceRemaining?.get(conn.wareId) ?? 0;
-
-    // Get target's remaining needed input
-    const targetRemaining = stationRemainingInput.get(conn.targetStationId);
-    const targetNeed = targetRemaining?.get(conn.wareId) ?? 0;
-
-    // Calculate effective amount based on mode
-    let effectiveAmount: number;
-    let sourceConstrained = false;
-    let targetConstrained = false;
-
-    switch (mode) {
-      case 'custom':
-        // Use the stored amount, but cap by what's available
-        effectiveAmount = Math.min(conn.amount, sourceAvailable, targetNeed);
-        sourceConstrained = conn.amount > sourceAvailable;
-        targetConstrained = conn.amount > targetNeed;
-        break;
-      case 'max':
-        // Take as much as possible from source (up to target need)
-        effectiveAmount = Math.min(sourceAvailable, targetNeed);
-        sourceConstrained = sourceAvailable < targetNeed;
-        targetConstrained = targetNeed < sourceAvailable;
-        break;
-      case 'auto':
-      default:
-        // Same as 'max' for now - take min of available and needed
-        effectiveAmount = Math.min(sourceAvailable, targetNeed);
-        sourceConstrained = sourceAvailable < targetNeed;
-        targetConstrained = targetNeed < sourceAvailable;
-        break;
-    }
+    const allocation = allocations.get(conn.id)!;
+    const effectiveAmount = allocation.amount;
+
+    // Ships needed to haul the flow before any transport cap
+    const transport = conn.transport ?? DEFAULT_TRANSPORT;
+    const requiredShips = getRequiredShips(
+      allocation.limitedBy === 'transport' ? standaloneAmounts.get(conn.id)! : effectiveAmount,
+      transport,
+      gameData.wares[conn.wareId]
+    );
 
     connectionComputeds.push({
       connectionId: conn.id,
       effectiveAmount,
-      sourceConstrained,
-      targetConstrained,
+      sourceConstrained: allocation.limitedBy === 'source',
+      targetConstrained: allocation.limitedBy === 'target',
+      transportConstrained: allocation.limitedBy === 'transport',
+      limitedBy: allocation.limitedBy,
+      sharedWith: allocation.sharedWith,
+      requiredShips,
     });
 
-    // Update remaining amounts
-    if (sourceRemaining) {
-      sourceRemaining.set(conn.wareId, sourceAvailable - effectiveAmount);
-    }
-    if (targetRemaining) {
-      targetRemaining.set(conn.wareId, targetNeed - effectiveAmount);
-    }
-
     // Add to target station's supplied amounts
     const targetSupplied = stationSupplied.get(conn.targetStationId);
     if (targetSupplied) {
@@ -152,6 +298,24 @@ export function computeNetwork(plan: Plan, gameData: GameData): NetworkComputed
     }
   }
 
+  // Record what each mining source delivers
+  for (const mc of miningComputeds) {
+    mc.remaining = Math.max(stationRemainingOutput.get(mc.sourceId)?.get(mc.wareId) ?? 0, 0);
+    mc.consumed = mc.output - mc.remaining;
+  }
+
+  // Record what is traded with each market
+  for (const mc of marketComputeds) {
+    const supplied = stationSupplied.get(mc.marketId)!;
+    const consumed = stationConsumed.get(mc.marketId)!;
+    for (const ware of mc.wares) {
+      const traded = ware.kind === 'supply' ? consumed : supplied;
+      ware.traded = traded.get(ware.wareId) ?? 0;
+      // Report duplicate entries of the same ware once
+      traded.delete(ware.wareId);
+    }
+  }
+
   // Update each station's computed data with external supply/consumption
   for (const sc of stationComputeds) {
     const supplied = stationSupplied.get(sc.stationId) || new Map();
@@ -314,14 +478,7 @@ export function computeNetwork(plan: Plan, gameData: GameData): NetworkComputed
     }
 
     // Add remaining outputs (after connections consume some)
-    // First, calculate how much each station exports via connections
-    const exported = new Map<string, number>();
-    for (const conn of plan.connections) {
-      if (conn.sourceStationId === sc.stationId) {
-        const current = exported.get(conn.wareId) || 0;
-        exported.set(conn.wareId, current + conn.amount);
-      }
-    }
+    const exported = stationConsumed.get(sc.stationId) || new Map();
 
     for (const output of sc.netOutputs) {
       const exportedAmount = exported.get(output.wareId) || 0;
@@ -332,12 +489,34 @@ export function computeNetwork(plan: Plan, gameData: GameData): NetworkComputed
     }
   }
 
+  // Only trade with the outside world counts towards network profit
+  const stationTrade = computeTradeValue(
+    aggregateResources(allNetOutputs),
+    aggregateResources(allNetInputs),
+    gameData,
+    plan.pricing
+  );
+  const marketTrade = computeMarketTradeValue(marketComputeds);
+
+  // Wares bought from or sold to markets also enter or leave the network
+  const totalInputs = aggregateResources([...allNetInputs, ...getMarketTrade(marketComputeds, 'supply')]);
+  const totalOutputs = aggregateResources([...allNetOutputs, ...getMarketTrade(marketComputeds, 'demand')]);
+
   return {
     stations: stationComputeds,
     connections: connectionComputeds,
-    totalInputs: aggregateResources(allNetInputs),
-    totalOutputs: aggregateResources(allNetOutputs),
+    miningSources: miningComputeds,
+    markets: marketComputeds,
+    totalInputs,
+    totalOutputs,
     deficits,
+    revenue: stationTrade.revenue + marketTrade.revenue,
+    inputCost: stationTrade.inputCost + marketTrade.inputCost,
+    profit: stationTrade.profit + marketTrade.profit,
+    unpricedWares: [...new Set([...stationTrade.unpricedWares, ...marketTrade.unpricedWares])].sort(),
+    cycles,
+    iterations,
+    converged,
   };
 }
 
@@ -351,6 +530,26 @@ export function getConnectionComputed(
   return network.connections.find((c) => c.connectionId === connectionId);
 }
 
+/**
+ * Get computed data for a specific mining source.
+ */
+export function getMiningSourceComputed(
+  network: NetworkComputed,
+  sourceId: string
+): MiningSourceComputed | undefined {
+  return network.miningSources.find((m) => m.sourceId === sourceId);
+}
+
+/**
+ * Get computed data for a specific market.
+ */
+export function getMarketComputed(
+  network: NetworkComputed,
+  marketId: string
+): MarketComputed | undefined {
+  return network.markets.find((m) => m.marketId === marketId);
+}
+
 /**
  * Get computed data for a specific station.
  */
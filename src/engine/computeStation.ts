@@ -5,6 +5,7 @@
  * applying sunlight and workforce multipliers.
  * Uses module connections to determine what flows internally
  * vs what needs to be imported/exported at station level.
+ * Connections sharing a module's output or input split it proportionally.
  *
  * All outputs are normalized to per-hour (3600 seconds) rates.
  */
@@ -12,19 +13,25 @@
 import type {
   PlanStation,
   PlanSector,
+  PlanPricing,
   StationComputed,
   ResourceAmount,
   GameData,
   ModuleComputed,
   ConnectionComputed,
+  PlanModuleConnection,
 } from '@/types';
 import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
 import { getEffectiveSunlight } from './sunlight';
 import {
   calculateWorkforceStats,
   getWorkforceUpkeepForCapacity,
+  getHabitatCapacities,
 } from './workforce';
 import { computeModuleIO, getModuleType } from './computeModule';
+import { computeTradeValue } from './economics';
+import { computeStationStorage } from './storage';
+import { allocateFlows, getConnectionCap, type FlowRequest } from './allocate';
 
 /**
  * Aggregate resource amounts by wareId, combining amounts for same wares.
@@ -50,7 +57,8 @@ function aggregateResources(resources: ResourceAmount[]): ResourceAmount[] {
 export function computeStation(
   station: PlanStation,
   sectors: PlanSector[],
-  gameData: GameData
+  gameData: GameData,
+  pricing?: PlanPricing
 ): StationComputed {
   const effectiveSunlight = getEffectiveSunlight(station, sectors);
   const fillHabitats = station.fillHabitats ?? false;
@@ -77,11 +85,12 @@ export function computeStation(
     }
   }
 
-  // Calculate workforce stats
+  // Calculate workforce stats, with upkeep depending on each habitat's race
   const workforceStats = calculateWorkforceStats(
     totalWorkforceRequired,
-    totalWorkforceCapacity,
-    fillHabitats
+    getHabitatCapacities(station, gameData),
+    fillHabitats,
+    gameData.workforce
   );
 
   // Compute each module's I/O
@@ -90,7 +99,7 @@ export function computeStation(
       planModule,
       gameData,
       effectiveSunlight,
-      workforceStats.workerRatio
+      workforceStats.workerRatio * workforceStats.bonusMultiplier
     )
   );
 
@@ -100,7 +109,7 @@ export function computeStation(
     moduleMap.set(mc.moduleId, mc);
   }
 
-  // Add food/medical inputs to habitat modules based on their share of workforce capacity
+  // Add race-specific upkeep inputs to habitat modules based on their share of that race's capacity
   for (const planModule of station.modules) {
     const moduleType = getModuleType(planModule.blueprintId, gameData);
     if (moduleType === 'habitat') {
@@ -108,7 +117,11 @@ export function computeStation(
       const mc = moduleMap.get(planModule.id);
       if (habModule && mc) {
         const moduleCapacity = habModule.workforceCapacity * planModule.count;
-        const upkeep = getWorkforceUpkeepForCapacity(workforceStats, moduleCapacity);
+        const upkeep = getWorkforceUpkeepForCapacity(
+          workforceStats,
+          habModule.race,
+          moduleCapacity
+        );
         mc.grossInputs.push(...upkeep);
         mc.netInputs = [...mc.grossInputs];
       }
@@ -161,62 +174,53 @@ export function computeStation(
     (c) => c.targetModuleId === STATION_OUTPUT_ID
   );
 
-  // Compute effective amounts for all module connections
-  const moduleConnectionComputeds: ConnectionComputed[] = [];
+  // Station Input and Station Output are unlimited outside ends
+  const toFlowRequest = (conn: PlanModuleConnection): FlowRequest => {
+    // 'share' splits the source module's gross output (Station Input has no limit)
+    const sourceModule = moduleComputeds.find((mc) => mc.moduleId === conn.sourceModuleId);
+    const sourceOutput = sourceModule
+      ? sourceModule.grossOutputs.find((o) => o.wareId === conn.wareId)?.amount ?? 0
+      : Infinity;
+    return {
+      id: conn.id,
+      wareId: conn.wareId,
+      sourceId: conn.sourceModuleId === STATION_INPUT_ID ? undefined : conn.sourceModuleId,
+      targetId: conn.targetModuleId === STATION_OUTPUT_ID ? undefined : conn.targetModuleId,
+      // 'custom' and 'share' carry at most their own amount; 'auto' and 'max' take what they can
+      cap: getConnectionCap(conn, sourceOutput),
+      priority: conn.priority,
+    };
+  };
 
-  // Process module-to-module connections with mode-aware effective amounts
-  for (const conn of moduleToModuleConnections) {
-    const mode = conn.mode ?? 'auto'; // Default to 'auto' for backwards compatibility
-
-    // Get source's remaining available output
-    const sourceRemaining = moduleRemainingOutput.get(conn.sourceModuleId);
-    const sourceAvailable = sourceRemaining?.get(conn.wareId) ?? 0;
-
-    // Get target's remaining needed input
-    const targetRemaining = moduleRemainingInput.get(conn.targetModuleId);
-    const targetNeed = targetRemaining?.get(conn.wareId) ?? 0;
-
-    // Calculate effective amount based on mode
-    let effectiveAmount: number;
-    let sourceConstrained = false;
-    let targetConstrained = false;
-
-    switch (mode) {
-      case 'custom':
-        // Use the stored amount, but cap by what's available and needed
-        effectiveAmount = Math.min(conn.amount, sourceAvailable, targetNeed);
-        sourceConstrained = conn.amount > sourceAvailable;
-        targetConstrained = conn.amount > targetNeed;
-        break;
-      case 'max':
-        // Take as much as possible from source (up to target need)
-        effectiveAmount = Math.min(sourceAvailable, targetNeed);
-        sourceConstrained = sourceAvailable < targetNeed;
-        targetConstrained = targetNeed < sourceAvailable;
-        break;
-      case 'auto':
-      default:
-        // Same as 'max' - take min of available and needed
-        effectiveAmount = Math.min(sourceAvailable, targetNeed);
-        sourceConstrained = sourceAvailable < targetNeed;
-        targetConstrained = targetNeed < sourceAvailable;
-        break;
-    }
+  // Compute effective amounts for all module connections.
+  // Each group is allocated together so the result does not depend on connection
+  // order; internal flows go first, station I/O takes what is left.
+  const moduleConnectionComputeds: ConnectionComputed[] = [];
 
-    moduleConnectionComputeds.push({
-      connectionId: conn.id,
-      effectiveAmount,
-      sourceConstrained,
-      targetConstrained,
+  const allocateGroup = (conns: PlanModuleConnection[]) => {
+    const allocations = allocateFlows(
+      conns.map(toFlowRequest),
+      moduleRemainingOutput,
+      moduleRemainingInput
+    );
+    return conns.map((conn) => {
+      const allocation = allocations.get(conn.id)!;
+      moduleConnectionComputeds.push({
+        connectionId: conn.id,
+        effectiveAmount: allocation.amount,
+        sourceConstrained: allocation.limitedBy === 'source',
+        targetConstrained: allocation.limitedBy === 'target',
+        limitedBy: allocation.limitedBy,
+        sharedWith: allocation.sharedWith,
+      });
+      return allocation.amount;
     });
+  };
 
-    // Update remaining amounts
-    if (sourceRemaining) {
-      sourceRemaining.set(conn.wareId, sourceAvailable - effectiveAmount);
-    }
-    if (targetRemaining) {
-      targetRemaining.set(conn.wareId, targetNeed - effectiveAmount);
-    }
+  // Module-to-module connections
+  const internalAmounts = allocateGroup(moduleToModuleConnections);
+  moduleToModuleConnections.forEach((conn, index) => {
+    const effectiveAmount = internalAmounts[index];
 
     // Add to target module's supplied amounts (actually satisfied internally)
     const targetSupplied = moduleSupplied.get(conn.targetModuleId);
@@ -231,93 +235,17 @@ export function computeStation(
       const current = sourceExported.get(conn.wareId) || 0;
       sourceExported.set(conn.wareId, current + effectiveAmount);
     }
-  }
-
-  // Process Station Input connections (with mode support)
-  for (const conn of stationInputConnections) {
-    const mode = conn.mode ?? 'auto';
-
-    // For Station Input, source is external (no limit from source module)
-    // Target is a module's input
-    const targetRemaining = moduleRemainingInput.get(conn.targetModuleId);
-    const targetNeed = targetRemaining?.get(conn.wareId) ?? 0;
-
-    // Effective amount depends on mode
-    let effectiveAmount: number;
-    let sourceConstrained = false;
-    let targetConstrained = false;
-
-    switch (mode) {
-      case 'custom':
-        // Use stored amount, cap by target need
-        effectiveAmount = Math.min(conn.amount, targetNeed);
-        targetConstrained = conn.amount > targetNeed;
-        break;
-      case 'max':
-      case 'auto':
-      default:
-        // Take what target needs (external supply is unlimited at this stage)
-        effectiveAmount = targetNeed;
-        break;
-    }
-
-    moduleConnectionComputeds.push({
-      connectionId: conn.id,
-      effectiveAmount,
-      sourceConstrained,
-      targetConstrained,
-    });
-
-    // Update remaining input for target
-    if (targetRemaining) {
-      targetRemaining.set(conn.wareId, targetNeed - effectiveAmount);
-    }
-
-    // NOTE: Station Input connections do NOT satisfy modules directly
-    // The actual satisfaction comes from inter-station connections (computed in computeNetwork)
-  }
-
-  // Process Station Output connections (with mode support)
-  for (const conn of stationOutputConnections) {
-    const mode = conn.mode ?? 'auto';
-
-    // Source is a module's output, target is external (no limit)
-    const sourceRemaining = moduleRemainingOutput.get(conn.sourceModuleId);
-    const sourceAvailable = sourceRemaining?.get(conn.wareId) ?? 0;
-
-    let effectiveAmount: number;
-    let sourceConstrained = false;
-    let targetConstrained = false;
-
-    switch (mode) {
-      case 'custom':
-        // Use stored amount, cap by source available
-        effectiveAmount = Math.min(conn.amount, sourceAvailable);
-        sourceConstrained = conn.amount > sourceAvailable;
-        break;
-      case 'max':
-      case 'auto':
-      default:
-        // Export all available
-        effectiveAmount = sourceAvailable;
-        break;
-    }
-
-    moduleConnectionComputeds.push({
-      connectionId: conn.id,
-      effectiveAmount,
-      sourceConstrained,
-      targetConstrained,
-    });
+  });
 
-    // Update remaining output for source
-    if (sourceRemaining) {
-      sourceRemaining.set(conn.wareId, sourceAvailable - effectiveAmount);
-    }
+  // Station Input connections only reserve the target module's remaining need.
+  // NOTE: They do NOT satisfy modules directly; the actual satisfaction comes
+  // from inter-station connections (computed in computeNetwork)
+  allocateGroup(stationInputConnections);
 
-    // NOTE: Station Output connections do NOT consume module outputs directly
-    // The actual consumption comes from inter-station connections (computed in computeNetwork)
-  }
+  // Station Output connections only reserve the source module's remaining output.
+  // NOTE: They do NOT consume module outputs directly; the actual consumption
+  // comes from inter-station connections (computed in computeNetwork)
+  allocateGroup(stationOutputConnections);
 
   // Calculate net I/O for each module (after connections)
   for (const mc of moduleComputeds) {
@@ -410,14 +338,19 @@ export function computeStation(
     }
   }
 
+  // Value everything the station sells and buys at the plan's prices
+  const tradeValue = computeTradeValue(netOutputs, netInputs, gameData, pricing);
+
+  // Check how long storage buffers everything the station trades
+  const storage = computeStationStorage(station, netInputs, netOutputs, gameData);
+
   return {
     stationId: station.id,
     effectiveSunlight,
     totalWorkforceRequired,
     totalWorkforceCapacity,
     actualPopulation: workforceStats.actualPopulation,
-    workforceFoodDemand: workforceStats.foodDemand,
-    workforceMedicalDemand: workforceStats.medicalDemand,
+    workforceUpkeep: workforceStats.upkeep,
     modules: moduleComputeds,
     grossInputs,
     grossOutputs,
@@ -434,5 +367,7 @@ export function computeStation(
     remainingOutputs: [...stationOutputs],
     // Computed effective amounts for all module connections
     moduleConnections: moduleConnectionComputeds,
+    ...tradeValue,
+    storage,
   };
 }
@@ -0,0 +1,157 @@
+/**
+ * Circular supply chains.
+ *
+ * Finds loops in the station connection graph (strongly connected components,
+ * Tarjan's algorithm) and works out how fast a station can produce given the
+ * imports it actually receives. Stations in a loop depend on each other's
+ * output, so computeNetwork repeats the allocation until these production
+ * rates stop changing.
+ *
+ * All amounts are per-hour (3600 seconds).
+ */
+
+import type { ModuleComputed, NetworkCycle, PlanConnection, StationComputed } from '@/types';
+
+/**
+ * Find the loops in the station connection graph.
+ * Mining sources and markets are outside ends and never part of a loop.
+ */
+export function findNetworkCycles(
+  stationIds: string[],
+  connections: PlanConnection[]
+): NetworkCycle[] {
+  const isStation = new Set(stationIds);
+  const successors = new Map<string, string[]>(stationIds.map((id) => [id, []]));
+  for (const conn of connections) {
+    if (isStation.has(conn.sourceStationId) && isStation.has(conn.targetStationId)) {
+      successors.get(conn.sourceStationId)!.push(conn.targetStationId);
+    }
+  }
+
+  // Tarjan's strongly connected components
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (id: string) => {
+    index.set(id, nextIndex);
+    lowLink.set(id, nextIndex);
+    nextIndex++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id)!) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of stationIds) {
+    if (!index.has(id)) visit(id);
+  }
+
+  // A component is a loop if it has several stations or a station supplies itself
+  const cycles: NetworkCycle[] = [];
+  for (const component of components) {
+    const members = new Set(component);
+    const connectionIds = connections
+      .filter((c) => members.has(c.sourceStationId) && members.has(c.targetStationId))
+      .map((c) => c.id);
+    if (component.length > 1 || connectionIds.length > 0) {
+      cycles.push({
+        stationIds: stationIds.filter((id) => members.has(id)),
+        connectionIds,
+      });
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Get the fraction (0-1) of full speed each module of a station runs at.
+ *
+ * Only imports that are wired to a connection hold production back; an
+ * import with no connection is assumed to be bought elsewhere. Each module
+ * runs at the rate of its scarcest input.
+ */
+export function computeModuleRates(
+  sc: StationComputed,
+  supplied: Map<string, number>,
+  connectedWares: Set<string>
+): Map<string, number> {
+  // Share of each input ware's total need that is actually met
+  const inputRatio = new Map<string, number>();
+  for (const input of sc.stationInputs) {
+    if (!connectedWares.has(input.wareId)) continue;
+    const shortfall = Math.max(input.amount - (supplied.get(input.wareId) ?? 0), 0);
+    const totalNeed = sc.grossInputs.find((i) => i.wareId === input.wareId)?.amount ?? input.amount;
+    if (totalNeed > 0) {
+      inputRatio.set(input.wareId, Math.max(1 - shortfall / totalNeed, 0));
+    }
+  }
+
+  const rates = new Map<string, number>();
+  for (const module of sc.modules) {
+    rates.set(
+      module.moduleId,
+      module.grossInputs.reduce((min, input) => Math.min(min, inputRatio.get(input.wareId) ?? 1), 1)
+    );
+  }
+  return rates;
+}
+
+/**
+ * Get the fraction (0-1) of each ware that modules running at the given
+ * rates produce ('grossOutputs') or use up ('grossInputs'): the weighted
+ * average over the modules producing or using it.
+ */
+export function getWareFactors(
+  modules: ModuleComputed[],
+  moduleRates: Map<string, number>,
+  side: 'grossInputs' | 'grossOutputs'
+): Map<string, number> {
+  const actual = new Map<string, number>();
+  const full = new Map<string, number>();
+  for (const module of modules) {
+    const rate = moduleRates.get(module.moduleId) ?? 1;
+    for (const item of module[side]) {
+      actual.set(item.wareId, (actual.get(item.wareId) ?? 0) + item.amount * rate);
+      full.set(item.wareId, (full.get(item.wareId) ?? 0) + item.amount);
+    }
+  }
+
+  const factors = new Map<string, number>();
+  for (const [wareId, amount] of full) {
+    factors.set(wareId, amount > 0 ? actual.get(wareId)! / amount : 1);
+  }
+  return factors;
+}
+
+/**
+ * Get the fraction (0-1) of each output ware a station can produce.
+ */
+export function computeOutputFactors(
+  sc: StationComputed,
+  supplied: Map<string, number>,
+  connectedWares: Set<string>
+): Map<string, number> {
+  return getWareFactors(sc.modules, computeModuleRates(sc, supplied, connectedWares), 'grossOutputs');
+}
@@ -0,0 +1,69 @@
+/**
+ * Trade value calculation.
+ *
+ * Values outputs (sold) and inputs (bought) at the plan's price profile:
+ * a custom per-ware price if set, otherwise the ware's min/avg/max price.
+ *
+ * All values are credits per hour (3600 seconds).
+ */
+
+import type { GameData, PlanPricing, ResourceAmount } from '@/types';
+
+export const DEFAULT_PRICING: PlanPricing = { level: 'avg', overrides: {} };
+
+export interface TradeValue {
+  revenue: number;
+  inputCost: number;
+  profit: number;
+  unpricedWares: string[];
+}
+
+/**
+ * Get the price of one unit of a ware, or null if it has no known price.
+ */
+export function getWarePrice(
+  wareId: string,
+  gameData: GameData,
+  pricing: PlanPricing = DEFAULT_PRICING
+): number | null {
+  const override = pricing.overrides[wareId];
+  if (override !== undefined) return override;
+
+  const price = gameData.wares[wareId]?.price;
+  return price ? price[pricing.level] : null;
+}
+
+/**
+ * Value a set of sold outputs and bought inputs.
+ */
+export function computeTradeValue(
+  outputs: ResourceAmount[],
+  inputs: ResourceAmount[],
+  gameData: GameData,
+  pricing: PlanPricing = DEFAULT_PRICING
+): TradeValue {
+  const unpriced = new Set<string>();
+
+  const value = (items: ResourceAmount[]) => {
+    let total = 0;
+    for (const item of items) {
+      const price = getWarePrice(item.wareId, gameData, pricing);
+      if (price === null) {
+        unpriced.add(item.wareId);
+        continue;
+      }
+      total += item.amount * price;
+    }
+    return total;
+  };
+
+  const revenue = value(outputs);
+  const inputCost = value(inputs);
+
+  return {
+    revenue,
+    inputCost,
+    profit: revenue - inputCost,
+    unpricedWares: [...unpriced].sort(),
+  };
+}
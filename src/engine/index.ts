@@ -4,11 +4,110 @@ export {
   calculateWorkforceStats,
   getWorkforceMultiplier,
   getWorkforceUpkeep,
+  getRaceWorkforce,
+  getHabitatCapacities,
+  DEFAULT_RACE_WORKFORCE,
   HOUR_IN_SECONDS,
+  type HabitatCapacity,
+  type RaceWorkforceStats,
   type WorkforceStats,
 } from './workforce';
 export { computeStation } from './computeStation';
-export { computeModuleIO, findRecipeForModule, getModuleType } from './computeModule';
+export {
+  computeTradeValue,
+  getWarePrice,
+  DEFAULT_PRICING,
+  type TradeValue,
+} from './economics';
+export { computeStationStorage } from './storage';
+export {
+  computeStationBuildCost,
+  computePlanBuildCost,
+  getBuildCostValue,
+  getPaybackHours,
+  hasBuildCostData,
+  type BuildCostTotals,
+  type StationBuildCost,
+  type PlanBuildCost,
+} from './buildCost';
+export {
+  computeModuleIO,
+  findRecipeForModule,
+  getRecipesForWare,
+  findProducerModules,
+  getDefaultProducerModule,
+  getModuleType,
+} from './computeModule';
+export {
+  solveStation,
+  type SolverOptions,
+  type SolvedModule,
+  type SolvedFlow,
+  type StationSolution,
+} from './solveStation';
+export { solveLinearProgram, type LinearProgram, type LinearConstraint } from './simplex';
+export {
+  optimizeNetwork,
+  getDefaultExportTargets,
+  type OptimizationObjective,
+  type ExportTarget,
+  type NetworkOptimizerOptions,
+  type ModuleCountChange,
+  type StationResourceAmount,
+  type NetworkOptimization,
+  type NetworkOptimizationStatus,
+} from './optimizeNetwork';
+export {
+  getTravelMinutes,
+  getShipThroughput,
+  getTransportThroughput,
+  getRequiredShips,
+  DEFAULT_TRANSPORT,
+  SHIP_CLASS_CARGO,
+  SHIP_CLASS_LABELS,
+} from './logistics';
+export {
+  findGameSector,
+  getSectorRawWares,
+  getUnknownSectorResources,
+  getDefaultMiningYield,
+  computeMiningSource,
+} from './mining';
+export {
+  getMarketWarePrice,
+  createMarketComputed,
+  getMarketTrade,
+  computeMarketTradeValue,
+} from './markets';
+export { findNetworkCycles, computeOutputFactors, computeModuleRates, getWareFactors } from './cycles';
+export {
+  getRecipeRates,
+  getConsumerRecipes,
+  buildSupplyTree,
+  flattenSupplyTree,
+  getWareTiers,
+  type RecipeRates,
+  type SupplyTreeNode,
+  type SupplyChain,
+  type SupplyChainWare,
+  type SupplyChainLink,
+} from './supplyChain';
+export {
+  allocateFlows,
+  getConnectionCap,
+  DEFAULT_CONNECTION_SHARE,
+  type FlowRequest,
+  type FlowAllocation,
+} from './allocate';
+export {
+  simulatePlan,
+  type SimulationOptions,
+  type SimulationResult,
+  type StationSimulation,
+  type WareSeries,
+  type StallPeriod,
+  type StallReason,
+} from './simulate';
 export {
   computeNetwork,
   getStationComputed,
@@ -17,4 +116,6 @@ export {
   getStationDeficitCount,
   getModuleComputed,
   getConnectionComputed,
+  getMiningSourceComputed,
+  getMarketComputed,
 } from './computeNetwork';
@@ -0,0 +1,78 @@
+/**
+ * Trade ship logistics.
+ *
+ * Estimates how much a route's freighters can haul per hour: each ship
+ * makes round trips (travel there, dock, travel back, dock) and carries as
+ * many whole units as fit in its hold by ware volume.
+ *
+ * All amounts are per-hour (3600 seconds).
+ */
+
+import type { ConnectionTransport, ShipClass, Ware } from '@/types';
+
+// Typical cargo hold per freighter class, in cubic metres
+export const SHIP_CLASS_CARGO: Record<ShipClass, number> = {
+  s: 2000,
+  m: 8000,
+  l: 32000,
+};
+
+export const SHIP_CLASS_LABELS: Record<ShipClass, string> = {
+  s: 'S Courier',
+  m: 'M Transporter',
+  l: 'L Freighter',
+};
+
+// Travel time estimate when no explicit time is set
+const MINUTES_IN_SECTOR = 3;
+const MINUTES_PER_JUMP = 5;
+
+// Time spent docked at each end of the route (loading or unloading)
+const MINUTES_DOCKED = 2;
+
+export const DEFAULT_TRANSPORT: ConnectionTransport = {
+  shipClass: 'm',
+  cargoCapacity: SHIP_CLASS_CARGO.m,
+  ships: 1,
+  jumps: 0,
+};
+
+/**
+ * One-way travel time in minutes, from the explicit time or the jump count.
+ */
+export function getTravelMinutes(transport: ConnectionTransport): number {
+  if (transport.travelMinutes !== undefined && transport.travelMinutes > 0) {
+    return transport.travelMinutes;
+  }
+  return MINUTES_IN_SECTOR + Math.max(transport.jumps, 0) * MINUTES_PER_JUMP;
+}
+
+/**
+ * Units of a ware one ship delivers per hour.
+ */
+export function getShipThroughput(transport: ConnectionTransport, ware: Ware | undefined): number {
+  const volume = ware && ware.volume > 0 ? ware.volume : 1;
+  const unitsPerTrip = Math.floor(transport.cargoCapacity / volume);
+  const roundTripMinutes = 2 * (getTravelMinutes(transport) + MINUTES_DOCKED);
+  return unitsPerTrip * (60 / roundTripMinutes);
+}
+
+/**
+ * Units of a ware all ships on a route deliver per hour.
+ */
+export function getTransportThroughput(transport: ConnectionTransport, ware: Ware | undefined): number {
+  return getShipThroughput(transport, ware) * Math.max(transport.ships, 0);
+}
+
+/**
+ * Ships needed to haul an hourly amount (0 when nothing flows).
+ */
+export function getRequiredShips(
+  amount: number,
+  transport: ConnectionTransport,
+  ware: Ware | undefined
+): number {
+  if (amount <= 0) return 0;
+  const perShip = getShipThroughput(transport, ware);
+  return perShip > 0 ? Math.ceil(amount / perShip) : Infinity;
+}
@@ -0,0 +1,96 @@
+/**
+ * NPC markets.
+ *
+ * A market is a trade hub outside the network: it supplies wares to stations
+ * or takes their outputs, either without limit or up to a cap per ware.
+ * Trade with a market counts as trade with the outside world and is valued
+ * at the market's own price when set, otherwise at the plan's price profile.
+ *
+ * All amounts are per-hour (3600 seconds).
+ */
+
+import type {
+  GameData,
+  MarketComputed,
+  PlanMarket,
+  PlanMarketWare,
+  PlanPricing,
+  ResourceAmount,
+} from '@/types';
+import { getWarePrice, type TradeValue } from './economics';
+
+/**
+ * Get the price of one unit of a market ware, or null if it has no known price.
+ */
+export function getMarketWarePrice(
+  ware: PlanMarketWare,
+  gameData: GameData,
+  pricing?: PlanPricing
+): number | null {
+  return ware.price ?? getWarePrice(ware.wareId, gameData, pricing);
+}
+
+/**
+ * Get a market's wares before any connections trade with it.
+ */
+export function createMarketComputed(
+  market: PlanMarket,
+  gameData: GameData,
+  pricing?: PlanPricing
+): MarketComputed {
+  return {
+    marketId: market.id,
+    wares: market.wares.map((ware) => ({
+      wareId: ware.wareId,
+      kind: ware.kind,
+      limit: ware.limit ?? null,
+      traded: 0,
+      price: getMarketWarePrice(ware, gameData, pricing),
+    })),
+  };
+}
+
+/**
+ * Get the wares bought from (supply) or sold to (demand) markets.
+ */
+export function getMarketTrade(
+  markets: MarketComputed[],
+  kind: PlanMarketWare['kind']
+): ResourceAmount[] {
+  return markets.flatMap((market) =>
+    market.wares
+      .filter((ware) => ware.kind === kind && ware.traded > 0)
+      .map((ware) => ({ wareId: ware.wareId, amount: ware.traded }))
+  );
+}
+
+/**
+ * Value everything traded with markets.
+ */
+export function computeMarketTradeValue(markets: MarketComputed[]): TradeValue {
+  const unpriced = new Set<string>();
+  let revenue = 0;
+  let inputCost = 0;
+
+  for (const market of markets) {
+    for (const ware of market.wares) {
+      if (ware.traded <= 0) continue;
+      if (ware.price === null) {
+        unpriced.add(ware.wareId);
+        continue;
+      }
+      if (ware.kind === 'demand') {
+        revenue += ware.traded * ware.price;
+      } else {
+        inputCost += ware.traded * ware.price;
+      }
+    }
+  }
+
+  return {
+    revenue,
+    inputCost,
+    profit: revenue - inputCost,
+    unpricedWares: [...unpriced].sort(),
+  };
+}
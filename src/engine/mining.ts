@@ -0,0 +1,103 @@
+/**
+ * Mining sources.
+ *
+ * Miners gather raw wares from the resources of the sector they work in.
+ * Plan sectors are matched to game sectors by name; resource keys map to
+ * the ware with the same id (see RESOURCE_WARE_IDS for the exceptions), if
+ * the dataset has one.
+ *
+ * All amounts are per-hour (3600 seconds).
+ */
+
+import type { GameData, MiningSourceComputed, PlanMiningSource, PlanSector, Sector } from '@/types';
+import { SHIP_CLASS_CARGO } from './logistics';
+
+// Default miner: an M miner completing this many full trips per hour
+const DEFAULT_MINER_CARGO = SHIP_CLASS_CARGO.m;
+const DEFAULT_TRIPS_PER_HOUR = 2;
+
+// Sector resource keys spelled differently from their ware IDs
+const RESOURCE_WARE_IDS: Record<string, string> = {
+  rawScrap: 'rawscrap',
+};
+
+/**
+ * Find the game sector a plan sector stands for.
+ */
+export function findGameSector(
+  sector: PlanSector | null | undefined,
+  gameData: GameData
+): Sector | undefined {
+  if (!sector) return undefined;
+  return Object.values(gameData.sectors).find((s) => s.name === sector.name);
+}
+
+/**
+ * Get the ware ID a sector resource key stands for.
+ */
+function getResourceWareId(resource: string): string {
+  return RESOURCE_WARE_IDS[resource] ?? resource.toLowerCase();
+}
+
+/** Ware IDs of the resources a plan sector has, whether the data set knows them or not */
+function getSectorResourceWareIds(sector: PlanSector | null | undefined, gameData: GameData): string[] {
+  const gameSector = findGameSector(sector, gameData);
+  if (!gameSector) return [];
+  return Object.entries(gameSector.resources)
+    .filter(([, present]) => present)
+    .map(([resource]) => getResourceWareId(resource));
+}
+
+/**
+ * Get the raw wares a plan sector's resources offer, in resource order.
+ */
+export function getSectorRawWares(
+  sector: PlanSector | null | undefined,
+  gameData: GameData
+): string[] {
+  return getSectorResourceWareIds(sector, gameData).filter((wareId) => gameData.wares[wareId] !== undefined);
+}
+
+/**
+ * Get a plan sector's resources that match no ware in the data set (they
+ * can't be mined, so the UI warns about them).
+ */
+export function getUnknownSectorResources(
+  sector: PlanSector | null | undefined,
+  gameData: GameData
+): string[] {
+  return getSectorResourceWareIds(sector, gameData).filter((wareId) => gameData.wares[wareId] === undefined);
+}
+
+/**
+ * Default units per hour one miner gathers of a ware.
+ */
+export function getDefaultMiningYield(wareId: string, gameData: GameData): number {
+  const volume = gameData.wares[wareId]?.volume ?? 0;
+  const perTrip = volume > 0 ? Math.floor(DEFAULT_MINER_CARGO / volume) : DEFAULT_MINER_CARGO;
+  return perTrip * DEFAULT_TRIPS_PER_HOUR;
+}
+
+/**
+ * Compute a mining source's output before any connections draw from it.
+ */
+export function computeMiningSource(
+  source: PlanMiningSource,
+  sectors: PlanSector[],
+  gameData: GameData
+): MiningSourceComputed {
+  const sector = sectors.find((s) => s.id === source.sectorId);
+  const available = getSectorRawWares(sector, gameData).includes(source.wareId);
+  const output = available
+    ? Math.max(source.miners, 0) * Math.max(source.yieldPerMiner, 0)
+    : 0;
+
+  return {
+    sourceId: source.id,
+    wareId: source.wareId,
+    available,
+    output,
+    consumed: 0,
+    remaining: output,
+  };
+}
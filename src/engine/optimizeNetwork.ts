@@ -0,0 +1,584 @@
+/**
+ * Whole-network module allocation optimizer.
+ *
+ * Decides how many of each production module to place in which station so
+ * that every station's demand and every export target is met, while
+ * minimizing total module count or workforce. Uses the same station-level
+ * model as computeNetwork: wares move between stations only over existing
+ * PlanConnections, and raw resources (wares no module produces) are
+ * brought in from outside the network or from connected mining sources.
+ * Connected markets supply or take their wares, up to their limits.
+ *
+ * Module counts are solved as a linear program and then rounded up
+ * iteratively so that every count is a whole number.
+ *
+ * All amounts are per-hour (3600 seconds) rates.
+ */
+
+import type {
+  GameData,
+  NetworkComputed,
+  Plan,
+  PlanModule,
+  PlanStation,
+  ResourceAmount,
+} from '@/types';
+import { calculateWorkforceStats, getHabitatCapacities } from './workforce';
+import { getTransportThroughput } from './logistics';
+import { computeMiningSource } from './mining';
+import {
+  computeModuleIO,
+  findProducerModules,
+  getDefaultProducerModule,
+  getModuleType,
+} from './computeModule';
+import { computeStation } from './computeStation';
+import { solveLinearProgram, type LinearConstraint } from './simplex';
+
+// Tolerance when rounding module counts (avoids 3.0000001 -> 4)
+const COUNT_EPSILON = 1e-6;
+
+// Upper bound on LP re-solves while rounding module counts up
+const MAX_ROUNDING_PASSES = 25;
+
+// Largest dense simplex tableau (rows x columns) attempted, about 40 MB
+const MAX_TABLEAU_CELLS = 5_000_000;
+
+// Tiny costs so the solver prefers local production and fewer imports
+const FLOW_COST = 1e-6;
+const IMPORT_COST = 1e-6;
+
+// Per-unit penalty for demand the network cannot meet at all
+const UNMET_COST = 1000;
+
+// Tie-breaker so workforce-free modules are not placed for nothing
+const WORKFORCE_MODULE_COST = 1e-3;
+
+export type OptimizationObjective = 'modules' | 'workforce';
+
+/** A fixed amount of a ware that must leave the network from a station */
+export interface ExportTarget {
+  stationId: string;
+  wareId: string;
+  amount: number;
+}
+
+export interface NetworkOptimizerOptions {
+  targets: ExportTarget[];
+  /** Stations whose production modules may change; all others stay as they are */
+  stationIds: string[];
+  objective: OptimizationObjective;
+  /** Never reduce existing module counts */
+  keepExisting: boolean;
+}
+
+export interface ModuleCountChange {
+  stationId: string;
+  blueprintId: string;
+  wareId: string;
+  currentCount: number;
+  proposedCount: number;
+}
+
+/** A ware amount at a specific station */
+export interface StationResourceAmount extends ResourceAmount {
+  stationId: string;
+}
+
+/**
+ * 'failed': no solution exists; 'iteration-limit': the solver gave up before
+ * finding one; 'too-large': the problem was too big to attempt.
+ */
+export type NetworkOptimizationStatus = 'optimal' | 'failed' | 'iteration-limit' | 'too-large';
+
+export interface NetworkOptimization {
+  status: NetworkOptimizationStatus;
+  changes: ModuleCountChange[];
+  /** Planned flow over each inter-station connection */
+  connectionFlows: { connectionId: string; amount: number }[];
+  /** Raw resources each station still has to bring in from outside the network */
+  externalSupplies: StationResourceAmount[];
+  /** Demand no selected station or connection can satisfy */
+  unmet: StationResourceAmount[];
+  moduleTotals: { before: number; after: number };
+  workforceTotals: { before: number; after: number };
+}
+
+/**
+ * Default export targets: whatever currently leaves the network
+ * (station outputs not consumed by inter-station connections).
+ */
+export function getDefaultExportTargets(computed: NetworkComputed): ExportTarget[] {
+  const targets: ExportTarget[] = [];
+  for (const sc of computed.stations) {
+    for (const output of sc.remainingOutputs) {
+      if (output.amount > 0.01) {
+        targets.push({ stationId: sc.stationId, wareId: output.wareId, amount: output.amount });
+      }
+    }
+  }
+  return targets;
+}
+
+interface StationModel {
+  station: PlanStation;
+  selected: boolean;
+  sunlight: number;
+  workerRatio: number;
+  /** Current count per production blueprint */
+  currentCounts: Map<string, number>;
+  /** Explicit recipe choice per production blueprint */
+  recipeIds: Map<string, string>;
+  /** Fixed supply/demand that does not depend on the optimized counts */
+  fixedSupply: Map<string, number>;
+  fixedDemand: Map<string, number>;
+}
+
+interface UnitIO {
+  outputs: ResourceAmount[];
+  inputs: ResourceAmount[];
+}
+
+interface Variable {
+  kind: 'module' | 'flow' | 'import' | 'unmet';
+  stationId: string;
+  /** Blueprint for module variables, connection ID for flows, ware for import/unmet */
+  key: string;
+  cost: number;
+  lowerBound: number;
+}
+
+/**
+ * Optimize production module counts across the plan.
+ */
+export function optimizeNetwork(
+  plan: Plan,
+  gameData: GameData,
+  options: NetworkOptimizerOptions
+): NetworkOptimization {
+  const selectedIds = new Set(options.stationIds);
+
+  // --- Station models -----------------------------------------------------
+  const models = plan.stations.map((station) =>
+    buildStationModel(station, plan, gameData, selectedIds.has(station.id))
+  );
+
+  // --- Wares involved -----------------------------------------------------
+  const wares = new Set<string>();
+  for (const target of options.targets) wares.add(target.wareId);
+  for (const conn of plan.connections) wares.add(conn.wareId);
+  for (const model of models) {
+    for (const wareId of model.fixedDemand.keys()) wares.add(wareId);
+    for (const wareId of model.fixedSupply.keys()) wares.add(wareId);
+    for (const blueprintId of model.currentCounts.keys()) {
+      const module = gameData.modules.production[blueprintId];
+      if (module) wares.add(module.producedWareId);
+    }
+  }
+
+  // Candidate producers per ware: default producer plus any blueprint already in use
+  const usedBlueprints = new Set(models.flatMap((m) => [...m.currentCounts.keys()]));
+  const candidates = new Map<string, string[]>();
+  const candidateInputs = new Set<string>();
+  const queue = [...wares];
+  while (queue.length > 0) {
+    const wareId = queue.pop()!;
+    if (candidates.has(wareId)) continue;
+
+    const blueprints = findProducerModules(wareId, gameData)
+      .filter((m) => usedBlueprints.has(m.id))
+      .map((m) => m.id);
+    const fallback = getDefaultProducerModule(wareId, gameData);
+    if (fallback && !blueprints.includes(fallback.id)) blueprints.push(fallback.id);
+    candidates.set(wareId, blueprints.sort());
+    wares.add(wareId);
+
+    // Inputs of any candidate join the model too
+    for (const blueprintId of blueprints) {
+      const io = computeModuleIO(unitModule(blueprintId), gameData, 100, 0);
+      for (const input of io.grossInputs) {
+        candidateInputs.add(input.wareId);
+        if (!candidates.has(input.wareId)) queue.push(input.wareId);
+      }
+    }
+  }
+
+  const isRaw = (wareId: string) => (candidates.get(wareId) ?? []).length === 0;
+
+  // Per-station unit I/O (sunlight and workforce differ between stations)
+  const unitCache = new Map<string, UnitIO>();
+  const getUnitIO = (model: StationModel, blueprintId: string): UnitIO => {
+    const key = `${model.station.id}:${blueprintId}`;
+    let unit = unitCache.get(key);
+    if (!unit) {
+      const io = computeModuleIO(
+        unitModule(blueprintId, model.recipeIds.get(blueprintId)),
+        gameData,
+        model.sunlight,
+        model.workerRatio
+      );
+      unit = { outputs: io.grossOutputs, inputs: io.grossInputs };
+      unitCache.set(key, unit);
+    }
+    return unit;
+  };
+
+  // --- Variables ----------------------------------------------------------
+  const variables: Variable[] = [];
+
+  for (const model of models) {
+    if (!model.selected) continue;
+    const blueprints = new Set<string>(model.currentCounts.keys());
+    for (const list of candidates.values()) list.forEach((b) => blueprints.add(b));
+
+    for (const blueprintId of [...blueprints].sort()) {
+      const module = gameData.modules.production[blueprintId];
+      if (!module) continue;
+      const current = model.currentCounts.get(blueprintId) ?? 0;
+      variables.push({
+        kind: 'module',
+        stationId: model.station.id,
+        key: blueprintId,
+        cost:
+          options.objective === 'workforce'
+            ? module.workforceMax + WORKFORCE_MODULE_COST
+            : 1,
+        lowerBound: options.keepExisting ? current : 0,
+      });
+    }
+  }
+
+  for (const conn of plan.connections) {
+    variables.push({
+      kind: 'flow',
+      stationId: conn.sourceStationId,
+      key: conn.id,
+      cost: FLOW_COST,
+      lowerBound: 0,
+    });
+  }
+
+  // --- Constraints --------------------------------------------------------
+  const targetAmounts = new Map<string, number>();
+  for (const target of options.targets) {
+    const key = `${target.stationId}:${target.wareId}`;
+    targetAmounts.set(key, (targetAmounts.get(key) ?? 0) + target.amount);
+  }
+
+  const connectionsById = new Map(plan.connections.map((c) => [c.id, c]));
+
+  // Balance rows: supply - demand >= fixed demand + target - fixed supply
+  const rowIndex = new Map<string, number>();
+  const rows: { coefficients: Map<number, number>; rhs: number }[] = [];
+  for (const model of models) {
+    for (const wareId of wares) {
+      const key = `${model.station.id}:${wareId}`;
+      rowIndex.set(key, rows.length);
+      rows.push({
+        coefficients: new Map(),
+        rhs:
+          (model.fixedDemand.get(wareId) ?? 0) +
+          (targetAmounts.get(key) ?? 0) -
+          (model.fixedSupply.get(wareId) ?? 0),
+      });
+    }
+  }
+
+  // Mining sources can hand out at most what their miners gather
+  for (const source of plan.miningSources ?? []) {
+    const mining = computeMiningSource(source, plan.sectors, gameData);
+    rowIndex.set(`${source.id}:${source.wareId}`, rows.length);
+    rows.push({ coefficients: new Map(), rhs: -mining.output });
+  }
+
+  // Raw resources may be imported wherever they are needed; other demand that
+  // a station cannot produce itself is allowed to go unmet at a high cost
+  for (const model of models) {
+    for (const wareId of wares) {
+      const rhs = rows[rowIndex.get(`${model.station.id}:${wareId}`)!].rhs;
+      const raw = isRaw(wareId);
+      const needed = raw
+        ? rhs > 0 || (model.selected && candidateInputs.has(wareId))
+        : rhs > 0 && !model.selected;
+      if (!needed) continue;
+
+      variables.push({
+        kind: raw ? 'import' : 'unmet',
+        stationId: model.station.id,
+        key: wareId,
+        cost: raw ? IMPORT_COST : UNMET_COST,
+        lowerBound: 0,
+      });
+    }
+  }
+
+  const addCoefficient = (stationId: string, wareId: string, varIndex: number, value: number) => {
+    const index = rowIndex.get(`${stationId}:${wareId}`);
+    if (index === undefined || value === 0) return;
+    const coefficients = rows[index].coefficients;
+    coefficients.set(varIndex, (coefficients.get(varIndex) ?? 0) + value);
+  };
+
+  const modelsById = new Map(models.map((m) => [m.station.id, m]));
+  const upperBounds: { varIndex: number; bound: number }[] = [];
+
+  variables.forEach((variable, varIndex) => {
+    switch (variable.kind) {
+      case 'module': {
+        const unit = getUnitIO(modelsById.get(variable.stationId)!, variable.key);
+        for (const output of unit.outputs) {
+          addCoefficient(variable.stationId, output.wareId, varIndex, output.amount);
+        }
+        for (const input of unit.inputs) {
+          addCoefficient(variable.stationId, input.wareId, varIndex, -input.amount);
+        }
+        break;
+      }
+      case 'flow': {
+        const conn = connectionsById.get(variable.key)!;
+        addCoefficient(conn.sourceStationId, conn.wareId, varIndex, -1);
+        addCoefficient(conn.targetStationId, conn.wareId, varIndex, 1);
+        if ((conn.mode ?? 'auto') === 'custom') {
+          upperBounds.push({ varIndex, bound: conn.amount });
+        }
+        if (conn.transport) {
+          const throughput = getTransportThroughput(conn.transport, gameData.wares[conn.wareId]);
+          upperBounds.push({ varIndex, bound: throughput });
+        }
+        break;
+      }
+      case 'import':
+      case 'unmet':
+        addCoefficient(variable.stationId, variable.key, varIndex, 1);
+        break;
+    }
+  });
+
+  // Capped market wares limit the total flow through them
+  for (const market of plan.markets ?? []) {
+    for (const ware of market.wares) {
+      if (ware.limit === undefined) continue;
+      const coefficients = new Map<number, number>();
+      variables.forEach((variable, varIndex) => {
+        if (variable.kind !== 'flow') return;
+        const conn = connectionsById.get(variable.key)!;
+        const end = ware.kind === 'supply' ? conn.sourceStationId : conn.targetStationId;
+        if (end === market.id && conn.wareId === ware.wareId) coefficients.set(varIndex, -1);
+      });
+      if (coefficients.size > 0) rows.push({ coefficients, rhs: -ware.limit });
+    }
+  }
+
+  // --- Solve with iterative rounding -----------------------------------------
+  const lowerBounds = variables.map((v) => v.lowerBound);
+  let values: number[] | null = null;
+  let failure: NetworkOptimizationStatus = 'failed';
+
+  for (let pass = 0; pass < MAX_ROUNDING_PASSES; pass++) {
+    const constraints: LinearConstraint[] = [];
+
+    for (const row of rows) {
+      let rhs = row.rhs;
+      let onlySupply = true;
+      for (const [varIndex, value] of row.coefficients) {
+        // Shift x = lowerBound + y so the solver only sees y >= 0
+        rhs -= value * lowerBounds[varIndex];
+        if (value < 0) onlySupply = false;
+      }
+      // Rows that can never be violated only slow the solver down
+      if (rhs <= 0 && onlySupply) continue;
+
+      const coefficients = new Array<number>(variables.length).fill(0);
+      for (const [varIndex, value] of row.coefficients) coefficients[varIndex] = value;
+      constraints.push({ coefficients, rhs });
+    }
+
+    for (const { varIndex, bound } of upperBounds) {
+      const coefficients = new Array<number>(variables.length).fill(0);
+      coefficients[varIndex] = -1;
+      constraints.push({ coefficients, rhs: -(bound - lowerBounds[varIndex]) });
+    }
+
+    // Each constraint adds a row and two columns to the solver's dense tableau
+    const tableauCells = constraints.length * (variables.length + 2 * constraints.length + 1);
+    if (tableauCells > MAX_TABLEAU_CELLS) {
+      values = null;
+      failure = 'too-large';
+      break;
+    }
+
+    const result = solveLinearProgram({
+      objective: variables.map((v) => v.cost),
+      constraints,
+    });
+    if (result.status !== 'optimal') {
+      values = null;
+      if (result.status === 'iteration-limit') failure = 'iteration-limit';
+      break;
+    }
+
+    values = result.values.map((v, i) => v + lowerBounds[i]);
+
+    // Round fractional module counts up and re-solve until all are whole
+    let fractional = false;
+    variables.forEach((variable, varIndex) => {
+      if (variable.kind !== 'module') return;
+      const value = values![varIndex];
+      const rounded = Math.ceil(value - COUNT_EPSILON);
+      if (rounded - value > COUNT_EPSILON) {
+        lowerBounds[varIndex] = rounded;
+        fractional = true;
+      }
+    });
+    if (!fractional) break;
+  }
+
+  const before = countTotals(plan.stations, gameData);
+
+  if (!values) {
+    return {
+      status: failure,
+      changes: [],
+      connectionFlows: [],
+      externalSupplies: [],
+      unmet: [],
+      moduleTotals: { before: before.modules, after: before.modules },
+      workforceTotals: { before: before.workforce, after: before.workforce },
+    };
+  }
+
+  // --- Collect results ----------------------------------------------------
+  const changes: ModuleCountChange[] = [];
+  const connectionFlows: { connectionId: string; amount: number }[] = [];
+  const externalSupplies: StationResourceAmount[] = [];
+  const unmet: StationResourceAmount[] = [];
+  let afterModules = before.modules;
+  let afterWorkforce = before.workforce;
+
+  variables.forEach((variable, varIndex) => {
+    const value = values![varIndex];
+    switch (variable.kind) {
+      case 'module': {
+        const model = modelsById.get(variable.stationId)!;
+        const current = model.currentCounts.get(variable.key) ?? 0;
+        const proposed = Math.round(value);
+        if (proposed === current) return;
+
+        const module = gameData.modules.production[variable.key];
+        changes.push({
+          stationId: variable.stationId,
+          blueprintId: variable.key,
+          wareId: module.producedWareId,
+          currentCount: current,
+          proposedCount: proposed,
+        });
+        afterModules += proposed - current;
+        afterWorkforce += (proposed - current) * module.workforceMax;
+        break;
+      }
+      case 'flow':
+        connectionFlows.push({ connectionId: variable.key, amount: value });
+        break;
+      case 'import':
+        if (value > 0.01) {
+          externalSupplies.push({ stationId: variable.stationId, wareId: variable.key, amount: value });
+        }
+        break;
+      case 'unmet':
+        if (value > 0.01) {
+          unmet.push({ stationId: variable.stationId, wareId: variable.key, amount: value });
+        }
+        break;
+    }
+  });
+
+  return {
+    status: 'optimal',
+    changes,
+    connectionFlows,
+    externalSupplies: externalSupplies.sort((a, b) => b.amount - a.amount),
+    unmet: unmet.sort((a, b) => b.amount - a.amount),
+    moduleTotals: { before: before.modules, after: afterModules },
+    workforceTotals: { before: before.workforce, after: afterWorkforce },
+  };
+}
+
+function unitModule(blueprintId: string, recipeId?: string): PlanModule {
+  return { id: blueprintId, blueprintId, recipeId, count: 1, position: { x: 0, y: 0 } };
+}
+
+/**
+ * Build the fixed part of a station's balance.
+ * Selected stations keep only habitat upkeep fixed (production becomes variables);
+ * unselected stations contribute all of their module I/O as constants.
+ */
+function buildStationModel(
+  station: PlanStation,
+  plan: Plan,
+  gameData: GameData,
+  selected: boolean
+): StationModel {
+  const sc = computeStation(station, plan.sectors, gameData);
+  const stats = calculateWorkforceStats(
+    sc.totalWorkforceRequired,
+    getHabitatCapacities(station, gameData),
+    station.fillHabitats ?? false,
+    gameData.workforce
+  );
+
+  const currentCounts = new Map<string, number>();
+  const recipeIds = new Map<string, string>();
+  const fixedSupply = new Map<string, number>();
+  const fixedDemand = new Map<string, number>();
+  const add = (map: Map<string, number>, items: ResourceAmount[]) => {
+    for (const item of items) map.set(item.wareId, (map.get(item.wareId) ?? 0) + item.amount);
+  };
+
+  for (const planModule of station.modules) {
+    const moduleType = getModuleType(planModule.blueprintId, gameData);
+    const mc = sc.modules.find((m) => m.moduleId === planModule.id);
+    if (!mc) continue;
+
+    if (moduleType === 'production') {
+      currentCounts.set(
+        planModule.blueprintId,
+        (currentCounts.get(planModule.blueprintId) ?? 0) + planModule.count
+      );
+      if (planModule.recipeId && !recipeIds.has(planModule.blueprintId)) {
+        recipeIds.set(planModule.blueprintId, planModule.recipeId);
+      }
+      if (selected) continue;
+    }
+
+    add(fixedSupply, mc.grossOutputs);
+    add(fixedDemand, mc.grossInputs);
+  }
+
+  return {
+    station,
+    selected,
+    sunlight: sc.effectiveSunlight,
+    workerRatio: stats.workerRatio * stats.bonusMultiplier,
+    currentCounts,
+    recipeIds,
+    fixedSupply,
+    fixedDemand,
+  };
+}
+
+function countTotals(
+  stations: PlanStation[],
+  gameData: GameData
+): { modules: number; workforce: number } {
+  let modules = 0;
+  let workforce = 0;
+  for (const station of stations) {
+    for (const planModule of station.modules) {
+      const module = gameData.modules.production[planModule.blueprintId];
+      if (!module) continue;
+      modules += planModule.count;
+      workforce += module.workforceMax * planModule.count;
+    }
+  }
+  return { modules, workforce };
+}
@@ -0,0 +1,198 @@
+/**
+ * Dense two-phase simplex solver.
+ *
+ * Solves: minimize c·x subject to A·x >= b, x >= 0.
+ * Sized for planner networks (a few hundred rows and columns), so a dense
+ * tableau is simpler and fast enough.
+ */
+
+// Pivot/reduced-cost tolerance
+const EPSILON = 1e-9;
+
+// Relative tolerance for deciding a phase I solution is feasible
+const FEASIBILITY_TOLERANCE = 1e-7;
+
+// Safety limit on pivots per phase
+const MAX_PIVOTS = 20000;
+
+// Switch from Dantzig's rule to Bland's rule after this many degenerate pivots
+const DEGENERATE_PIVOT_LIMIT = 50;
+
+/** A single `coefficients · x >= rhs` constraint */
+export interface LinearConstraint {
+  coefficients: number[];
+  rhs: number;
+}
+
+export interface LinearProgram {
+  /** Cost per variable (minimized) */
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export type LinearProgramResult =
+  | { status: 'optimal'; values: number[]; objective: number }
+  | { status: 'infeasible' | 'unbounded' | 'iteration-limit' };
+
+type SimplexOutcome = 'optimal' | 'unbounded' | 'iteration-limit';
+
+/**
+ * Solve a linear program in the form: minimize c·x s.t. A·x >= b, x >= 0.
+ */
+export function solveLinearProgram(lp: LinearProgram): LinearProgramResult {
+  const n = lp.objective.length;
+  const m = lp.constraints.length;
+
+  // Columns: n structural, m surplus, m artificial, then the right-hand side
+  const cols = n + 2 * m;
+  const rhsCol = cols;
+
+  const rows: Float64Array[] = [];
+  const basis: number[] = [];
+  let rhsScale = 1;
+
+  for (let i = 0; i < m; i++) {
+    const { coefficients, rhs } = lp.constraints[i];
+    // Keep the right-hand side non-negative so artificials start feasible
+    const sign = rhs < 0 ? -1 : 1;
+    const row = new Float64Array(cols + 1);
+    for (let j = 0; j < n; j++) {
+      row[j] = sign * (coefficients[j] ?? 0);
+    }
+    row[n + i] = -sign;
+    row[n + m + i] = 1;
+    row[rhsCol] = sign * rhs;
+    rows.push(row);
+    basis.push(n + m + i);
+    rhsScale = Math.max(rhsScale, Math.abs(rhs));
+  }
+
+  // Phase I objective: minimize the sum of artificials (reduced against the basis)
+  const phase1 = new Float64Array(cols + 1);
+  for (const row of rows) {
+    for (let j = 0; j < n + m; j++) phase1[j] -= row[j];
+    phase1[rhsCol] -= row[rhsCol];
+  }
+
+  // Phase II objective: artificials are basic with zero cost, so no reduction needed
+  const phase2 = new Float64Array(cols + 1);
+  for (let j = 0; j < n; j++) phase2[j] = lp.objective[j];
+
+  const objectives = [phase1, phase2];
+
+  // Phase I is bounded below by zero, so only the pivot limit can stop it early
+  const phase1Outcome = runSimplex(rows, basis, objectives, phase1, cols);
+  if (phase1Outcome === 'iteration-limit') {
+    return { status: 'iteration-limit' };
+  }
+  if (phase1Outcome === 'unbounded' || -phase1[rhsCol] > FEASIBILITY_TOLERANCE * rhsScale) {
+    return { status: 'infeasible' };
+  }
+
+  // Drive remaining (zero-valued) artificials out of the basis where possible
+  for (let i = 0; i < m; i++) {
+    if (basis[i] < n + m) continue;
+    const row = rows[i];
+    for (let j = 0; j < n + m; j++) {
+      if (Math.abs(row[j]) > EPSILON) {
+        pivot(rows, basis, objectives, i, j);
+        break;
+      }
+    }
+  }
+
+  // Phase II over structural and surplus columns only
+  const phase2Outcome = runSimplex(rows, basis, [phase2], phase2, n + m);
+  if (phase2Outcome !== 'optimal') {
+    return { status: phase2Outcome };
+  }
+
+  const values = new Array<number>(n).fill(0);
+  for (let i = 0; i < m; i++) {
+    if (basis[i] < n) values[basis[i]] = Math.max(rows[i][rhsCol], 0);
+  }
+
+  const objective = values.reduce((sum, v, j) => sum + v * lp.objective[j], 0);
+  return { status: 'optimal', values, objective };
+}
+
+/**
+ * Pivot until the objective row has no improving column, the problem turns
+ * out unbounded or the pivot limit is hit.
+ */
+function runSimplex(
+  rows: Float64Array[],
+  basis: number[],
+  objectives: Float64Array[],
+  objective: Float64Array,
+  enterableCols: number
+): SimplexOutcome {
+  const rhsCol = objective.length - 1;
+  let degenerateStreak = 0;
+
+  for (let iteration = 0; iteration < MAX_PIVOTS; iteration++) {
+    const useBland = degenerateStreak > DEGENERATE_PIVOT_LIMIT;
+
+    // Entering column: most negative reduced cost (or first negative under Bland's rule)
+    let entering = -1;
+    let best = -EPSILON;
+    for (let j = 0; j < enterableCols; j++) {
+      if (objective[j] < best) {
+        entering = j;
+        if (useBland) break;
+        best = objective[j];
+      }
+    }
+    if (entering === -1) return 'optimal';
+
+    // Leaving row: minimum ratio test, ties broken by lowest basis index
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < rows.length; i++) {
+      const a = rows[i][entering];
+      if (a <= EPSILON) continue;
+      const ratio = rows[i][rhsCol] / a;
+      if (
+        ratio < bestRatio - EPSILON ||
+        (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])
+      ) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving === -1) return 'unbounded';
+
+    degenerateStreak = bestRatio <= EPSILON ? degenerateStreak + 1 : 0;
+    pivot(rows, basis, objectives, leaving, entering);
+  }
+
+  return 'iteration-limit';
+}
+
+function pivot(
+  rows: Float64Array[],
+  basis: number[],
+  objectives: Float64Array[],
+  pivotRow: number,
+  pivotCol: number
+): void {
+  const row = rows[pivotRow];
+  const width = row.length;
+  const factor = row[pivotCol];
+  for (let j = 0; j < width; j++) row[j] /= factor;
+
+  const eliminate = (target: Float64Array) => {
+    const multiplier = target[pivotCol];
+    if (multiplier === 0) return;
+    for (let j = 0; j < width; j++) {
+      if (row[j] !== 0) target[j] -= multiplier * row[j];
+    }
+  };
+
+  for (let i = 0; i < rows.length; i++) {
+    if (i !== pivotRow) eliminate(rows[i]);
+  }
+  for (const objective of objectives) eliminate(objective);
+
+  basis[pivotRow] = pivotCol;
+}
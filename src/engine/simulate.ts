@@ -0,0 +1,437 @@
+/**
+ * Time-stepped stockpile simulation.
+ *
+ * Steps a plan forward in fixed time steps instead of using steady-state
+ * hourly rates. Production modules run discrete cycles (Recipe.time): a cycle
+ * starts only when its inputs are in stock and there is room for its outputs,
+ * inputs are taken at the start and outputs are delivered at the end.
+ * All modules of a station share one stockpile, limited by its storage modules.
+ *
+ * Inter-station connections move wares at their steady-state rate, limited by
+ * what the source has in stock and what the target has room for; mining
+ * sources and markets trade at their rate without a stockpile of their own.
+ * Wares that no connection supplies or takes can be traded with the outside
+ * market at their steady-state rates. Workforce bonuses stay at their steady-state values.
+ */
+
+import type { GameData, NetworkComputed, Plan, ResourceAmount } from '@/types';
+import { HOUR_IN_SECONDS } from './workforce';
+import { computeNetwork } from './computeNetwork';
+import { findRecipeForModule, getModuleType } from './computeModule';
+import { getWareStorageLimits } from './storage';
+
+// Default step length
+const DEFAULT_STEP_SECONDS = 60;
+
+// Default number of points kept per chart series
+const DEFAULT_MAX_SAMPLES = 240;
+
+// Ignore floating point leftovers when comparing stock
+const STOCK_EPSILON = 1e-6;
+
+export interface SimulationOptions {
+  /** Simulated time in hours */
+  hours: number;
+  /** Step length in seconds */
+  stepSeconds?: number;
+  /** Hours of net input demand each station starts with in stock */
+  startingStockHours?: number;
+  /** Buy unconnected inputs and sell unconnected outputs at their steady-state rates */
+  tradeWithMarket?: boolean;
+  /** Ignore storage module capacity */
+  unlimitedStorage?: boolean;
+  /** Maximum number of samples kept per series */
+  maxSamples?: number;
+}
+
+/** Stock of one ware over time */
+export interface WareSeries {
+  wareId: string;
+  /** Stock at each sample time */
+  values: number[];
+  /** Units that fit in storage (Infinity if unlimited) */
+  limit: number;
+}
+
+export type StallReason = 'input' | 'storage';
+
+/** A period in which a module could not run at full capacity */
+export interface StallPeriod {
+  moduleId: string;
+  blueprintId: string;
+  reason: StallReason;
+  /** Ware that ran out (input) or has no room left (storage) */
+  wareId: string;
+  /** Start and end of the stall in hours */
+  start: number;
+  end: number;
+}
+
+export interface StationSimulation {
+  stationId: string;
+  wares: WareSeries[];
+  stalls: StallPeriod[];
+}
+
+export interface SimulationResult {
+  /** Sample times in hours */
+  times: number[];
+  stations: StationSimulation[];
+}
+
+/** A group of identical production modules running cycles in lockstep */
+interface ProducerState {
+  moduleId: string;
+  blueprintId: string;
+  count: number;
+  cycleSeconds: number;
+  /** Inputs and outputs of one module for one cycle */
+  inputs: ResourceAmount[];
+  outputs: ResourceAmount[];
+  running: number;
+  progress: number;
+}
+
+/** Habitat upkeep, consumed continuously */
+interface ConsumerState {
+  moduleId: string;
+  blueprintId: string;
+  /** Upkeep per hour */
+  inputs: ResourceAmount[];
+}
+
+interface StallState {
+  reason: StallReason;
+  wareId: string;
+  start: number;
+}
+
+interface StationState {
+  stationId: string;
+  stock: Map<string, number>;
+  limits: Map<string, number>;
+  producers: ProducerState[];
+  consumers: ConsumerState[];
+  /** Market purchases and sales per hour */
+  buys: ResourceAmount[];
+  sells: ResourceAmount[];
+  series: Map<string, number[]>;
+  stalls: StallPeriod[];
+  openStalls: Map<string, StallState>;
+}
+
+function toMap(items: ResourceAmount[]): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const item of items) map.set(item.wareId, (map.get(item.wareId) ?? 0) + item.amount);
+  return map;
+}
+
+/** Amounts left after subtracting another list (dropping non-positive results) */
+function subtract(items: ResourceAmount[], minus: ResourceAmount[]): ResourceAmount[] {
+  const minusMap = toMap(minus);
+  return items
+    .map((item) => ({ wareId: item.wareId, amount: item.amount - (minusMap.get(item.wareId) ?? 0) }))
+    .filter((item) => item.amount > 0.01);
+}
+
+function getFree(state: StationState, wareId: string): number {
+  const limit = state.limits.get(wareId) ?? Infinity;
+  return Math.max(limit - (state.stock.get(wareId) ?? 0), 0);
+}
+
+function addStock(state: StationState, wareId: string, amount: number): void {
+  const limit = state.limits.get(wareId) ?? Infinity;
+  state.stock.set(wareId, Math.min((state.stock.get(wareId) ?? 0) + amount, limit));
+}
+
+function takeStock(state: StationState, wareId: string, amount: number): number {
+  const available = state.stock.get(wareId) ?? 0;
+  const taken = Math.min(available, amount);
+  state.stock.set(wareId, available - taken);
+  return taken;
+}
+
+/**
+ * Record whether a module is stalled this step, merging consecutive steps into periods.
+ */
+function trackStall(
+  state: StationState,
+  moduleId: string,
+  blueprintId: string,
+  stall: { reason: StallReason; wareId: string } | null,
+  time: number
+): void {
+  const open = state.openStalls.get(moduleId);
+  if (open && (!stall || open.reason !== stall.reason || open.wareId !== stall.wareId)) {
+    state.stalls.push({ moduleId, blueprintId, ...open, end: time });
+    state.openStalls.delete(moduleId);
+  }
+  if (stall && !state.openStalls.has(moduleId)) {
+    state.openStalls.set(moduleId, { ...stall, start: time });
+  }
+}
+
+/**
+ * Build a station's starting state from its steady-state computation.
+ */
+function createStationState(
+  plan: Plan,
+  stationIndex: number,
+  computed: NetworkComputed,
+  gameData: GameData,
+  options: Required<SimulationOptions>
+): StationState {
+  const station = plan.stations[stationIndex];
+  const sc = computed.stations[stationIndex];
+
+  const wareIds = [...new Set([...sc.grossInputs, ...sc.grossOutputs].map((r) => r.wareId))];
+  const limits = options.unlimitedStorage
+    ? new Map(wareIds.map((id) => [id, Infinity]))
+    : getWareStorageLimits(station, wareIds, gameData);
+
+  const stock = new Map(wareIds.map((id) => [id, 0]));
+  for (const input of sc.netInputs) {
+    const limit = limits.get(input.wareId) ?? Infinity;
+    stock.set(input.wareId, Math.min(input.amount * options.startingStockHours, limit));
+  }
+
+  const producers: ProducerState[] = [];
+  const consumers: ConsumerState[] = [];
+
+  for (const planModule of station.modules) {
+    const mc = sc.modules.find((m) => m.moduleId === planModule.id);
+    if (!mc || planModule.count <= 0) continue;
+
+    const moduleType = getModuleType(planModule.blueprintId, gameData);
+    if (moduleType === 'production') {
+      const prodModule = gameData.modules.production[planModule.blueprintId];
+      const recipe = prodModule
+        ? findRecipeForModule(prodModule, gameData.recipes, planModule.recipeId)
+        : null;
+      // Cycles without a duration can't be stepped
+      if (!recipe || recipe.time <= 0) continue;
+
+      // Steady-state hourly rates already include sunlight and workforce bonuses
+      const perCycle = recipe.time / HOUR_IN_SECONDS / planModule.count;
+      producers.push({
+        moduleId: planModule.id,
+        blueprintId: planModule.blueprintId,
+        count: planModule.count,
+        cycleSeconds: recipe.time,
+        inputs: mc.grossInputs.map((r) => ({ wareId: r.wareId, amount: r.amount * perCycle })),
+        outputs: mc.grossOutputs.map((r) => ({ wareId: r.wareId, amount: r.amount * perCycle })),
+        running: 0,
+        progress: 0,
+      });
+    } else if (mc.grossInputs.length > 0) {
+      consumers.push({
+        moduleId: planModule.id,
+        blueprintId: planModule.blueprintId,
+        inputs: mc.grossInputs,
+      });
+    }
+  }
+
+  return {
+    stationId: station.id,
+    stock,
+    limits,
+    producers,
+    consumers,
+    buys: options.tradeWithMarket ? subtract(sc.netInputs, sc.externallySupplied) : [],
+    sells: options.tradeWithMarket ? subtract(sc.netOutputs, sc.externallyConsumed) : [],
+    series: new Map(wareIds.map((id) => [id, []])),
+    stalls: [],
+    openStalls: new Map(),
+  };
+}
+
+/**
+ * Advance one group of production modules by one step. Time left over when a
+ * cycle ends goes to the next one, so a step can finish several short cycles.
+ */
+function stepProducer(state: StationState, producer: ProducerState, dt: number, time: number): void {
+  let remaining = dt;
+
+  for (;;) {
+    // Deliver the outputs of a finished cycle
+    if (producer.running > 0) {
+      const left = producer.cycleSeconds - producer.progress;
+      if (left > remaining + STOCK_EPSILON) {
+        producer.progress += remaining;
+        return;
+      }
+      for (const output of producer.outputs) {
+        addStock(state, output.wareId, output.amount * producer.running);
+      }
+      producer.running = 0;
+      producer.progress = 0;
+      remaining -= Math.max(left, 0);
+    }
+
+    // Start as many modules as inputs and free storage allow
+    let startable = producer.count;
+    let stall: { reason: StallReason; wareId: string } | null = null;
+
+    for (const input of producer.inputs) {
+      if (input.amount <= 0) continue;
+      const possible = Math.floor(((state.stock.get(input.wareId) ?? 0) + STOCK_EPSILON) / input.amount);
+      if (possible < startable) {
+        startable = possible;
+        stall = { reason: 'input', wareId: input.wareId };
+      }
+    }
+    for (const output of producer.outputs) {
+      if (output.amount <= 0) continue;
+      const possible = Math.floor((getFree(state, output.wareId) + STOCK_EPSILON) / output.amount);
+      if (possible < startable) {
+        startable = possible;
+        stall = { reason: 'storage', wareId: output.wareId };
+      }
+    }
+
+    trackStall(state, producer.moduleId, producer.blueprintId, stall, time);
+
+    if (startable <= 0) return;
+    for (const input of producer.inputs) {
+      takeStock(state, input.wareId, input.amount * startable);
+    }
+    producer.running = startable;
+  }
+}
+
+/**
+ * Simulate stockpiles of every station in a plan over time.
+ */
+export function simulatePlan(
+  plan: Plan,
+  gameData: GameData,
+  options: SimulationOptions
+): SimulationResult {
+  const resolved: Required<SimulationOptions> = {
+    hours: Math.max(options.hours, 0),
+    stepSeconds: Math.max(options.stepSeconds ?? DEFAULT_STEP_SECONDS, 1),
+    startingStockHours: Math.max(options.startingStockHours ?? 0, 0),
+    tradeWithMarket: options.tradeWithMarket ?? true,
+    unlimitedStorage: options.unlimitedStorage ?? false,
+    maxSamples: Math.max(options.maxSamples ?? DEFAULT_MAX_SAMPLES, 2),
+  };
+
+  const computed = computeNetwork(plan, gameData);
+  const states = plan.stations.map((_, index) =>
+    createStationState(plan, index, computed, gameData, resolved)
+  );
+  const stateMap = new Map(states.map((state) => [state.stationId, state]));
+
+  // Inter-station transfers at their steady-state rates
+  const externalIds = new Set([
+    ...(plan.miningSources ?? []).map((m) => m.id),
+    ...(plan.markets ?? []).map((m) => m.id),
+  ]);
+  const transfers = plan.connections
+    .map((conn) => ({
+      source: stateMap.get(conn.sourceStationId),
+      target: stateMap.get(conn.targetStationId),
+      external: externalIds.has(conn.sourceStationId) || externalIds.has(conn.targetStationId),
+      wareId: conn.wareId,
+      rate: computed.connections.find((c) => c.connectionId === conn.id)?.effectiveAmount ?? 0,
+    }))
+    .filter((t) => (t.source && t.target) || (t.external && (t.source || t.target)))
+    .filter((t) => t.rate > 0);
+
+  const dt = resolved.stepSeconds;
+  const dtHours = dt / HOUR_IN_SECONDS;
+  const totalSteps = Math.ceil((resolved.hours * HOUR_IN_SECONDS) / dt);
+  const sampleEvery = Math.max(1, Math.ceil(totalSteps / (resolved.maxSamples - 1)));
+  const times: number[] = [];
+
+  const sample = (step: number) => {
+    times.push(step * dtHours);
+    for (const state of states) {
+      for (const [wareId, values] of state.series) {
+        values.push(state.stock.get(wareId) ?? 0);
+      }
+    }
+  };
+
+  sample(0);
+
+  for (let step = 1; step <= totalSteps; step++) {
+    const time = step * dtHours;
+
+    // Market purchases
+    for (const state of states) {
+      for (const buy of state.buys) {
+        addStock(state, buy.wareId, Math.min(buy.amount * dtHours, getFree(state, buy.wareId)));
+      }
+    }
+
+    // Inter-station transfers
+    for (const transfer of transfers) {
+      const amount = transfer.target
+        ? Math.min(transfer.rate * dtHours, getFree(transfer.target, transfer.wareId))
+        : transfer.rate * dtHours;
+      const moved = transfer.source ? takeStock(transfer.source, transfer.wareId, amount) : amount;
+      if (transfer.target) addStock(transfer.target, transfer.wareId, moved);
+    }
+
+    for (const state of states) {
+      // Production cycles
+      for (const producer of state.producers) {
+        stepProducer(state, producer, dt, time);
+      }
+
+      // Habitat upkeep
+      for (const consumer of state.consumers) {
+        let shortage: string | null = null;
+        for (const input of consumer.inputs) {
+          const needed = input.amount * dtHours;
+          if (takeStock(state, input.wareId, needed) + STOCK_EPSILON < needed) {
+            shortage = shortage ?? input.wareId;
+          }
+        }
+        trackStall(
+          state,
+          consumer.moduleId,
+          consumer.blueprintId,
+          shortage ? { reason: 'input', wareId: shortage } : null,
+          time
+        );
+      }
+
+      // Market sales
+      for (const sell of state.sells) {
+        takeStock(state, sell.wareId, sell.amount * dtHours);
+      }
+    }
+
+    if (step % sampleEvery === 0 || step === totalSteps) {
+      sample(step);
+    }
+  }
+
+  // Close stalls still open at the end of the horizon
+  const endTime = totalSteps * dtHours;
+  for (const state of states) {
+    for (const [moduleId, open] of state.openStalls) {
+      const blueprintId =
+        state.producers.find((p) => p.moduleId === moduleId)?.blueprintId ??
+        state.consumers.find((c) => c.moduleId === moduleId)?.blueprintId ??
+        '';
+      state.stalls.push({ moduleId, blueprintId, ...open, end: endTime });
+    }
+  }
+
+  return {
+    times,
+    stations: states.map((state) => ({
+      stationId: state.stationId,
+      wares: Array.from(state.series.entries()).map(([wareId, values]) => ({
+        wareId,
+        values,
+        limit: state.limits.get(wareId) ?? Infinity,
+      })),
+      stalls: state.stalls.sort((a, b) => a.start - b.start),
+    })),
+  };
+}
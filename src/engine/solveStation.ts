@@ -0,0 +1,377 @@
+/**
+ * Station auto-balance solver.
+ *
+ * Sizes production module counts for a target ware output by walking the
+ * recipe tree downwards from the target. Each ware is produced by a single
+ * producer blueprint; wares without a producer (raw resources) or that the
+ * user chose to import become station imports.
+ *
+ * All amounts are per-hour (3600 seconds) rates.
+ */
+
+import type { GameData, PlanModule, ResourceAmount } from '@/types';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import { computeModuleIO, getDefaultProducerModule } from './computeModule';
+import {
+  calculateWorkforceStats,
+  getWorkforceUpkeepForCapacity,
+} from './workforce';
+
+// Tolerance when rounding module counts up (avoids 3.0000001 -> 4)
+const COUNT_EPSILON = 1e-6;
+
+// Upper bound on habitat/upkeep refinement passes
+const MAX_UPKEEP_PASSES = 10;
+
+export interface SolverOptions {
+  /** Effective sunlight (%) of the station the result is meant for */
+  sunlight: number;
+  /** Size modules assuming a fully staffed workforce (applies recipe workforce bonus) */
+  applyWorkforceBonus: boolean;
+  /** Producer blueprint overrides per ware (wareId -> blueprintId) */
+  producers?: Record<string, string>;
+  /** Wares to import through Station Input instead of producing in-station */
+  imports?: string[];
+  /** Habitat blueprint used to house the workforce (null = no habitats) */
+  habitatId?: string | null;
+}
+
+export interface SolvedModule {
+  /** Identifies the module in flows: the ware it produces, or the blueprint ID for habitats */
+  id: string;
+  blueprintId: string;
+  /** Ware produced by this module (null for habitats) */
+  wareId: string | null;
+  count: number;
+  /** Distance from the target ware in the recipe tree (0 = target producer) */
+  tier: number;
+  /** Gross output of all modules of this blueprint (per hour) */
+  grossOutput: number;
+}
+
+/** A ware flow between two solved modules (keyed by SolvedModule.id) or Station I/O */
+export interface SolvedFlow {
+  wareId: string;
+  /** Producer module ID, or STATION_INPUT_ID for imports */
+  source: string;
+  /** Consumer module ID, or STATION_OUTPUT_ID for the target export */
+  target: string;
+  amount: number;
+}
+
+export interface StationSolution {
+  targetWareId: string;
+  targetAmount: number;
+  modules: SolvedModule[];
+  flows: SolvedFlow[];
+  /** Wares that must be supplied through Station Input */
+  imports: ResourceAmount[];
+  /** Over-production caused by rounding module counts up */
+  surplus: ResourceAmount[];
+  workforceRequired: number;
+  workforceCapacity: number;
+}
+
+interface UnitProducer {
+  blueprintId: string;
+  workforceMax: number;
+  /** Output of one module per hour */
+  output: number;
+  /** Inputs of one module per hour */
+  inputs: ResourceAmount[];
+}
+
+/**
+ * Solve module counts for producing `targetAmount` of `targetWareId` per hour.
+ */
+export function solveStation(
+  targetWareId: string,
+  targetAmount: number,
+  gameData: GameData,
+  options: SolverOptions
+): StationSolution {
+  const imports = new Set(options.imports ?? []);
+  const habitat = options.habitatId
+    ? gameData.modules.habitat[options.habitatId] ?? null
+    : null;
+
+  // Full staff, with the bonus scaled by the habitat race like computeStation does
+  const bonusMultiplier = habitat
+    ? calculateWorkforceStats(
+        habitat.workforceCapacity,
+        [{ race: habitat.race, capacity: habitat.workforceCapacity }],
+        false,
+        gameData.workforce
+      ).bonusMultiplier
+    : 1;
+  const workerRatio = options.applyWorkforceBonus || options.habitatId ? bonusMultiplier : 0;
+
+  // Resolve (and cache) the producer for each ware at single-module scale
+  const producerCache = new Map<string, UnitProducer | null>();
+  const getProducer = (wareId: string): UnitProducer | null => {
+    if (producerCache.has(wareId)) return producerCache.get(wareId)!;
+
+    let producer: UnitProducer | null = null;
+    if (!imports.has(wareId)) {
+      const override = options.producers?.[wareId];
+      const module =
+        (override && gameData.modules.production[override]) ||
+        getDefaultProducerModule(wareId, gameData);
+
+      if (module) {
+        const unit: PlanModule = {
+          id: module.id,
+          blueprintId: module.id,
+          count: 1,
+          position: { x: 0, y: 0 },
+        };
+        const io = computeModuleIO(unit, gameData, options.sunlight, workerRatio);
+        const output = io.grossOutputs.find((o) => o.wareId === wareId)?.amount ?? 0;
+        if (output > 0) {
+          producer = {
+            blueprintId: module.id,
+            workforceMax: module.workforceMax,
+            output,
+            inputs: io.grossInputs,
+          };
+        }
+      }
+    }
+
+    producerCache.set(wareId, producer);
+    return producer;
+  };
+
+  let extraDemand: ResourceAmount[] = [];
+  let result = solvePass(targetWareId, targetAmount, extraDemand, getProducer);
+
+  // Habitats add workforce upkeep, which may itself need producing in-station.
+  // Re-solve until the workforce requirement stops changing.
+  let habitatCount = 0;
+  let workforce = -1;
+  for (let pass = 0; habitat && pass < MAX_UPKEEP_PASSES; pass++) {
+    if (result.workforceRequired === workforce) break;
+    workforce = result.workforceRequired;
+
+    habitatCount = Math.ceil(workforce / habitat.workforceCapacity - COUNT_EPSILON);
+    const stats = calculateWorkforceStats(
+      workforce,
+      [{ race: habitat.race, capacity: habitatCount * habitat.workforceCapacity }],
+      false,
+      gameData.workforce
+    );
+    extraDemand = getWorkforceUpkeepForCapacity(stats, habitat.race, stats.totalCapacity);
+
+    result = solvePass(targetWareId, targetAmount, extraDemand, getProducer);
+  }
+
+  const modules = [...result.modules];
+  const flows = [...result.flows];
+
+  if (habitat && habitatCount > 0) {
+    modules.push({
+      id: habitat.id,
+      blueprintId: habitat.id,
+      wareId: null,
+      count: habitatCount,
+      tier: 0,
+      grossOutput: 0,
+    });
+
+    // Route upkeep to the habitat from its producer or from Station Input
+    for (const upkeep of extraDemand) {
+      const producer = result.producedBy.get(upkeep.wareId);
+      flows.push({
+        wareId: upkeep.wareId,
+        source: producer ?? STATION_INPUT_ID,
+        target: habitat.id,
+        amount: upkeep.amount,
+      });
+    }
+  }
+
+  return {
+    targetWareId,
+    targetAmount,
+    modules,
+    flows,
+    imports: result.imports,
+    surplus: result.surplus,
+    workforceRequired: result.workforceRequired,
+    workforceCapacity: habitat ? habitat.workforceCapacity * habitatCount : 0,
+  };
+}
+
+interface PassResult {
+  modules: SolvedModule[];
+  flows: SolvedFlow[];
+  imports: ResourceAmount[];
+  surplus: ResourceAmount[];
+  workforceRequired: number;
+  /** wareId -> producer module ID for wares produced in-station */
+  producedBy: Map<string, string>;
+}
+
+/**
+ * Single sizing pass: walks wares in topological order (consumers before
+ * producers) so every ware's demand is final before its modules are counted.
+ */
+function solvePass(
+  targetWareId: string,
+  targetAmount: number,
+  extraDemand: ResourceAmount[],
+  getProducer: (wareId: string) => UnitProducer | null
+): PassResult {
+  const roots = [targetWareId, ...extraDemand.map((d) => d.wareId)];
+  const { order, loopInputs } = orderWares(roots, getProducer);
+
+  const demand = new Map<string, number>();
+  const addDemand = (wareId: string, amount: number) => {
+    demand.set(wareId, (demand.get(wareId) ?? 0) + amount);
+  };
+  addDemand(targetWareId, targetAmount);
+  for (const d of extraDemand) addDemand(d.wareId, d.amount);
+
+  // Tier = longest distance from the target (or upkeep roots)
+  const tiers = new Map<string, number>();
+  for (const root of roots) tiers.set(root, 0);
+
+  // Consumers of each ware: module ID -> amount per hour
+  const consumers = new Map<string, Map<string, number>>();
+  // Inputs that would close a recipe loop are imported instead
+  const loopImports = new Map<string, Map<string, number>>();
+
+  const modules: SolvedModule[] = [];
+  const producedBy = new Map<string, string>();
+  let workforceRequired = 0;
+
+  for (const wareId of order) {
+    const producer = getProducer(wareId);
+    const need = demand.get(wareId) ?? 0;
+    if (!producer || need <= 0) continue;
+
+    const count = Math.max(Math.ceil(need / producer.output - COUNT_EPSILON), 1);
+    const tier = tiers.get(wareId) ?? 0;
+
+    // One module entry per produced ware, so the ware identifies it even when
+    // a blueprint makes several of them
+    const moduleId = wareId;
+    modules.push({
+      id: moduleId,
+      blueprintId: producer.blueprintId,
+      wareId,
+      count,
+      tier,
+      grossOutput: producer.output * count,
+    });
+    producedBy.set(wareId, moduleId);
+    workforceRequired += producer.workforceMax * count;
+
+    for (const input of producer.inputs) {
+      const amount = input.amount * count;
+      if (loopInputs.has(loopKey(wareId, input.wareId))) {
+        const wareImports = loopImports.get(input.wareId) ?? new Map<string, number>();
+        wareImports.set(moduleId, (wareImports.get(moduleId) ?? 0) + amount);
+        loopImports.set(input.wareId, wareImports);
+        continue;
+      }
+      addDemand(input.wareId, amount);
+      tiers.set(input.wareId, Math.max(tiers.get(input.wareId) ?? 0, tier + 1));
+
+      const wareConsumers = consumers.get(input.wareId) ?? new Map<string, number>();
+      wareConsumers.set(moduleId, (wareConsumers.get(moduleId) ?? 0) + amount);
+      consumers.set(input.wareId, wareConsumers);
+    }
+  }
+
+  // Build flows and classify every demanded ware as produced or imported
+  const flows: SolvedFlow[] = [];
+  const imports: ResourceAmount[] = [];
+  const surplus: ResourceAmount[] = [];
+
+  for (const [wareId, need] of demand) {
+    const source = producedBy.get(wareId) ?? STATION_INPUT_ID;
+    for (const [target, amount] of consumers.get(wareId) ?? []) {
+      flows.push({ wareId, source, target, amount });
+    }
+
+    if (source === STATION_INPUT_ID) {
+      if (need > 0.01) imports.push({ wareId, amount: need });
+      continue;
+    }
+
+    const produced = modules.find((m) => m.wareId === wareId)?.grossOutput ?? 0;
+    if (produced - need > 0.01) {
+      surplus.push({ wareId, amount: produced - need });
+    }
+  }
+
+  for (const [wareId, wareImports] of loopImports) {
+    let total = 0;
+    for (const [target, amount] of wareImports) {
+      flows.push({ wareId, source: STATION_INPUT_ID, target, amount });
+      total += amount;
+    }
+    const existing = imports.find((i) => i.wareId === wareId);
+    if (existing) existing.amount += total;
+    else if (total > 0.01) imports.push({ wareId, amount: total });
+  }
+
+  const targetSource = producedBy.get(targetWareId);
+  if (targetSource) {
+    flows.push({
+      wareId: targetWareId,
+      source: targetSource,
+      target: STATION_OUTPUT_ID,
+      amount: targetAmount,
+    });
+  }
+
+  return {
+    modules,
+    flows,
+    imports: imports.sort((a, b) => b.amount - a.amount),
+    surplus: surplus.sort((a, b) => b.amount - a.amount),
+    workforceRequired,
+    producedBy,
+  };
+}
+
+const loopKey = (wareId: string, inputWareId: string) => `${wareId}>${inputWareId}`;
+
+/**
+ * Topologically order producible wares reachable from the roots.
+ * Recipe inputs that would close a cycle (keyed by loopKey) are returned in
+ * `loopInputs`: that input is imported for that recipe, while the ware itself
+ * is still produced for everything else, so a root is never imported.
+ */
+function orderWares(
+  roots: string[],
+  getProducer: (wareId: string) => UnitProducer | null
+): { order: string[]; loopInputs: Set<string> } {
+  const postOrder: string[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+  const loopInputs = new Set<string>();
+
+  const visit = (wareId: string) => {
+    if (visited.has(wareId)) return;
+
+    visiting.add(wareId);
+    const producer = getProducer(wareId);
+    for (const input of producer?.inputs ?? []) {
+      if (visiting.has(input.wareId)) {
+        loopInputs.add(loopKey(wareId, input.wareId));
+        continue;
+      }
+      visit(input.wareId);
+    }
+    visiting.delete(wareId);
+    visited.add(wareId);
+    postOrder.push(wareId);
+  };
+
+  for (const root of roots) visit(root);
+
+  return { order: postOrder.reverse(), loopInputs };
+}
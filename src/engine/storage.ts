@@ -0,0 +1,127 @@
+/**
+ * Station storage analysis.
+ *
+ * Sums storage module capacity per transport type and estimates how long
+ * that storage buffers each traded ware. Capacity of a transport type is
+ * shared evenly between the wares stored in it.
+ *
+ * All amounts are per-hour (3600 seconds), capacities are in cubic metres.
+ */
+
+import type {
+  GameData,
+  PlanStation,
+  ResourceAmount,
+  StationStorage,
+  StorageCapacity,
+  TransportType,
+  WareBuffer,
+} from '@/types';
+
+const TRANSPORT_TYPES: TransportType[] = ['container', 'liquid', 'solid'];
+
+/**
+ * Sum storage module capacity per transport type.
+ */
+function getStorageCapacity(station: PlanStation, gameData: GameData): Map<string, number> {
+  const capacity = new Map<string, number>();
+  for (const planModule of station.modules) {
+    const storageModule = gameData.modules.storage[planModule.blueprintId];
+    if (!storageModule) continue;
+    const current = capacity.get(storageModule.cargoType) ?? 0;
+    capacity.set(storageModule.cargoType, current + storageModule.cargoMax * planModule.count);
+  }
+  return capacity;
+}
+
+/**
+ * Get how many units of each ware fit in storage, sharing each transport type's
+ * capacity evenly between the given wares. Wares without volume are unlimited.
+ */
+export function getWareStorageLimits(
+  station: PlanStation,
+  wareIds: string[],
+  gameData: GameData
+): Map<string, number> {
+  const capacity = getStorageCapacity(station, gameData);
+
+  const countByTransport = new Map<string, number>();
+  for (const wareId of new Set(wareIds)) {
+    const transport = gameData.wares[wareId]?.transport;
+    if (transport) countByTransport.set(transport, (countByTransport.get(transport) ?? 0) + 1);
+  }
+
+  const limits = new Map<string, number>();
+  for (const wareId of new Set(wareIds)) {
+    const ware = gameData.wares[wareId];
+    if (!ware) continue;
+    const share = (capacity.get(ware.transport) ?? 0) / (countByTransport.get(ware.transport) ?? 1);
+    limits.set(wareId, ware.volume > 0 ? Math.floor(share / ware.volume) : Infinity);
+  }
+  return limits;
+}
+
+/**
+ * Compute storage capacity and buffer times for a station's net inputs and outputs.
+ */
+export function computeStationStorage(
+  station: PlanStation,
+  netInputs: ResourceAmount[],
+  netOutputs: ResourceAmount[],
+  gameData: GameData
+): StationStorage {
+  const capacity = getStorageCapacity(station, gameData);
+
+  const traded = [
+    ...netInputs.map((r) => ({ ...r, direction: 'input' as const })),
+    ...netOutputs.map((r) => ({ ...r, direction: 'output' as const })),
+  ];
+
+  // Group stored wares by transport type
+  const waresByTransport = new Map<string, string[]>();
+  for (const item of traded) {
+    const transport = gameData.wares[item.wareId]?.transport;
+    if (!transport) continue;
+    const wareIds = waresByTransport.get(transport) ?? [];
+    if (!wareIds.includes(item.wareId)) wareIds.push(item.wareId);
+    waresByTransport.set(transport, wareIds);
+  }
+
+  const capacities: StorageCapacity[] = TRANSPORT_TYPES
+    .filter((transport) => capacity.has(transport) || waresByTransport.has(transport))
+    .map((transport) => ({
+      transport,
+      capacity: capacity.get(transport) ?? 0,
+      wareIds: waresByTransport.get(transport) ?? [],
+    }));
+
+  const buffers: WareBuffer[] = [];
+  const unstorable = new Set<string>();
+
+  const limits = getWareStorageLimits(station, traded.map((item) => item.wareId), gameData);
+
+  for (const item of traded) {
+    const ware = gameData.wares[item.wareId];
+    if (!ware) continue;
+
+    if ((capacity.get(ware.transport) ?? 0) <= 0) {
+      unstorable.add(item.wareId);
+    }
+
+    const storedAmount = limits.get(item.wareId) ?? 0;
+    buffers.push({
+      wareId: item.wareId,
+      direction: item.direction,
+      transport: ware.transport,
+      amount: item.amount,
+      storedAmount,
+      bufferHours: isFinite(storedAmount) && item.amount > 0 ? storedAmount / item.amount : null,
+    });
+  }
+
+  return {
+    capacities,
+    buffers,
+    unstorableWares: [...unstorable].sort(),
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Recipe rates and upstream supply chains.
+ *
+ * Rates here are base rates for one module: no sunlight or workforce bonus.
+ * The supply tree follows each ware's default producer module back to raw
+ * resources (wares no module produces).
+ *
+ * All amounts are per-hour (3600 seconds).
+ */
+
+import type { GameData, Recipe, ResourceAmount } from '@/types';
+import { findRecipeForModule, getDefaultProducerModule, getRecipesForWare } from './computeModule';
+import { HOUR_IN_SECONDS } from './workforce';
+
+// Deepest supply chain followed (real chains are well under this)
+const MAX_TREE_DEPTH = 20;
+
+/** Per-hour output and inputs of one module running a recipe */
+export interface RecipeRates {
+  output: number;
+  inputs: ResourceAmount[];
+}
+
+/** One ware in an upstream supply tree */
+export interface SupplyTreeNode {
+  wareId: string;
+  /** Units per hour needed */
+  amount: number;
+  /** Producer module used (unset for raw resources) */
+  moduleId?: string;
+  recipeId?: string;
+  /** Modules needed to make amount (fractional) */
+  modules: number;
+  inputs: SupplyTreeNode[];
+  /** The ware already appears further up this branch, so it is not expanded again */
+  cyclic?: boolean;
+}
+
+export function getRecipeRates(recipe: Recipe): RecipeRates {
+  const cyclesPerHour = recipe.time > 0 ? HOUR_IN_SECONDS / recipe.time : 0;
+  return {
+    output: recipe.amount * cyclesPerHour,
+    inputs: recipe.inputs.map((input) => ({ wareId: input.ware, amount: input.amount * cyclesPerHour })),
+  };
+}
+
+/**
+ * Get every recipe that uses a ware as an input.
+ */
+export function getConsumerRecipes(wareId: string, recipes: Record<string, Recipe>): Recipe[] {
+  return Object.values(recipes)
+    .filter((r) => r.inputs.some((i) => i.ware === wareId))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Production tier of every ware: raw resources are 0, anything else is one
+ * more than its deepest input (default method). Loops count as tier 0.
+ */
+export function getWareTiers(gameData: GameData): Map<string, number> {
+  const tiers = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const tierOf = (wareId: string): number => {
+    const known = tiers.get(wareId);
+    if (known !== undefined) return known;
+    if (visiting.has(wareId)) return 0;
+
+    visiting.add(wareId);
+    const recipe = getRecipesForWare(wareId, gameData.recipes)[0];
+    const tier = recipe && recipe.inputs.length > 0
+      ? 1 + Math.max(...recipe.inputs.map((input) => tierOf(input.ware)))
+      : 0;
+    visiting.delete(wareId);
+    tiers.set(wareId, tier);
+    return tier;
+  };
+
+  Object.keys(gameData.wares).forEach(tierOf);
+  return tiers;
+}
+
+/**
+ * Build the upstream supply tree for making a ware at the given rate.
+ */
+export function buildSupplyTree(
+  wareId: string,
+  amount: number,
+  gameData: GameData,
+  ancestors: string[] = []
+): SupplyTreeNode {
+  if (ancestors.includes(wareId) || ancestors.length >= MAX_TREE_DEPTH) {
+    return { wareId, amount, modules: 0, inputs: [], cyclic: true };
+  }
+
+  const module = getDefaultProducerModule(wareId, gameData);
+  const recipe = module ? findRecipeForModule(module, gameData.recipes) : null;
+  if (!module || !recipe) {
+    return { wareId, amount, modules: 0, inputs: [] };
+  }
+
+  const rates = getRecipeRates(recipe);
+  const modules = rates.output > 0 ? amount / rates.output : 0;
+  const path = [...ancestors, wareId];
+  return {
+    wareId,
+    amount,
+    moduleId: module.id,
+    recipeId: recipe.id,
+    modules,
+    inputs: rates.inputs.map((input) => buildSupplyTree(input.wareId, input.amount * modules, gameData, path)),
+  };
+}
+
+/** One ware of a supply chain, with every branch of the tree that needs it merged */
+export interface SupplyChainWare {
+  wareId: string;
+  /** Units per hour needed across all branches */
+  amount: number;
+  moduleId?: string;
+  recipeId?: string;
+  modules: number;
+  /** Steps from the requested ware (0), taking the longest branch */
+  tier: number;
+}
+
+/** A ware flowing to the ware made from it */
+export interface SupplyChainLink {
+  sourceWareId: string;
+  targetWareId: string;
+  amount: number;
+  /** Closes a loop back to a ware further down the chain */
+  cyclic?: boolean;
+}
+
+export interface SupplyChain {
+  /** Sorted by tier, then ware ID */
+  wares: SupplyChainWare[];
+  links: SupplyChainLink[];
+}
+
+/**
+ * Merge a supply tree into one entry per ware, so a ware needed by several
+ * branches (energy cells, say) gets a single total and module count.
+ */
+export function flattenSupplyTree(tree: SupplyTreeNode): SupplyChain {
+  const wares = new Map<string, SupplyChainWare>();
+  const links = new Map<string, SupplyChainLink>();
+
+  const visit = (node: SupplyTreeNode, tier: number, consumerId?: string) => {
+    if (consumerId) {
+      const key = `${node.wareId}>${consumerId}`;
+      const link = links.get(key) ?? { sourceWareId: node.wareId, targetWareId: consumerId, amount: 0 };
+      link.amount += node.amount;
+      if (node.cyclic) link.cyclic = true;
+      links.set(key, link);
+    }
+
+    const ware = wares.get(node.wareId);
+    if (node.cyclic) {
+      // Loops point back at a ware already counted; only cut-off chains are new
+      if (!ware) wares.set(node.wareId, { wareId: node.wareId, amount: node.amount, modules: 0, tier });
+      return;
+    }
+    if (ware) {
+      ware.amount += node.amount;
+      ware.modules += node.modules;
+      ware.tier = Math.max(ware.tier, tier);
+    } else {
+      wares.set(node.wareId, {
+        wareId: node.wareId,
+        amount: node.amount,
+        moduleId: node.moduleId,
+        recipeId: node.recipeId,
+        modules: node.modules,
+        tier,
+      });
+    }
+    node.inputs.forEach((input) => visit(input, tier + 1, node.wareId));
+  };
+  visit(tree, 0);
+
+  return {
+    wares: [...wares.values()].sort((a, b) => a.tier - b.tier || a.wareId.localeCompare(b.wareId)),
+    links: [...links.values()],
+  };
+}
@@ -1,24 +1,43 @@
 /**
  * Workforce calculation for production bonuses and upkeep.
  *
- * Workers consume food rations and medical supplies at different rates
+ * Workers consume upkeep wares (food and medical supplies) at different rates
  * depending on whether they are busy (filling production slots) or idle.
+ * What they eat depends on the race of their habitat.
  *
  * All outputs are normalized to per-hour (3600 seconds) rates.
  */
 
-import type { ResourceAmount } from '@/types';
+import type { GameData, PlanStation, RaceWorkforce, ResourceAmount } from '@/types';
 
 // Standard time unit for all calculations (1 hour)
 export const HOUR_IN_SECONDS = 3600;
 
-// Workforce consumption per 600s cycle per 200 work units (from mod data)
-const WORKFORCE_BUSY = { food: 75, medical: 45, per: 200, cycle: 600 };
-const WORKFORCE_IDLE = { food: 50, medical: 30, per: 200, cycle: 600 };
+// Argon workforce consumption per 600s cycle per 200 work units (from mod data).
+// Used for races without an upkeep table in the game data.
+export const DEFAULT_RACE_WORKFORCE: RaceWorkforce = {
+  cycle: 600,
+  per: 200,
+  upkeep: [
+    { ware: 'foodrations', busy: 75, idle: 50 },
+    { ware: 'medicalsupplies', busy: 45, idle: 30 },
+  ],
+};
+
+/** Habitat capacity housed by one race */
+export interface HabitatCapacity {
+  race: string;
+  capacity: number;
+}
 
-// Ware IDs for workforce upkeep
-const FOOD_WARE_ID = 'foodrations';
-const MEDICAL_WARE_ID = 'medicalsupplies';
+/** Population and upkeep of one race's habitats */
+export interface RaceWorkforceStats {
+  race: string;
+  capacity: number;
+  population: number;
+  /** Upkeep wares per hour for this race's population */
+  upkeep: ResourceAmount[];
+}
 
 export interface WorkforceStats {
   totalRequired: number;      // Sum of all production module workforce requirements
@@ -27,22 +46,71 @@ export interface WorkforceStats {
   busyWorkers: number;        // Workers actively working
   idleWorkers: number;        // Workers not working (excess population)
   workerRatio: number;        // Ratio of population to requirement (0-1, capped at 1)
-  foodDemand: number;         // Food rations per hour
-  medicalDemand: number;      // Medical supplies per hour
+  bonusMultiplier: number;    // Population-weighted racial scaling of workforce bonuses
+  races: RaceWorkforceStats[];
+  upkeep: ResourceAmount[];   // Upkeep wares per hour for the whole population
+}
+
+/**
+ * Get the upkeep table for a habitat race, falling back to Argon upkeep.
+ */
+export function getRaceWorkforce(
+  race: string,
+  tables?: Record<string, RaceWorkforce>
+): RaceWorkforce {
+  return tables?.[race] ?? DEFAULT_RACE_WORKFORCE;
+}
+
+/**
+ * Collect a station's habitat capacity per race.
+ */
+export function getHabitatCapacities(station: PlanStation, gameData: GameData): HabitatCapacity[] {
+  const habitats: HabitatCapacity[] = [];
+  for (const planModule of station.modules) {
+    const habModule = gameData.modules.habitat[planModule.blueprintId];
+    if (habModule) {
+      habitats.push({ race: habModule.race, capacity: habModule.workforceCapacity * planModule.count });
+    }
+  }
+  return habitats;
+}
+
+/**
+ * Sum resource amounts by wareId.
+ */
+function sumUpkeep(items: ResourceAmount[]): ResourceAmount[] {
+  const map = new Map<string, number>();
+  for (const item of items) {
+    map.set(item.wareId, (map.get(item.wareId) ?? 0) + item.amount);
+  }
+  return Array.from(map.entries())
+    .map(([wareId, amount]) => ({ wareId, amount }))
+    .filter((u) => u.amount > 0);
 }
 
 /**
  * Calculate workforce statistics for a station.
+ * Population, busy and idle workers are spread over races in proportion to habitat capacity.
  *
  * @param totalWorkforceRequired - Sum of all production module workforce needs
- * @param totalWorkforceCapacity - Sum of all habitat module capacities
+ * @param habitats - Habitat capacity per race
  * @param fillHabitats - If true, populate all habitat capacity. If false, cap to production needs.
+ * @param tables - Race upkeep tables from the game data
  */
 export function calculateWorkforceStats(
   totalWorkforceRequired: number,
-  totalWorkforceCapacity: number,
-  fillHabitats: boolean = false
+  habitats: HabitatCapacity[],
+  fillHabitats: boolean = false,
+  tables?: Record<string, RaceWorkforce>
 ): WorkforceStats {
+  // Merge habitats of the same race
+  const capacityByRace = new Map<string, number>();
+  for (const habitat of habitats) {
+    if (habitat.capacity <= 0) continue;
+    capacityByRace.set(habitat.race, (capacityByRace.get(habitat.race) ?? 0) + habitat.capacity);
+  }
+  const totalWorkforceCapacity = Array.from(capacityByRace.values()).reduce((a, b) => a + b, 0);
+
   // Calculate actual population based on fillHabitats setting
   let actualPopulation: number;
   if (fillHabitats) {
@@ -64,16 +132,25 @@ export function calculateWorkforceStats(
     ? Math.min(actualPopulation / totalWorkforceRequired, 1.0)
     : 0;
 
-  // Calculate consumption per 600s cycle
-  const busyFoodPerCycle = busyWorkers * (WORKFORCE_BUSY.food / WORKFORCE_BUSY.per);
-  const idleFoodPerCycle = idleWorkers * (WORKFORCE_IDLE.food / WORKFORCE_IDLE.per);
-  const busyMedicalPerCycle = busyWorkers * (WORKFORCE_BUSY.medical / WORKFORCE_BUSY.per);
-  const idleMedicalPerCycle = idleWorkers * (WORKFORCE_IDLE.medical / WORKFORCE_IDLE.per);
+  const races: RaceWorkforceStats[] = [];
+  let weightedBonus = 0;
+
+  for (const [race, capacity] of capacityByRace) {
+    const table = getRaceWorkforce(race, tables);
+    const share = capacity / totalWorkforceCapacity;
+    const raceBusy = busyWorkers * share;
+    const raceIdle = idleWorkers * share;
 
-  // Convert to per-hour rates (3600s / 600s = 6x)
-  const hourlyMultiplier = HOUR_IN_SECONDS / WORKFORCE_BUSY.cycle;
-  const foodDemand = (busyFoodPerCycle + idleFoodPerCycle) * hourlyMultiplier;
-  const medicalDemand = (busyMedicalPerCycle + idleMedicalPerCycle) * hourlyMultiplier;
+    // Convert per-cycle consumption to per-hour rates
+    const hourlyMultiplier = HOUR_IN_SECONDS / table.cycle;
+    const upkeep = table.upkeep.map((u) => ({
+      wareId: u.ware,
+      amount: (raceBusy * (u.busy / table.per) + raceIdle * (u.idle / table.per)) * hourlyMultiplier,
+    }));
+
+    races.push({ race, capacity, population: actualPopulation * share, upkeep: sumUpkeep(upkeep) });
+    weightedBonus += (table.bonus ?? 1) * share;
+  }
 
   return {
     totalRequired: totalWorkforceRequired,
@@ -82,8 +159,9 @@ export function calculateWorkforceStats(
     busyWorkers,
     idleWorkers,
     workerRatio,
-    foodDemand,
-    medicalDemand,
+    bonusMultiplier: races.length > 0 ? weightedBonus : 1,
+    races,
+    upkeep: sumUpkeep(races.flatMap((r) => r.upkeep)),
   };
 }
 
@@ -102,49 +180,27 @@ export function getWorkforceMultiplier(
 }
 
 /**
- * Get workforce upkeep for a single habitat module based on its share of total capacity.
+ * Get workforce upkeep for a single habitat module based on its share of its race's capacity.
  *
  * @param stats - Station-wide workforce statistics
+ * @param race - The habitat module's race
  * @param moduleCapacity - This habitat module's total workforce capacity (capacity * count)
  */
 export function getWorkforceUpkeepForCapacity(
   stats: WorkforceStats,
+  race: string,
   moduleCapacity: number
 ): ResourceAmount[] {
-  if (stats.totalCapacity <= 0 || moduleCapacity <= 0) return [];
+  const raceStats = stats.races.find((r) => r.race === race);
+  if (!raceStats || raceStats.capacity <= 0 || moduleCapacity <= 0) return [];
 
-  const share = moduleCapacity / stats.totalCapacity;
-  const upkeep: ResourceAmount[] = [];
-
-  if (stats.foodDemand > 0) {
-    upkeep.push({ wareId: FOOD_WARE_ID, amount: stats.foodDemand * share });
-  }
-  if (stats.medicalDemand > 0) {
-    upkeep.push({ wareId: MEDICAL_WARE_ID, amount: stats.medicalDemand * share });
-  }
-
-  return upkeep;
+  const share = moduleCapacity / raceStats.capacity;
+  return raceStats.upkeep.map((u) => ({ wareId: u.wareId, amount: u.amount * share }));
 }
 
 /**
  * Get workforce upkeep as resource amounts (per hour).
  */
 export function getWorkforceUpkeep(stats: WorkforceStats): ResourceAmount[] {
-  const upkeep: ResourceAmount[] = [];
-
-  if (stats.foodDemand > 0) {
-    upkeep.push({
-      wareId: FOOD_WARE_ID,
-      amount: stats.foodDemand,
-    });
-  }
-
-  if (stats.medicalDemand > 0) {
-    upkeep.push({
-      wareId: MEDICAL_WARE_ID,
-      amount: stats.medicalDemand,
-    });
-  }
-
-  return upkeep;
+  return stats.upkeep;
 }
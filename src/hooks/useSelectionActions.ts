@@ -0,0 +1,162 @@
+import { useCallback } from 'react';
+import { usePlanStore, useUIStore } from '@/store';
+import {
+  PASTE_OFFSET,
+  cloneModules,
+  cloneNetworkItems,
+  copyModules,
+  copyNetworkItems,
+  type ModuleGroup,
+  type NetworkGroup,
+} from '@/lib/clipboard';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+
+type Position = { x: number; y: number };
+
+const isModuleId = (id: string) => id !== STATION_INPUT_ID && id !== STATION_OUTPUT_ID;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+/** Offset that moves a group's top-left corner to position, or the default paste offset */
+function pasteOffset(positions: Position[], position?: Position): Position {
+  if (!position || positions.length === 0) return { x: PASTE_OFFSET, y: PASTE_OFFSET };
+  return {
+    x: position.x - Math.min(...positions.map((p) => p.x)),
+    y: position.y - Math.min(...positions.map((p) => p.y)),
+  };
+}
+
+function networkPositions(group: NetworkGroup): Position[] {
+  return [...group.sectors, ...group.stations, ...group.miningSources, ...group.markets].map((n) => n.position);
+}
+
+function networkNodeIds(group: NetworkGroup): string[] {
+  return [...group.sectors, ...group.stations, ...group.miningSources, ...group.markets].map((n) => n.id);
+}
+
+/**
+ * Copy, paste, duplicate and delete for the selected nodes of the current
+ * canvas: modules in the station view, stations, sectors, mining sources and
+ * markets in the network view.
+ */
+export function useSelectionActions() {
+  // Copy the selection; returns what was copied (null if nothing)
+  const copySelection = useCallback((): ModuleGroup | NetworkGroup | null => {
+    const { viewMode, activeStationId, selectedNodeIds } = useUIStore.getState();
+    const { plan } = usePlanStore.getState();
+    if (selectedNodeIds.length === 0) return null;
+
+    if (viewMode === 'station') {
+      const station = plan.stations.find((s) => s.id === activeStationId);
+      if (!station) return null;
+      const group = copyModules(station, selectedNodeIds.filter(isModuleId));
+      return group.modules.length > 0 ? group : null;
+    }
+    if (viewMode === 'network') {
+      const group = copyNetworkItems(plan, selectedNodeIds);
+      return networkNodeIds(group).length > 0 ? group : null;
+    }
+    return null;
+  }, []);
+
+  // Add copies of a group to the current canvas and select them
+  const insert = useCallback((group: ModuleGroup | NetworkGroup, position?: Position) => {
+    const { activeStationId, selectNodes } = useUIStore.getState();
+    const planStore = usePlanStore.getState();
+
+    if ('modules' in group) {
+      if (!activeStationId) return null;
+      const pasted = cloneModules(group, pasteOffset(group.modules.map((m) => m.position), position));
+      planStore.addModules(activeStationId, pasted);
+      selectNodes(pasted.modules.map((m) => m.id));
+      return pasted;
+    }
+    const pasted = cloneNetworkItems(group, planStore.plan, pasteOffset(networkPositions(group), position));
+    planStore.addNetworkItems(pasted);
+    selectNodes(networkNodeIds(pasted));
+    return pasted;
+  }, []);
+
+  const copy = useCallback(() => {
+    const { setClipboard, showToast } = useUIStore.getState();
+    const group = copySelection();
+    if (!group) return;
+    const gameMode = usePlanStore.getState().plan.gameMode;
+    if ('modules' in group) {
+      setClipboard({ kind: 'modules', gameMode, ...group });
+      showToast(`Copied ${plural(group.modules.length, 'module')}`, 'success');
+    } else {
+      setClipboard({ kind: 'network', gameMode, ...group });
+      showToast(`Copied ${plural(networkNodeIds(group).length, 'item')}`, 'success');
+    }
+  }, [copySelection]);
+
+  // Paste the clipboard, at position (flow coordinates) or next to the copied items
+  const paste = useCallback((position?: Position) => {
+    const { viewMode, clipboard, setClipboard, showToast } = useUIStore.getState();
+    if (!clipboard) return;
+
+    if (clipboard.gameMode !== usePlanStore.getState().plan.gameMode) {
+      showToast('The copied items are from a plan with another game data set', 'error');
+      return;
+    }
+    if (clipboard.kind === 'modules' && viewMode !== 'station') {
+      showToast('Open a station to paste modules', 'error');
+      return;
+    }
+    if (clipboard.kind === 'network' && viewMode !== 'network') {
+      showToast('Go back to the network to paste stations and sectors', 'error');
+      return;
+    }
+
+    const pasted = insert(clipboard, position);
+    // The next paste lands further along instead of on top of this one
+    if (pasted) setClipboard({ ...clipboard, ...pasted });
+  }, [insert]);
+
+  const duplicate = useCallback(() => {
+    const group = copySelection();
+    if (group) insert(group);
+  }, [copySelection, insert]);
+
+  const remove = useCallback(() => {
+    const { viewMode, activeStationId, selectedNodeIds, clearSelection } = useUIStore.getState();
+    const planStore = usePlanStore.getState();
+    if (selectedNodeIds.length === 0) return;
+
+    if (viewMode === 'station' && activeStationId) {
+      // Station Input and Output can't be removed
+      const moduleIds = selectedNodeIds.filter(isModuleId);
+      if (moduleIds.length === 0) return;
+      planStore.removeModules(activeStationId, moduleIds);
+    } else if (viewMode === 'network') {
+      planStore.removeNetworkItems(selectedNodeIds);
+    }
+    clearSelection();
+  }, []);
+
+  // Keyboard shortcuts for canvases; returns true when the key was handled
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent): boolean => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return false;
+
+      const key = event.key.toLowerCase();
+      if (event.metaKey || event.ctrlKey) {
+        const action = { c: copy, v: () => paste(), d: duplicate }[key];
+        if (!action) return false;
+        event.preventDefault();
+        action();
+        return true;
+      }
+      if ((key === 'delete' || key === 'backspace') && useUIStore.getState().selectedNodeIds.length > 0) {
+        remove();
+        return true;
+      }
+      return false;
+    },
+    [copy, paste, duplicate, remove]
+  );
+
+  return { copy, paste, duplicate, remove, handleKeyDown };
+}
@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { useGameDataStore, useUIStore } from '@/store';
+import {
+  buildSupplyTree,
+  findRecipeForModule,
+  flattenSupplyTree,
+  getDefaultProducerModule,
+  getRecipeRates,
+} from '@/engine';
+
+/**
+ * Supply chain for the ware shown in the supply chain view, at the chosen
+ * rate or the output of one producer module.
+ */
+export function useSupplyChain() {
+  const gameData = useGameDataStore((s) => s.gameData);
+  const wareId = useUIStore((s) => s.supplyChainWareId);
+  const rate = useUIStore((s) => s.supplyChainRate);
+
+  return useMemo(() => {
+    if (!gameData || !wareId) return null;
+    const module = getDefaultProducerModule(wareId, gameData);
+    const recipe = module ? findRecipeForModule(module, gameData.recipes) : null;
+    const moduleOutput = recipe ? getRecipeRates(recipe).output : 0;
+    const amount = rate ?? moduleOutput;
+    return {
+      wareId,
+      amount,
+      moduleOutput,
+      chain: flattenSupplyTree(buildSupplyTree(wareId, amount, gameData)),
+    };
+  }, [gameData, wareId, rate]);
+}
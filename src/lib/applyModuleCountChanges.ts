@@ -0,0 +1,211 @@
+import { nanoid } from 'nanoid';
+import type {
+  GameData,
+  Plan,
+  PlanModule,
+  PlanModuleConnection,
+  PlanStation,
+} from '@/types';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import { computeStation, type ExportTarget, type ModuleCountChange } from '@/engine';
+
+// Spacing for modules added below the existing station layout
+const COLUMN_WIDTH = 320;
+const ROW_HEIGHT = 260;
+
+/**
+ * Scale unlocked connection amounts when a module's count changes.
+ * Outgoing connections and Station Input supply scale with the module.
+ */
+export function scaleModuleConnections(
+  connections: PlanModuleConnection[],
+  moduleId: string,
+  scaleFactor: number
+): PlanModuleConnection[] {
+  return connections.map((conn) => {
+    if (conn.locked) return conn;
+    if (conn.sourceModuleId === moduleId) {
+      return { ...conn, amount: conn.amount * scaleFactor };
+    }
+    if (conn.targetModuleId === moduleId && conn.sourceModuleId === STATION_INPUT_ID) {
+      return { ...conn, amount: conn.amount * scaleFactor };
+    }
+    return conn;
+  });
+}
+
+/**
+ * Apply optimizer module count changes to a plan.
+ * - Grows or shrinks existing modules of the same blueprint
+ * - Adds new modules below the station's current layout
+ * - Wires new modules to in-station producers/consumers and to the
+ *   Station I/O nodes where wares cross the station boundary
+ */
+export function applyModuleCountChanges(
+  plan: Plan,
+  changes: ModuleCountChange[],
+  gameData: GameData,
+  targets: ExportTarget[]
+): Plan {
+  const stations = plan.stations.map((station) => {
+    const stationChanges = changes.filter((c) => c.stationId === station.id);
+    if (stationChanges.length === 0) return station;
+
+    let modules = [...station.modules];
+    let connections = [...(station.moduleConnections ?? [])];
+    const added: PlanModule[] = [];
+    const baseY = modules.length > 0
+      ? Math.max(...modules.map((m) => m.position.y)) + ROW_HEIGHT
+      : 0;
+
+    for (const change of stationChanges) {
+      let delta = change.proposedCount - change.currentCount;
+      const existing = modules.filter((m) => m.blueprintId === change.blueprintId);
+
+      if (delta > 0) {
+        const last = existing[existing.length - 1];
+        if (last) {
+          connections = scaleModuleConnections(connections, last.id, (last.count + delta) / last.count);
+          modules = modules.map((m) => (m.id === last.id ? { ...m, count: m.count + delta } : m));
+        } else {
+          const module: PlanModule = {
+            id: nanoid(),
+            blueprintId: change.blueprintId,
+            count: delta,
+            position: { x: added.length * COLUMN_WIDTH, y: baseY },
+          };
+          modules.push(module);
+          added.push(module);
+        }
+        continue;
+      }
+
+      // Shrink from the most recently added module backwards
+      for (const module of [...existing].reverse()) {
+        if (delta >= 0) break;
+        const removed = Math.min(module.count, -delta);
+        delta += removed;
+
+        if (removed === module.count) {
+          modules = modules.filter((m) => m.id !== module.id);
+          connections = connections.filter(
+            (c) => c.sourceModuleId !== module.id && c.targetModuleId !== module.id
+          );
+        } else {
+          connections = scaleModuleConnections(connections, module.id, (module.count - removed) / module.count);
+          modules = modules.map((m) => (m.id === module.id ? { ...m, count: m.count - removed } : m));
+        }
+      }
+    }
+
+    const updated: PlanStation = { ...station, modules, moduleConnections: connections };
+    if (added.length === 0) return updated;
+
+    return {
+      ...updated,
+      moduleConnections: [
+        ...connections,
+        ...wireAddedModules(updated, added, plan, gameData, targets),
+      ],
+    };
+  });
+
+  return { ...plan, stations, updatedAt: new Date().toISOString() };
+}
+
+function wireAddedModules(
+  station: PlanStation,
+  added: PlanModule[],
+  plan: Plan,
+  gameData: GameData,
+  targets: ExportTarget[]
+): PlanModuleConnection[] {
+  const sc = computeStation(station, plan.sectors, gameData);
+  const addedIds = new Set(added.map((m) => m.id));
+  const existing = station.moduleConnections ?? [];
+  const newConnections: PlanModuleConnection[] = [];
+
+  // Wares that cross this station's boundary over inter-station connections or targets
+  const exportWares = new Set([
+    ...plan.connections.filter((c) => c.sourceStationId === station.id).map((c) => c.wareId),
+    ...targets.filter((t) => t.stationId === station.id).map((t) => t.wareId),
+  ]);
+  const importWares = new Set(
+    plan.connections.filter((c) => c.targetStationId === station.id).map((c) => c.wareId)
+  );
+
+  const isConnected = (sourceModuleId: string, targetModuleId: string, wareId: string) =>
+    [...existing, ...newConnections].some(
+      (c) =>
+        c.sourceModuleId === sourceModuleId &&
+        c.targetModuleId === targetModuleId &&
+        c.wareId === wareId
+    );
+
+  const connect = (sourceModuleId: string, targetModuleId: string, wareId: string) => {
+    if (isConnected(sourceModuleId, targetModuleId, wareId)) return;
+    const isStationIO = sourceModuleId === STATION_INPUT_ID || targetModuleId === STATION_OUTPUT_ID;
+    const sourceGross = sc.modules
+      .find((m) => m.moduleId === sourceModuleId)
+      ?.grossOutputs.find((o) => o.wareId === wareId)?.amount ?? 0;
+    const targetNeed = sc.modules
+      .find((m) => m.moduleId === targetModuleId)
+      ?.grossInputs.find((i) => i.wareId === wareId)?.amount ?? 0;
+    const amount = isStationIO
+      ? Math.max(sourceGross, targetNeed)
+      : Math.min(sourceGross, targetNeed);
+
+    newConnections.push({
+      id: nanoid(),
+      sourceModuleId,
+      targetModuleId,
+      wareId,
+      amount,
+      mode: 'auto',
+      locked: false,
+      // No ratio for station I/O connections - they don't auto-scale
+      ratio: isStationIO ? undefined : sourceGross > 0 ? amount / sourceGross : 0,
+    });
+  };
+
+  const producersOf = (wareId: string) =>
+    sc.modules.filter((m) => m.grossOutputs.some((o) => o.wareId === wareId));
+
+  for (const module of added) {
+    const mc = sc.modules.find((m) => m.moduleId === module.id);
+    if (!mc) continue;
+
+    // Inputs: take from an in-station producer first, Station Input for the rest
+    for (const input of mc.grossInputs) {
+      const producers = producersOf(input.wareId).filter((p) => p.moduleId !== module.id);
+      if (producers.length > 0) {
+        connect(producers[0].moduleId, module.id, input.wareId);
+      }
+      if (producers.length === 0 || importWares.has(input.wareId)) {
+        connect(STATION_INPUT_ID, module.id, input.wareId);
+      }
+    }
+
+    // Outputs: feed in-station consumers not yet supplied by a module, then export
+    for (const output of mc.grossOutputs) {
+      for (const consumer of sc.modules) {
+        if (consumer.moduleId === module.id || addedIds.has(consumer.moduleId)) continue;
+        if (!consumer.grossInputs.some((i) => i.wareId === output.wareId)) continue;
+
+        const suppliedByModule = existing.some(
+          (c) =>
+            c.targetModuleId === consumer.moduleId &&
+            c.wareId === output.wareId &&
+            c.sourceModuleId !== STATION_INPUT_ID
+        );
+        if (!suppliedByModule) connect(module.id, consumer.moduleId, output.wareId);
+      }
+
+      if (exportWares.has(output.wareId)) {
+        connect(module.id, STATION_OUTPUT_ID, output.wareId);
+      }
+    }
+  }
+
+  return newConnections;
+}
@@ -0,0 +1,230 @@
+import { getWareTiers } from '@/engine';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import type { GameData, Plan, PlanSector, PlanStation } from '@/types';
+
+/*
+ * Layered layouts for the station and network canvases: nodes go in columns
+ * by production tier, suppliers left of the nodes they feed. Locked nodes
+ * keep their positions.
+ */
+
+// Station canvas grid (matches solved and generated stations)
+const MODULE_COLUMN_WIDTH = 320;
+const MODULE_ROW_HEIGHT = 260;
+
+// Network canvas grid; station nodes are about 260 x 140
+const NETWORK_COLUMN_WIDTH = 360;
+const NETWORK_ROW_HEIGHT = 220;
+const NODE_WIDTH = 260;
+const NODE_HEIGHT = 160;
+
+// Space around sector contents (the sector label sits above the box) and between blocks
+const SECTOR_PADDING = 60;
+const BLOCK_GAP = 160;
+
+interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+type Position = { x: number; y: number };
+
+/**
+ * Longest-path layering: every node sits at least one layer right of its
+ * suppliers, and no further left than its minimum layer. Edges that close a
+ * loop are ignored.
+ */
+function assignLayers(ids: string[], edges: LayoutEdge[], minLayers?: Map<string, number>): Map<string, number> {
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const edge of edges) {
+    if (edge.source !== edge.target && outgoing.has(edge.target)) {
+      outgoing.get(edge.source)?.push(edge.target);
+    }
+  }
+
+  // Depth-first post-order, skipping back edges, gives a topological order
+  const state = new Map<string, 'visiting' | 'done'>();
+  const forward = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const order: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const target of outgoing.get(id)!) {
+      if (state.get(target) === 'visiting') continue;
+      forward.get(id)!.push(target);
+      if (!state.has(target)) visit(target);
+    }
+    state.set(id, 'done');
+    order.push(id);
+  };
+  ids.forEach((id) => state.has(id) || visit(id));
+
+  const layers = new Map(ids.map((id) => [id, minLayers?.get(id) ?? 0]));
+  for (const id of order.reverse()) {
+    for (const target of forward.get(id)!) {
+      layers.set(target, Math.max(layers.get(target)!, layers.get(id)! + 1));
+    }
+  }
+  return layers;
+}
+
+/**
+ * Group nodes into columns (empty layers dropped) and order each column by
+ * the average row of the suppliers in earlier columns, to keep edges short.
+ */
+function orderColumns(ids: string[], layers: Map<string, number>, edges: LayoutEdge[]): string[][] {
+  const distinct = [...new Set(ids.map((id) => layers.get(id)!))].sort((a, b) => a - b);
+  const columns = distinct.map((layer) => ids.filter((id) => layers.get(id) === layer));
+
+  const rows = new Map<string, number>();
+  for (const column of columns) {
+    const barycenter = (id: string) => {
+      const supplierRows = edges
+        .filter((e) => e.target === id && rows.has(e.source))
+        .map((e) => rows.get(e.source)!);
+      return supplierRows.length > 0
+        ? supplierRows.reduce((sum, row) => sum + row, 0) / supplierRows.length
+        : Infinity;
+    };
+    const weights = new Map(column.map((id) => [id, barycenter(id)]));
+    column.sort((a, b) => {
+      const diff = weights.get(a)! - weights.get(b)!;
+      return Number.isNaN(diff) ? 0 : diff;
+    });
+    column.forEach((id, row) => rows.set(id, row));
+  }
+  return columns;
+}
+
+/**
+ * Arrange a station's production modules in columns by tier of their ware,
+ * pulled right of the modules that supply them. Habitats and storage go in a
+ * row underneath; Station Input and Output sit either side.
+ */
+export function layoutStation(station: PlanStation, gameData: GameData): PlanStation {
+  const wareTiers = getWareTiers(gameData);
+  const production = station.modules.filter((m) => gameData.modules.production[m.blueprintId]);
+  const others = station.modules.filter((m) => !gameData.modules.production[m.blueprintId]);
+
+  const ids = production.map((m) => m.id);
+  const edges = station.moduleConnections
+    .filter((c) => c.sourceModuleId !== STATION_INPUT_ID && c.targetModuleId !== STATION_OUTPUT_ID)
+    .map((c) => ({ source: c.sourceModuleId, target: c.targetModuleId }));
+  const minLayers = new Map(
+    production.map((m) => {
+      const wareId = gameData.modules.production[m.blueprintId].producedWareId.split(' ')[0];
+      return [m.id, wareTiers.get(wareId) ?? 0];
+    })
+  );
+
+  // Locked modules still shape the layers but keep their place
+  const isLocked = new Set(station.modules.filter((m) => m.locked).map((m) => m.id));
+  const layers = assignLayers(ids, edges, minLayers);
+  const columns = orderColumns(ids, layers, edges).map((column) => column.filter((id) => !isLocked.has(id)));
+
+  const positions = new Map<string, Position>();
+  columns.forEach((column, col) =>
+    column.forEach((id, row) => positions.set(id, { x: col * MODULE_COLUMN_WIDTH, y: row * MODULE_ROW_HEIGHT }))
+  );
+
+  const rowCount = Math.max(0, ...columns.map((column) => column.length));
+  const perRow = Math.max(columns.length, 3);
+  others
+    .filter((m) => !m.locked)
+    .forEach((m, index) =>
+      positions.set(m.id, {
+        x: (index % perRow) * MODULE_COLUMN_WIDTH,
+        y: (rowCount + Math.floor(index / perRow)) * MODULE_ROW_HEIGHT,
+      })
+    );
+
+  return {
+    ...station,
+    modules: station.modules.map((m) => (positions.has(m.id) ? { ...m, position: positions.get(m.id)! } : m)),
+    stationInputPosition: { x: -MODULE_COLUMN_WIDTH, y: 0 },
+    stationOutputPosition: { x: Math.max(columns.length, 1) * MODULE_COLUMN_WIDTH, y: 0 },
+  };
+}
+
+/**
+ * Arrange stations, mining sources and markets in columns by how far down
+ * the supply chain they are. Each sector becomes a block of its own members,
+ * resized to fit; blocks run left to right by their average column.
+ */
+export function layoutNetwork(plan: Plan): Plan {
+  const nodes = [
+    ...plan.stations.map((s) => ({ id: s.id, sectorId: s.sectorId, locked: s.locked })),
+    ...(plan.miningSources ?? []).map((m) => ({ id: m.id, sectorId: m.sectorId, locked: m.locked })),
+    ...(plan.markets ?? []).map((m) => ({ id: m.id, sectorId: m.sectorId, locked: m.locked })),
+  ];
+  const ids = nodes.map((n) => n.id);
+  const edges = plan.connections.map((c) => ({ source: c.sourceStationId, target: c.targetStationId }));
+  const layers = assignLayers(ids, edges);
+  const columns = orderColumns(ids, layers, edges);
+  const rows = new Map(columns.flatMap((column) => column.map((id, row) => [id, row] as const)));
+
+  // One block per sector plus one for nodes outside sectors
+  const sectorIds = new Set(plan.sectors.map((s) => s.id));
+  const blockOf = (sectorId: string | null) => (sectorId && sectorIds.has(sectorId) ? sectorId : null);
+  const blocks = [...plan.sectors.map((s) => s.id as string | null), null].map((sectorId) => {
+    const members = nodes.filter((n) => blockOf(n.sectorId) === sectorId).map((n) => n.id);
+    const averageLayer = members.length > 0
+      ? members.reduce((sum, id) => sum + layers.get(id)!, 0) / members.length
+      : Infinity;
+    return { sectorId, members, averageLayer };
+  });
+  blocks.sort((a, b) => (a.averageLayer === b.averageLayer ? 0 : a.averageLayer < b.averageLayer ? -1 : 1));
+
+  const isLocked = new Set(nodes.filter((n) => n.locked).map((n) => n.id));
+  const positions = new Map<string, Position>();
+  const sectorUpdates = new Map<string, Pick<PlanSector, 'position' | 'size'>>();
+  // Blocks start right of any locked sector so they don't land on it
+  const lockedEdges = plan.sectors.filter((s) => s.locked).map((s) => s.position.x + s.size.width + BLOCK_GAP);
+  let cursorX = Math.max(0, ...lockedEdges);
+
+  for (const block of blocks) {
+    const sector = plan.sectors.find((s) => s.id === block.sectorId);
+    if (!sector && block.members.length === 0) continue;
+
+    // Columns and rows local to the block, in the network-wide order
+    const blockLayers = [...new Set(block.members.map((id) => layers.get(id)!))].sort((a, b) => a - b);
+    const blockColumns = blockLayers.map((layer) =>
+      block.members
+        .filter((id) => layers.get(id) === layer && !isLocked.has(id))
+        .sort((a, b) => rows.get(a)! - rows.get(b)!)
+    );
+    const columnCount = Math.max(1, blockColumns.length);
+    const rowCount = Math.max(1, ...blockColumns.map((column) => column.length));
+    const padding = sector ? SECTOR_PADDING : 0;
+    const width = (columnCount - 1) * NETWORK_COLUMN_WIDTH + NODE_WIDTH + padding * 2;
+    const height = (rowCount - 1) * NETWORK_ROW_HEIGHT + NODE_HEIGHT + padding * 2;
+
+    // Locked sectors stay put (at their size); their members are arranged inside
+    const origin = sector?.locked ? sector.position : { x: cursorX, y: 0 };
+    if (sector && !sector.locked) {
+      sectorUpdates.set(sector.id, {
+        position: origin,
+        size: { width: Math.max(width, 400), height: Math.max(height, 300) },
+      });
+    }
+    blockColumns.forEach((column, col) =>
+      column.forEach((id, row) =>
+        positions.set(id, {
+          x: origin.x + padding + col * NETWORK_COLUMN_WIDTH,
+          y: origin.y + padding + row * NETWORK_ROW_HEIGHT,
+        })
+      )
+    );
+    if (!sector?.locked) cursorX += Math.max(width, sector ? 400 : 0) + BLOCK_GAP;
+  }
+
+  const place = <T extends { id: string; position: Position }>(item: T): T =>
+    positions.has(item.id) ? { ...item, position: positions.get(item.id)! } : item;
+
+  return {
+    ...plan,
+    sectors: plan.sectors.map((s) => (sectorUpdates.has(s.id) ? { ...s, ...sectorUpdates.get(s.id)! } : s)),
+    stations: plan.stations.map(place),
+    miningSources: plan.miningSources?.map(place),
+    markets: plan.markets?.map(place),
+  };
+}
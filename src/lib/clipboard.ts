@@ -0,0 +1,159 @@
+import { nanoid } from 'nanoid';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import type {
+  GameMode,
+  Plan,
+  PlanConnection,
+  PlanMarket,
+  PlanMiningSource,
+  PlanModule,
+  PlanModuleConnection,
+  PlanSector,
+  PlanStation,
+} from '@/types';
+
+// Pasted items land this far down and right of the originals (a multiple of the snap grid)
+export const PASTE_OFFSET = 48;
+
+type Position = { x: number; y: number };
+
+/** Modules and the connections among them */
+export interface ModuleGroup {
+  modules: PlanModule[];
+  moduleConnections: PlanModuleConnection[];
+}
+
+/** Network nodes and the connections among them */
+export interface NetworkGroup {
+  sectors: PlanSector[];
+  stations: PlanStation[];
+  miningSources: PlanMiningSource[];
+  markets: PlanMarket[];
+  connections: PlanConnection[];
+}
+
+/** Items copied from a plan; kept while switching stations and plans */
+export type PlanClipboard =
+  | ({ kind: 'modules'; gameMode: GameMode } & ModuleGroup)
+  | ({ kind: 'network'; gameMode: GameMode } & NetworkGroup);
+
+const isStationIO = (id: string) => id === STATION_INPUT_ID || id === STATION_OUTPUT_ID;
+
+const shift = (position: Position, offset: Position): Position => ({
+  x: position.x + offset.x,
+  y: position.y + offset.y,
+});
+
+/**
+ * Copy modules with the connections among them (and to Station Input/Output,
+ * which every station has).
+ */
+export function copyModules(station: PlanStation, moduleIds: string[]): ModuleGroup {
+  const ids = new Set(moduleIds);
+  const keep = (id: string) => ids.has(id) || isStationIO(id);
+  return {
+    modules: station.modules.filter((m) => ids.has(m.id)),
+    moduleConnections: (station.moduleConnections ?? []).filter(
+      (c) => keep(c.sourceModuleId) && keep(c.targetModuleId) && !(isStationIO(c.sourceModuleId) && isStationIO(c.targetModuleId))
+    ),
+  };
+}
+
+/**
+ * Give copied modules and their connections fresh IDs, moved by offset.
+ * Build state is reset, as the copies are not built yet.
+ */
+export function cloneModules(group: ModuleGroup, offset: Position): ModuleGroup {
+  const idMap = new Map(group.modules.map((m) => [m.id, nanoid()]));
+  const mapId = (id: string) => (isStationIO(id) ? id : idMap.get(id));
+
+  const modules = group.modules.map((m) => ({
+    ...m,
+    id: idMap.get(m.id)!,
+    position: shift(m.position, offset),
+    completed: undefined,
+  }));
+  const moduleConnections = group.moduleConnections.flatMap((c) => {
+    const sourceModuleId = mapId(c.sourceModuleId);
+    const targetModuleId = mapId(c.targetModuleId);
+    return sourceModuleId && targetModuleId ? [{ ...c, id: nanoid(), sourceModuleId, targetModuleId }] : [];
+  });
+  return { modules, moduleConnections };
+}
+
+/**
+ * Copy network nodes. A selected sector brings along everything in it;
+ * connections are kept when both ends are copied.
+ */
+export function copyNetworkItems(plan: Plan, nodeIds: string[]): NetworkGroup {
+  const ids = new Set(nodeIds);
+  const sectors = plan.sectors.filter((s) => ids.has(s.id));
+  const sectorIds = new Set(sectors.map((s) => s.id));
+  const included = <T extends { id: string; sectorId: string | null }>(item: T) =>
+    ids.has(item.id) || (item.sectorId !== null && sectorIds.has(item.sectorId));
+
+  const stations = plan.stations.filter(included);
+  const miningSources = (plan.miningSources ?? []).filter(included);
+  const markets = (plan.markets ?? []).filter(included);
+  const copied = new Set([...stations, ...miningSources, ...markets].map((n) => n.id));
+  const connections = plan.connections.filter(
+    (c) => copied.has(c.sourceStationId) && copied.has(c.targetStationId)
+  );
+  return { sectors, stations, miningSources, markets, connections };
+}
+
+/**
+ * Give copied network nodes, their modules and connections fresh IDs, moved
+ * by offset, route points included. Nodes stay in their sector when it was
+ * copied too, or when the target plan has it; otherwise they end up outside
+ * any sector.
+ */
+export function cloneNetworkItems(group: NetworkGroup, target: Plan, offset: Position): NetworkGroup {
+  const idMap = new Map(
+    [...group.sectors, ...group.stations, ...group.miningSources, ...group.markets].map((n) => [n.id, nanoid()])
+  );
+  const targetSectorIds = new Set(target.sectors.map((s) => s.id));
+  const mapSector = (sectorId: string | null) =>
+    sectorId === null ? null : idMap.get(sectorId) ?? (targetSectorIds.has(sectorId) ? sectorId : null);
+
+  const sectors = group.sectors.map((s) => ({
+    ...s,
+    id: idMap.get(s.id)!,
+    position: shift(s.position, offset),
+  }));
+  const stations = group.stations.map((s) => {
+    const { modules, moduleConnections } = cloneModules(
+      { modules: s.modules, moduleConnections: s.moduleConnections ?? [] },
+      { x: 0, y: 0 }
+    );
+    return {
+      ...s,
+      id: idMap.get(s.id)!,
+      sectorId: mapSector(s.sectorId),
+      position: shift(s.position, offset),
+      modules,
+      moduleConnections,
+      completed: undefined,
+    };
+  });
+  const miningSources = group.miningSources.map((m) => ({
+    ...m,
+    id: idMap.get(m.id)!,
+    sectorId: mapSector(m.sectorId),
+    position: shift(m.position, offset),
+  }));
+  const markets = group.markets.map((m) => ({
+    ...m,
+    id: idMap.get(m.id)!,
+    sectorId: mapSector(m.sectorId),
+    position: shift(m.position, offset),
+  }));
+  const connections = group.connections.map((c) => ({
+    ...c,
+    id: nanoid(),
+    sourceStationId: idMap.get(c.sourceStationId)!,
+    targetStationId: idMap.get(c.targetStationId)!,
+    routePoints: c.routePoints?.map((point) => shift(point, offset)),
+  }));
+  return { sectors, stations, miningSources, markets, connections };
+}
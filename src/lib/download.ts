@@ -0,0 +1,19 @@
+// How long the object URL stays valid after the download starts
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Save text as a file through the browser's download prompt.
+ */
+export function downloadFile(filename: string, content: string | Blob, type = 'text/plain') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Firefox and Safari ignore clicks on links outside the document
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can abort the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,98 @@
+import { XMLBuilder } from 'fast-xml-parser';
+import type { PlanStation } from '@/types';
+
+/** Options for exporting a station as an in-game construction plan */
+export interface ConstructionPlanOptions {
+  /** Add a dock area so ships can trade with the station */
+  includeDock: boolean;
+  /** Add a connection structure at the start of each module row */
+  includeConnections: boolean;
+  /** Spread modules over a grid instead of stacking them at the origin */
+  gridLayout: boolean;
+}
+
+export const DEFAULT_CONSTRUCTION_PLAN_OPTIONS: ConstructionPlanOptions = {
+  includeDock: true,
+  includeConnections: true,
+  gridLayout: true,
+};
+
+// Generic Argon macros, available in every game mode
+const DOCK_MACRO = 'dockarea_arg_m_station_01_macro';
+const CONNECTION_MACRO = 'struct_arg_cross_01_macro';
+
+// Distance between grid cells in metres
+const GRID_SPACING = 1500;
+
+interface ConstructionEntry {
+  macro: string;
+  column: number;
+  row: number;
+}
+
+/**
+ * Lay out a station's modules (one entry per built module) on a square grid.
+ * The dock sits in front of the first row; connection structures start each row.
+ */
+function layoutEntries(station: PlanStation, options: ConstructionPlanOptions): ConstructionEntry[] {
+  const macros = station.modules.flatMap((module) =>
+    Array.from({ length: module.count }, () => module.blueprintId)
+  );
+  const columns = Math.max(Math.ceil(Math.sqrt(macros.length)), 1);
+  const firstColumn = options.includeConnections ? 1 : 0;
+
+  const entries: ConstructionEntry[] = [];
+  if (options.includeDock) {
+    entries.push({ macro: DOCK_MACRO, column: 0, row: -1 });
+  }
+  macros.forEach((macro, index) => {
+    const row = Math.floor(index / columns);
+    const column = index % columns;
+    if (column === 0 && options.includeConnections) {
+      entries.push({ macro: CONNECTION_MACRO, column: 0, row });
+    }
+    entries.push({ macro, column: firstColumn + column, row });
+  });
+  return entries;
+}
+
+/**
+ * Export a station as an X4 constructionplans.xml file the in-game station
+ * editor can load (place it in the game's user folder).
+ */
+export function exportConstructionPlan(
+  station: PlanStation,
+  options: ConstructionPlanOptions = DEFAULT_CONSTRUCTION_PLAN_OPTIONS
+): string {
+  const entries = layoutEntries(station, options).map((entry, index) => ({
+    '@_index': index + 1,
+    '@_macro': entry.macro,
+    ...(options.gridLayout && {
+      offset: {
+        position: {
+          '@_x': entry.column * GRID_SPACING,
+          '@_y': 0,
+          '@_z': entry.row * GRID_SPACING,
+        },
+      },
+    }),
+  }));
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true,
+    indentBy: '  ',
+    suppressEmptyNode: true,
+  });
+  const xml = builder.build({
+    plans: {
+      plan: {
+        '@_id': `player_${station.id}`,
+        '@_name': station.name,
+        entry: entries,
+      },
+    },
+  });
+  return `<?xml version="1.0" encoding="utf-8"?>\n${xml}`;
+}
@@ -1,9 +1,28 @@
 import { Plan } from '../types/plan';
+import { deflate, toBase64Url } from './compression';
+
+/** Current export format version */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/** Prefix of compressed exports, e.g. "x4p1." */
+export const EXPORT_PREFIX = `x4p${EXPORT_FORMAT_VERSION}.`;
+
+/** URL fragment key for shared plan links (#plan=...) */
+export const SHARE_HASH_KEY = 'plan';
 
 /**
- * Export a plan to base64-encoded JSON string
+ * Export a plan to compact, URL-safe text:
+ * the format prefix followed by deflated JSON in URL-safe base64
  */
-export function exportPlan(plan: Plan): string {
+export async function exportPlan(plan: Plan): Promise<string> {
   const json = JSON.stringify(plan);
-  return btoa(json);
+  return EXPORT_PREFIX + toBase64Url(await deflate(json));
+}
+
+/**
+ * Export a plan as a link that opens it in the planner
+ */
+export async function exportPlanLink(plan: Plan): Promise<string> {
+  const base = `${window.location.origin}${window.location.pathname}`;
+  return `${base}#${SHARE_HASH_KEY}=${await exportPlan(plan)}`;
 }
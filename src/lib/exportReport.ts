@@ -0,0 +1,97 @@
+import Papa from 'papaparse';
+import type { GameData, LocalizedName, NetworkComputed, Plan, ResourceAmount } from '@/types';
+
+/** Resolves a localized game data name (see useLocale) */
+type Translate = (name: LocalizedName | undefined, fallback: string) => string;
+
+// Byte order mark so spreadsheet apps read the file as UTF-8
+const BOM = '\uFEFF';
+
+type CsvRow = (string | number)[];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function toCsv(header: string[], rows: CsvRow[]): string {
+  return BOM + Papa.unparse({ fields: header, data: rows });
+}
+
+/**
+ * Per-station report, one row per figure so it can be filtered and pivoted:
+ * modules with counts, gross and net inputs/outputs, workforce and deficits.
+ */
+export function exportStationReportCsv(
+  plan: Plan,
+  computed: NetworkComputed,
+  gameData: GameData,
+  t: Translate
+): string {
+  const wareName = (id: string) => t(gameData.wares[id]?.name, id);
+  const moduleName = (id: string) =>
+    t(
+      gameData.modules.production[id]?.name ??
+        gameData.modules.habitat[id]?.name ??
+        gameData.modules.storage[id]?.name,
+      id
+    );
+
+  const rows: CsvRow[] = [];
+  for (const station of plan.stations) {
+    const sc = computed.stations.find((s) => s.stationId === station.id);
+    if (!sc) continue;
+
+    const wareRows = (category: string, amounts: ResourceAmount[]) => {
+      for (const { wareId, amount } of amounts) {
+        rows.push([station.name, category, wareName(wareId), wareId, round(amount), 'per hour']);
+      }
+    };
+
+    for (const module of station.modules) {
+      rows.push([station.name, 'Module', moduleName(module.blueprintId), module.blueprintId, module.count, 'modules']);
+    }
+    wareRows('Gross Input', sc.grossInputs);
+    wareRows('Gross Output', sc.grossOutputs);
+    wareRows('Net Input', sc.netInputs);
+    wareRows('Net Output', sc.netOutputs);
+    rows.push(
+      [station.name, 'Workforce', 'Required', '', round(sc.totalWorkforceRequired), 'workers'],
+      [station.name, 'Workforce', 'Capacity', '', round(sc.totalWorkforceCapacity), 'workers'],
+      [station.name, 'Workforce', 'Population', '', round(sc.actualPopulation), 'workers']
+    );
+    wareRows('Workforce Upkeep', sc.workforceUpkeep);
+    wareRows(
+      'Deficit',
+      computed.deficits
+        .filter((d) => d.stationId === station.id)
+        .map((d) => ({ wareId: d.wareId, amount: d.deficit }))
+    );
+  }
+
+  return toCsv(['Station', 'Category', 'Name', 'ID', 'Amount', 'Unit'], rows);
+}
+
+/**
+ * Network totals per ware: what enters and leaves the network, and the balance.
+ */
+export function exportNetworkTotalsCsv(computed: NetworkComputed, gameData: GameData, t: Translate): string {
+  const totals = new Map<string, { input: number; output: number }>();
+  const add = (amounts: ResourceAmount[], key: 'input' | 'output') => {
+    for (const { wareId, amount } of amounts) {
+      const total = totals.get(wareId) ?? { input: 0, output: 0 };
+      total[key] += amount;
+      totals.set(wareId, total);
+    }
+  };
+  add(computed.totalInputs, 'input');
+  add(computed.totalOutputs, 'output');
+
+  const rows: CsvRow[] = [...totals].map(([wareId, { input, output }]) => [
+    t(gameData.wares[wareId]?.name, wareId),
+    wareId,
+    round(input),
+    round(output),
+    round(output - input),
+  ]);
+  rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+
+  return toCsv(['Ware', 'ID', 'Input per hour', 'Output per hour', 'Net per hour'], rows);
+}
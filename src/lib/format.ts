@@ -13,3 +13,22 @@ export function formatAmount(amount: number): string {
   }
   return amount.toFixed(0);
 }
+
+/**
+ * Format a credit value for display.
+ * Large values are abbreviated ("1.25M Cr", "840k Cr").
+ */
+export function formatCredits(credits: number): string {
+  const abs = Math.abs(credits);
+  const sign = credits < 0 ? '-' : '';
+  if (abs >= 1_000_000_000) {
+    return `${sign}${(abs / 1_000_000_000).toFixed(2)}B Cr`;
+  }
+  if (abs >= 1_000_000) {
+    return `${sign}${(abs / 1_000_000).toFixed(2)}M Cr`;
+  }
+  if (abs >= 10_000) {
+    return `${sign}${(abs / 1000).toFixed(0)}k Cr`;
+  }
+  return `${sign}${abs.toFixed(0)} Cr`;
+}
@@ -0,0 +1,161 @@
+import type {
+  GameData,
+  GameDataOverlay,
+  HabitatModule,
+  ProductionModule,
+  RaceWorkforce,
+  Recipe,
+  Sector,
+  StorageModule,
+  Ware,
+} from '@/types';
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  validate,
+  type Schema,
+  type ValidationIssue,
+} from './schema';
+
+/*
+ * Schemas for game data, used to check custom overlays once they are
+ * merged over their base data set.
+ */
+
+const localizedName = record(string());
+
+const wareInput = object({ ware: string(), amount: number({ min: 0 }) });
+
+const buildCost = optional(object({ credits: number({ min: 0 }), wares: array(wareInput) }));
+
+export const wareSchema: Schema<Ware> = object({
+  id: string(),
+  name: localizedName,
+  group: string(),
+  transport: string(),
+  volume: number({ min: 0 }),
+  tags: array(string()),
+  price: optional(object({ min: number({ min: 0 }), avg: number({ min: 0 }), max: number({ min: 0 }) })),
+});
+
+export const recipeSchema: Schema<Recipe> = object({
+  id: string(),
+  wareId: string(),
+  method: string(),
+  time: number({ min: 0 }),
+  amount: number({ min: 0 }),
+  inputs: array(wareInput),
+  workforceBonus: number({ min: 0 }),
+});
+
+export const productionModuleSchema: Schema<ProductionModule> = object({
+  id: string(),
+  name: localizedName,
+  producedWareId: string(),
+  workforceMax: number({ min: 0 }),
+  buildCost,
+});
+
+export const habitatModuleSchema: Schema<HabitatModule> = object({
+  id: string(),
+  name: localizedName,
+  race: string(),
+  workforceCapacity: number({ min: 0 }),
+  buildCost,
+});
+
+export const storageModuleSchema: Schema<StorageModule> = object({
+  id: string(),
+  name: localizedName,
+  cargoMax: number({ min: 0 }),
+  cargoType: oneOf(['container', 'liquid', 'solid']),
+  buildCost,
+});
+
+export const sectorDataSchema: Schema<Sector> = object({
+  id: string(),
+  name: string(),
+  sunlight: number({ min: 0 }),
+  owner: string(),
+  resources: record(boolean()),
+});
+
+export const raceWorkforceSchema: Schema<RaceWorkforce> = object({
+  cycle: number({ min: 0 }),
+  per: number({ min: 0 }),
+  upkeep: array(object({ ware: string(), busy: number({ min: 0 }), idle: number({ min: 0 }) })),
+  bonus: optional(number({ min: 0 })),
+});
+
+export const gameDataSchema: Schema<GameData> = object({
+  languages: record(string()),
+  wares: record(wareSchema),
+  recipes: record(recipeSchema),
+  modules: object({
+    production: record(productionModuleSchema),
+    habitat: record(habitatModuleSchema),
+    storage: record(storageModuleSchema),
+  }),
+  sectors: record(sectorDataSchema),
+  workforce: optional(record(raceWorkforceSchema)),
+});
+
+// Overlay entries are partial, so only their shape is checked up front
+const overlayEntries = optional(record(nullable(object({}))));
+
+export const overlaySchema: Schema<GameDataOverlay> = object({
+  languages: optional(record(string())),
+  wares: overlayEntries,
+  recipes: overlayEntries,
+  modules: optional(
+    object({
+      production: overlayEntries,
+      habitat: overlayEntries,
+      storage: overlayEntries,
+    })
+  ),
+  sectors: overlayEntries,
+  workforce: overlayEntries,
+});
+
+/**
+ * Check that recipes, modules and upkeep only refer to wares that exist.
+ */
+function checkWareReferences(data: GameData, issues: ValidationIssue[]) {
+  const checkWare = (wareId: string, path: string) => {
+    if (!data.wares[wareId]) issues.push({ path, message: `Unknown ware "${wareId}"` });
+  };
+
+  for (const [id, recipe] of Object.entries(data.recipes)) {
+    checkWare(recipe.wareId, `recipes.${id}.wareId`);
+    recipe.inputs.forEach((input, i) => checkWare(input.ware, `recipes.${id}.inputs[${i}].ware`));
+  }
+  for (const [id, module] of Object.entries(data.modules.production)) {
+    // Recyclers produce several wares, listed space-separated
+    for (const wareId of module.producedWareId.split(' ')) {
+      checkWare(wareId, `modules.production.${id}.producedWareId`);
+    }
+  }
+  for (const [race, workforce] of Object.entries(data.workforce ?? {})) {
+    workforce.upkeep.forEach((u, i) => checkWare(u.ware, `workforce.${race}.upkeep[${i}].ware`));
+  }
+}
+
+/**
+ * Validate merged game data field by field, then check its ware references.
+ */
+export function validateGameData(data: unknown): ValidationIssue[] {
+  const result = validate(gameDataSchema, data);
+  if (!result.success) return result.issues;
+
+  const issues: ValidationIssue[] = [];
+  checkWareReferences(result.data, issues);
+  return issues;
+}
@@ -0,0 +1,152 @@
+import { XMLParser } from 'fast-xml-parser';
+import { nanoid } from 'nanoid';
+import type { GameData, Plan, PlanModule, PlanStation } from '@/types';
+import { getNewStationPosition } from './moduleLayout';
+
+// Module grid for imported stations
+const COLUMN_WIDTH = 320;
+const ROW_HEIGHT = 260;
+const MODULES_PER_ROW = 4;
+
+/** A macro with how many times it appears in a layout */
+export interface MacroCount {
+  macro: string;
+  count: number;
+}
+
+/** A station layout read from a construction plan or savegame */
+export interface StationLayout {
+  name: string;
+  /** Macros found in the game data, as module blueprint IDs */
+  modules: MacroCount[];
+  /** Macros the game data has no module for (docks, connections, defence...) */
+  unknownMacros: MacroCount[];
+}
+
+export type StationLayoutResult =
+  | { success: true; layouts: StationLayout[] }
+  | { success: false; error: string };
+
+type XmlNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is XmlNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asNodes = (value: unknown): XmlNode[] =>
+  (Array.isArray(value) ? value : [value]).filter(isNode);
+
+function countMacros(entries: XmlNode[], gameData: GameData): Omit<StationLayout, 'name'> {
+  const known = new Map<string, number>();
+  const unknown = new Map<string, number>();
+  const isModule = (macro: string) =>
+    macro in gameData.modules.production ||
+    macro in gameData.modules.habitat ||
+    macro in gameData.modules.storage;
+
+  for (const entry of entries) {
+    const macro = entry['@_macro'];
+    if (typeof macro !== 'string' || !macro) continue;
+    const counts = isModule(macro) ? known : unknown;
+    counts.set(macro, (counts.get(macro) ?? 0) + 1);
+  }
+
+  const toList = (counts: Map<string, number>) =>
+    [...counts].map(([macro, count]) => ({ macro, count }));
+  return { modules: toList(known), unknownMacros: toList(unknown) };
+}
+
+/**
+ * Savegame station names are often text references like "{20102,1011}";
+ * fall back to the station code for those.
+ */
+function stationName(component: XmlNode, fallback: string): string {
+  const name = component['@_name'];
+  if (typeof name === 'string' && name && !name.startsWith('{')) return name;
+  const code = component['@_code'];
+  return typeof code === 'string' && code ? code : fallback;
+}
+
+/**
+ * Read station layouts from an X4 constructionplans.xml (every <plan>) or
+ * from savegame XML (every station <component> with a build sequence).
+ * When a savegame has player-owned stations, only those are returned.
+ */
+export function parseStationLayouts(xml: string, gameData: GameData): StationLayoutResult {
+  let root: XmlNode;
+  try {
+    root = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      parseAttributeValue: false,
+      isArray: (name) => name === 'plan' || name === 'entry' || name === 'component',
+    }).parse(xml, true);
+  } catch (error) {
+    return { success: false, error: `Invalid XML: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const plans: StationLayout[] = [];
+  const stations: { layout: StationLayout; player: boolean }[] = [];
+
+  const visit = (node: XmlNode) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (key.startsWith('@_')) continue;
+      for (const child of asNodes(value)) {
+        if (key === 'plans') {
+          for (const plan of asNodes(child.plan)) {
+            const name = stationName(plan, `Imported Plan ${plans.length + 1}`);
+            plans.push({ name, ...countMacros(asNodes(plan.entry), gameData) });
+          }
+          continue;
+        }
+        if (key === 'component' && child['@_class'] === 'station') {
+          const sequence = isNode(child.construction) ? child.construction.sequence : undefined;
+          const entries = isNode(sequence) ? asNodes(sequence.entry) : [];
+          if (entries.length > 0) {
+            const name = stationName(child, `Imported Station ${stations.length + 1}`);
+            stations.push({
+              layout: { name, ...countMacros(entries, gameData) },
+              player: child['@_owner'] === 'player',
+            });
+          }
+        }
+        visit(child);
+      }
+    }
+  };
+  visit(root);
+
+  const playerStations = stations.filter((s) => s.player);
+  const layouts = [
+    ...plans,
+    ...(playerStations.length > 0 ? playerStations : stations).map((s) => s.layout),
+  ];
+  if (layouts.length === 0) {
+    return { success: false, error: 'No construction plans or stations found in the XML' };
+  }
+  return { success: true, layouts };
+}
+
+/**
+ * Create an unwired station from a layout, placed to the right of the
+ * plan's existing stations.
+ */
+export function createStationFromLayout(layout: StationLayout, plan: Plan): PlanStation {
+  const modules: PlanModule[] = layout.modules.map(({ macro, count }, index) => ({
+    id: nanoid(),
+    blueprintId: macro,
+    count,
+    position: {
+      x: (index % MODULES_PER_ROW) * COLUMN_WIDTH,
+      y: Math.floor(index / MODULES_PER_ROW) * ROW_HEIGHT,
+    },
+  }));
+  return {
+    id: nanoid(),
+    name: layout.name,
+    sectorId: null,
+    position: getNewStationPosition(plan),
+    sunlightOverride: null,
+    modules,
+    moduleConnections: [],
+  };
+}
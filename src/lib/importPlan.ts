@@ -1,20 +1,48 @@
 import { nanoid } from 'nanoid';
 import { Plan } from '../types/plan';
+import { inflate, fromBase64Url } from './compression';
+import { EXPORT_PREFIX, SHARE_HASH_KEY } from './exportPlan';
+import { migratePlan } from './migratePlan';
+import { validatePlan } from './planSchema';
+import type { ValidationIssue } from './schema';
 
 type ImportResult =
   | { success: true; plan: Plan }
-  | { success: false; error: string };
+  | { success: false; error: string; issues?: ValidationIssue[] };
+
+// Any compressed export, whatever its format version
+const EXPORT_FORMAT_PATTERN = /^x4p\d+\./;
+
+/**
+ * Decode exported text to JSON. Accepts compressed exports, whole share links
+ * and the legacy plain base64 format.
+ */
+async function decodeExport(input: string): Promise<string> {
+  // Take the data out of a share link
+  const marker = `#${SHARE_HASH_KEY}=`;
+  const data = input.includes(marker) ? input.slice(input.indexOf(marker) + marker.length) : input;
+
+  if (data.startsWith(EXPORT_PREFIX)) {
+    return inflate(fromBase64Url(data.slice(EXPORT_PREFIX.length)));
+  }
+  if (EXPORT_FORMAT_PATTERN.test(data)) {
+    throw new Error('Exported by a newer version of the planner');
+  }
+
+  // Legacy format: plain base64-encoded JSON
+  return atob(data);
+}
 
 /**
- * Import a plan from base64-encoded JSON string
- * - Decodes base64 → JSON
- * - Validates basic structure
+ * Import a plan from exported text
+ * - Decodes the compressed or legacy base64 format → JSON
+ * - Migrates older plan versions to the current one
+ * - Validates every field
  * - Assigns new ID and timestamps
  */
-export function importPlan(base64: string): ImportResult {
+export async function importPlan(input: string): Promise<ImportResult> {
   try {
-    // Decode base64 to JSON string
-    const json = atob(base64);
+    const json = await decodeExport(input);
 
     // Parse JSON
     let parsed: unknown;
@@ -25,37 +53,31 @@ export function importPlan(base64: string): ImportResult {
     }
 
     // Basic type checking
-    if (typeof parsed !== 'object' || parsed === null) {
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
       return { success: false, error: 'Invalid plan format: not an object' };
     }
 
-    const data = parsed as Record<string, unknown>;
-
-    // Validate required fields
-    if (typeof data.name !== 'string') {
-      return { success: false, error: 'Missing or invalid field: name' };
-    }
-
-    if (typeof data.version !== 'number') {
-      return { success: false, error: 'Missing or invalid field: version' };
+    // Bring older plans up to the current version
+    const migrated = migratePlan(parsed as Record<string, unknown>);
+    if (!migrated.success) {
+      return { success: false, error: migrated.error };
     }
 
-    if (!Array.isArray(data.stations)) {
-      return { success: false, error: 'Missing or invalid field: stations' };
-    }
-
-    if (!Array.isArray(data.sectors)) {
-      return { success: false, error: 'Missing or invalid field: sectors' };
-    }
-
-    if (!Array.isArray(data.connections)) {
-      return { success: false, error: 'Missing or invalid field: connections' };
+    // Validate every field
+    const validated = validatePlan(migrated.plan);
+    if (!validated.success) {
+      const count = validated.issues.length;
+      return {
+        success: false,
+        error: `Invalid plan: ${count} problem${count === 1 ? '' : 's'} found`,
+        issues: validated.issues,
+      };
     }
 
     // Create new plan with new ID and timestamps
     const now = new Date().toISOString();
     const plan: Plan = {
-      ...(data as unknown as Plan),
+      ...validated.plan,
       id: nanoid(),
       createdAt: now,
       updatedAt: now,
@@ -63,10 +85,27 @@ export function importPlan(base64: string): ImportResult {
 
     return { success: true, plan };
   } catch (error) {
-    // Handle base64 decode errors or other unexpected errors
+    // Handle decode errors or other unexpected errors
     if (error instanceof Error) {
       return { success: false, error: `Import failed: ${error.message}` };
     }
-    return { success: false, error: 'Invalid base64 encoding' };
+    return { success: false, error: 'Invalid export data' };
   }
 }
+
+/**
+ * Get the exported plan from the page's #plan= link fragment, if any
+ */
+export function readSharedPlan(): string | null {
+  const prefix = `#${SHARE_HASH_KEY}=`;
+  const hash = window.location.hash;
+  return hash.startsWith(prefix) ? hash.slice(prefix.length) : null;
+}
+
+/**
+ * Remove the #plan= fragment so reloading does not import the plan again
+ */
+export function clearSharedPlan() {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', pathname + search);
+}
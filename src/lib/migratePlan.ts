@@ -0,0 +1,87 @@
+import type { Plan } from '@/types';
+
+/** Version written by this build; plans are migrated up to it when loaded */
+export const CURRENT_PLAN_VERSION = 2;
+
+type PlanData = Record<string, unknown>;
+
+/** Upgrades a plan from one version to the next */
+type Migration = (plan: PlanData) => PlanData;
+
+type MigrationResult =
+  | { success: true; plan: PlanData }
+  | { success: false; error: string };
+
+const isObject = (value: unknown): value is PlanData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Migration steps keyed on the version they upgrade from.
+ * Steps see unchecked data and must leave malformed fields for validation to report.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 plans may predate game modes, tags, mining sources, markets and
+  // module connection lock/ratio fields
+  1: (plan) => ({
+    ...plan,
+    gameMode: plan.gameMode || 'swi',
+    tags: plan.tags ?? [],
+    miningSources: plan.miningSources ?? [],
+    markets: plan.markets ?? [],
+    stations: Array.isArray(plan.stations)
+      ? plan.stations.map((station) =>
+          isObject(station)
+            ? {
+                ...station,
+                moduleConnections: Array.isArray(station.moduleConnections)
+                  ? station.moduleConnections.map((conn) =>
+                      isObject(conn)
+                        ? {
+                            ...conn,
+                            // Default to unlocked if not set
+                            locked: conn.locked ?? false,
+                            // Default ratio to 1.0 (100%) - will be updated on next edit
+                            ratio: conn.ratio ?? 1.0,
+                          }
+                        : conn
+                    )
+                  : station.moduleConnections ?? [],
+              }
+            : station
+        )
+      : plan.stations,
+  }),
+};
+
+/**
+ * Run a plan through every migration step from its version up to CURRENT_PLAN_VERSION.
+ * Plans without a version are treated as version 1.
+ */
+export function migratePlan(data: PlanData): MigrationResult {
+  let version = data.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { success: false, error: `Unknown plan version: ${String(data.version)}` };
+  }
+  if (version > CURRENT_PLAN_VERSION) {
+    return {
+      success: false,
+      error: `Plan version ${version} is newer than this planner supports (${CURRENT_PLAN_VERSION})`,
+    };
+  }
+
+  let plan = data;
+  while (version < CURRENT_PLAN_VERSION) {
+    plan = MIGRATIONS[version](plan);
+    version++;
+    plan = { ...plan, version };
+  }
+  return { success: true, plan };
+}
+
+/**
+ * Bring an already loaded plan up to date (plans from a newer build are left as they are).
+ */
+export function upgradePlan(plan: Plan): Plan {
+  const result = migratePlan(plan as unknown as PlanData);
+  return result.success ? (result.plan as unknown as Plan) : plan;
+}
@@ -0,0 +1,31 @@
+import type { Plan, PlanStation } from '@/types';
+
+// Grid for modules added from the palette
+const GRID_COLUMNS = 3;
+const COLUMN_WIDTH = 220;
+const ROW_HEIGHT = 150;
+const GRID_MARGIN = 50;
+
+// Gap between the rightmost station on the canvas and a generated one
+const STATION_GAP = 400;
+
+/**
+ * Position for the next module added to a station (fills a 3-column grid).
+ */
+export function getNextModulePosition(station: PlanStation): { x: number; y: number } {
+  const existingCount = station.modules.length;
+  return {
+    x: (existingCount % GRID_COLUMNS) * COLUMN_WIDTH + GRID_MARGIN,
+    y: Math.floor(existingCount / GRID_COLUMNS) * ROW_HEIGHT + GRID_MARGIN,
+  };
+}
+
+/**
+ * Network position for a generated station, right of the existing ones.
+ */
+export function getNewStationPosition(plan: Plan): { x: number; y: number } {
+  const x = plan.stations.length > 0
+    ? Math.max(...plan.stations.map((s) => s.position.x)) + STATION_GAP
+    : 0;
+  return { x, y: 0 };
+}
@@ -0,0 +1,8 @@
+// Worker side of runNetworkOptimizer
+import { optimizeNetwork } from '@/engine';
+import type { NetworkOptimizerRequest } from './runNetworkOptimizer';
+
+self.onmessage = (event: MessageEvent<NetworkOptimizerRequest>) => {
+  const { plan, gameData, options } = event.data;
+  self.postMessage(optimizeNetwork(plan, gameData, options));
+};
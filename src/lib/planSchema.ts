@@ -0,0 +1,220 @@
+import type {
+  ConnectionTransport,
+  Plan,
+  PlanConnection,
+  PlanMarket,
+  PlanMarketWare,
+  PlanMiningSource,
+  PlanModule,
+  PlanModuleConnection,
+  PlanPricing,
+  PlanSector,
+  PlanStation,
+} from '@/types';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  validate,
+  type Schema,
+  type ValidationIssue,
+} from './schema';
+import { CURRENT_PLAN_VERSION } from './migratePlan';
+
+/*
+ * Schemas for the current plan version (CURRENT_PLAN_VERSION).
+ * Older plans are migrated before they are checked against these.
+ */
+
+const position = object({ x: number(), y: number() });
+
+const orderList = optional(array(string()));
+
+const connectionMode = oneOf(['auto', 'custom', 'max', 'share']);
+
+export const sectorSchema: Schema<PlanSector> = object({
+  id: string(),
+  name: string(),
+  sunlight: number({ min: 0 }),
+  position,
+  size: object({ width: number({ min: 0 }), height: number({ min: 0 }) }),
+  locked: optional(boolean()),
+});
+
+export const moduleSchema: Schema<PlanModule> = object({
+  id: string(),
+  blueprintId: string(),
+  count: number({ min: 0, integer: true }),
+  position,
+  recipeId: optional(string()),
+  outputOrder: orderList,
+  inputOrder: orderList,
+  completed: optional(boolean()),
+  locked: optional(boolean()),
+});
+
+export const moduleConnectionSchema: Schema<PlanModuleConnection> = object({
+  id: string(),
+  sourceModuleId: string(),
+  targetModuleId: string(),
+  wareId: string(),
+  amount: number({ min: 0 }),
+  mode: optional(connectionMode),
+  share: optional(number({ min: 0, max: 100 })),
+  priority: optional(number({ integer: true })),
+  locked: optional(boolean()),
+  ratio: optional(number({ min: 0 })),
+});
+
+export const stationSchema: Schema<PlanStation> = object({
+  id: string(),
+  name: string(),
+  sectorId: nullable(string()),
+  position,
+  sunlightOverride: nullable(number({ min: 0 })),
+  modules: array(moduleSchema),
+  moduleConnections: array(moduleConnectionSchema),
+  fillHabitats: optional(boolean()),
+  outputOrder: orderList,
+  inputOrder: orderList,
+  completed: optional(boolean()),
+  locked: optional(boolean()),
+  stationInputPosition: optional(position),
+  stationOutputPosition: optional(position),
+});
+
+export const transportSchema: Schema<ConnectionTransport> = object({
+  shipClass: oneOf(['s', 'm', 'l']),
+  cargoCapacity: number({ min: 0 }),
+  ships: number({ min: 0, integer: true }),
+  jumps: number({ min: 0, integer: true }),
+  travelMinutes: optional(number({ min: 0 })),
+});
+
+export const connectionSchema: Schema<PlanConnection> = object({
+  id: string(),
+  sourceStationId: string(),
+  targetStationId: string(),
+  wareId: string(),
+  amount: number({ min: 0 }),
+  mode: optional(connectionMode),
+  share: optional(number({ min: 0, max: 100 })),
+  priority: optional(number({ integer: true })),
+  routePoints: optional(array(position)),
+  transport: optional(transportSchema),
+});
+
+export const miningSourceSchema: Schema<PlanMiningSource> = object({
+  id: string(),
+  name: string(),
+  sectorId: nullable(string()),
+  position,
+  wareId: string(),
+  miners: number({ min: 0, integer: true }),
+  yieldPerMiner: number({ min: 0 }),
+  locked: optional(boolean()),
+});
+
+export const marketWareSchema: Schema<PlanMarketWare> = object({
+  wareId: string(),
+  kind: oneOf(['supply', 'demand']),
+  limit: optional(number({ min: 0 })),
+  price: optional(number({ min: 0 })),
+});
+
+export const marketSchema: Schema<PlanMarket> = object({
+  id: string(),
+  name: string(),
+  sectorId: nullable(string()),
+  position,
+  wares: array(marketWareSchema),
+  locked: optional(boolean()),
+});
+
+export const pricingSchema: Schema<PlanPricing> = object({
+  level: oneOf(['min', 'avg', 'max']),
+  overrides: record(number({ min: 0 })),
+});
+
+export const planSchema: Schema<Plan> = object({
+  id: string(),
+  name: string(),
+  version: number({ min: CURRENT_PLAN_VERSION, max: CURRENT_PLAN_VERSION }),
+  gameMode: string(),
+  tags: array(string()),
+  createdAt: string(),
+  updatedAt: string(),
+  sectors: array(sectorSchema),
+  stations: array(stationSchema),
+  connections: array(connectionSchema),
+  miningSources: optional(array(miningSourceSchema)),
+  markets: optional(array(marketSchema)),
+  pricing: optional(pricingSchema),
+});
+
+/**
+ * Check that everything a plan refers to by ID exists, so the canvases never
+ * look up a missing station, module or sector.
+ */
+function checkReferences(plan: Plan, issues: ValidationIssue[]) {
+  const sectorIds = new Set(plan.sectors.map((s) => s.id));
+  const nodeIds = new Set([
+    ...plan.stations.map((s) => s.id),
+    ...(plan.miningSources ?? []).map((m) => m.id),
+    ...(plan.markets ?? []).map((m) => m.id),
+  ]);
+
+  const checkSector = (sectorId: string | null, path: string) => {
+    if (sectorId !== null && !sectorIds.has(sectorId)) {
+      issues.push({ path: `${path}.sectorId`, message: `Unknown sector "${sectorId}"` });
+    }
+  };
+
+  plan.stations.forEach((station, i) => {
+    checkSector(station.sectorId, `stations[${i}]`);
+    const moduleIds = new Set([STATION_INPUT_ID, STATION_OUTPUT_ID, ...station.modules.map((m) => m.id)]);
+    station.moduleConnections.forEach((conn, j) => {
+      const path = `stations[${i}].moduleConnections[${j}]`;
+      if (!moduleIds.has(conn.sourceModuleId)) {
+        issues.push({ path: `${path}.sourceModuleId`, message: `Unknown module "${conn.sourceModuleId}"` });
+      }
+      if (!moduleIds.has(conn.targetModuleId)) {
+        issues.push({ path: `${path}.targetModuleId`, message: `Unknown module "${conn.targetModuleId}"` });
+      }
+    });
+  });
+  (plan.miningSources ?? []).forEach((source, i) => checkSector(source.sectorId, `miningSources[${i}]`));
+  (plan.markets ?? []).forEach((market, i) => checkSector(market.sectorId, `markets[${i}]`));
+
+  plan.connections.forEach((conn, i) => {
+    if (!nodeIds.has(conn.sourceStationId)) {
+      issues.push({ path: `connections[${i}].sourceStationId`, message: `Unknown station "${conn.sourceStationId}"` });
+    }
+    if (!nodeIds.has(conn.targetStationId)) {
+      issues.push({ path: `connections[${i}].targetStationId`, message: `Unknown station "${conn.targetStationId}"` });
+    }
+  });
+}
+
+export type PlanValidationResult =
+  | { success: true; plan: Plan }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Validate a migrated plan field by field, then check its references.
+ */
+export function validatePlan(data: unknown): PlanValidationResult {
+  const result = validate(planSchema, data);
+  if (!result.success) return result;
+
+  const issues: ValidationIssue[] = [];
+  checkReferences(result.data, issues);
+  return issues.length === 0 ? { success: true, plan: result.data } : { success: false, issues };
+}
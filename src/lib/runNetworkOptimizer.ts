@@ -0,0 +1,41 @@
+import type { GameData, Plan } from '@/types';
+import type { NetworkOptimization, NetworkOptimizerOptions } from '@/engine';
+
+export interface NetworkOptimizerRequest {
+  plan: Plan;
+  gameData: GameData;
+  options: NetworkOptimizerOptions;
+}
+
+export interface NetworkOptimizerRun {
+  result: Promise<NetworkOptimization>;
+  /** Stop the worker; the result promise rejects */
+  cancel: () => void;
+}
+
+/**
+ * Run optimizeNetwork in a Web Worker, so solving a large plan doesn't
+ * freeze the page.
+ */
+export function runNetworkOptimizer(request: NetworkOptimizerRequest): NetworkOptimizerRun {
+  const worker = new Worker(new URL('./networkOptimizer.worker.ts', import.meta.url), { type: 'module' });
+
+  let cancel = () => worker.terminate();
+  const result = new Promise<NetworkOptimization>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<NetworkOptimization>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Optimizer failed'));
+    };
+    cancel = () => {
+      worker.terminate();
+      reject(new Error('Optimization cancelled'));
+    };
+  });
+
+  worker.postMessage(request);
+  return { result, cancel };
+}
@@ -0,0 +1,162 @@
+/**
+ * Minimal runtime schemas for checking untrusted JSON.
+ *
+ * Schemas are built from small combinators (string, number, object, array...)
+ * and report every problem they find with the path to the offending field,
+ * rather than stopping at the first one.
+ */
+
+/** One problem found while checking a value */
+export interface ValidationIssue {
+  /** Path to the field, e.g. "stations[2].modules[0].count" (empty = the value itself) */
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  /** Add the value's problems to issues */
+  check: (value: unknown, path: string, issues: ValidationIssue[]) => void;
+  /** Whether an object may leave this field out */
+  optional?: boolean;
+  /** Carries the checked type; never set at runtime */
+  readonly _type?: T;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Check a value against a schema.
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, path = ''): SchemaResult<T> {
+  const issues: ValidationIssue[] = [];
+  schema.check(value, path, issues);
+  return issues.length === 0 ? { success: true, data: value as T } : { success: false, issues };
+}
+
+/**
+ * Format an issue as "path: message".
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : typeof value;
+}
+
+export function string(): Schema<string> {
+  return {
+    check: (value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `Expected a string, got ${describe(value)}` });
+      }
+    },
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    check: (value, path, issues) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `Expected a number, got ${describe(value)}` });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `Expected a whole number, got ${value}` });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `Must be at least ${options.min}, got ${value}` });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `Must be at most ${options.max}, got ${value}` });
+      }
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check: (value, path, issues) => {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `Expected true or false, got ${describe(value)}` });
+      }
+    },
+  };
+}
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return {
+    check: (value, path, issues) => {
+      if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+        issues.push({ path, message: `Expected one of ${values.join(', ')}` });
+      }
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected a list, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check: (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        item.check(entry, path ? `${path}.${key}` : key, issues);
+      }
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOf<S extends Shape> = {
+  [K in keyof S]: S[K] extends Schema<infer T> ? T : never;
+};
+
+/**
+ * Object with known fields. Fields not in the shape are left alone.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    check: (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+        return;
+      }
+      const fields = value as Record<string, unknown>;
+      for (const [key, schema] of Object.entries(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (fields[key] === undefined) {
+          if (!schema.optional) issues.push({ path: fieldPath, message: 'Required' });
+          continue;
+        }
+        schema.check(fields[key], fieldPath, issues);
+      }
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return { check: schema.check, optional: true };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check: (value, path, issues) => {
+      if (value !== null) schema.check(value, path, issues);
+    },
+  };
+}
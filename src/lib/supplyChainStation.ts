@@ -0,0 +1,124 @@
+import { nanoid } from 'nanoid';
+import { getRecipeRates, type SupplyChain, type SupplyChainWare } from '@/engine';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import type { GameData, Plan, PlanModule, PlanModuleConnection, PlanStation } from '@/types';
+import { getNewStationPosition } from './moduleLayout';
+
+// Tier columns for generated stations (module nodes are about 240 wide)
+const COLUMN_WIDTH = 320;
+const ROW_HEIGHT = 260;
+
+/**
+ * Lay wares out in one column per tier: the deepest tier (raw resources) on
+ * the left, the requested ware on the right.
+ */
+export function layoutByTier(
+  wares: SupplyChainWare[],
+  columnWidth: number,
+  rowHeight: number
+): Map<string, { x: number; y: number }> {
+  const maxTier = Math.max(0, ...wares.map((w) => w.tier));
+  const rows = new Map<number, number>();
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const ware of wares) {
+    const row = rows.get(ware.tier) ?? 0;
+    rows.set(ware.tier, row + 1);
+    positions.set(ware.wareId, { x: (maxTier - ware.tier) * columnWidth, y: row * rowHeight });
+  }
+  return positions;
+}
+
+/** Whole modules needed to cover a fractional count */
+export function roundModuleCount(modules: number): number {
+  return Math.max(1, Math.ceil(modules - 1e-6));
+}
+
+/**
+ * Turn a supply chain into a station: one module per produced ware (rounded up),
+ * wired to the modules that consume it. Raw resources come from Station Input
+ * and the requested ware goes to Station Output.
+ */
+export function createStationFromSupplyChain(
+  chain: SupplyChain,
+  name: string,
+  plan: Plan,
+  gameData: GameData
+): PlanStation {
+  const produced = chain.wares.filter((w) => w.moduleId);
+  const positions = layoutByTier(produced, COLUMN_WIDTH, ROW_HEIGHT);
+  const columns = Math.max(0, ...[...positions.values()].map((p) => p.x / COLUMN_WIDTH)) + 1;
+
+  const modules: PlanModule[] = [];
+  const moduleIdByWare = new Map<string, string>();
+  const outputByWare = new Map<string, number>();
+  for (const ware of produced) {
+    const module: PlanModule = {
+      id: nanoid(),
+      blueprintId: ware.moduleId!,
+      count: roundModuleCount(ware.modules),
+      position: positions.get(ware.wareId)!,
+      recipeId: ware.recipeId,
+    };
+    const recipe = ware.recipeId ? gameData.recipes[ware.recipeId] : undefined;
+    modules.push(module);
+    moduleIdByWare.set(ware.wareId, module.id);
+    outputByWare.set(ware.wareId, recipe ? getRecipeRates(recipe).output * module.count : 0);
+  }
+
+  const moduleConnections: PlanModuleConnection[] = [];
+  for (const link of chain.links) {
+    const targetModuleId = moduleIdByWare.get(link.targetWareId);
+    if (!targetModuleId) continue;
+    const sourceModuleId = moduleIdByWare.get(link.sourceWareId);
+    if (sourceModuleId) {
+      const gross = outputByWare.get(link.sourceWareId) ?? 0;
+      moduleConnections.push({
+        id: nanoid(),
+        sourceModuleId,
+        targetModuleId,
+        wareId: link.sourceWareId,
+        amount: link.amount,
+        mode: 'auto',
+        locked: false,
+        ratio: gross > 0 ? Math.min(1, link.amount / gross) : 0,
+      });
+    } else {
+      // Raw resources are bought in or mined
+      moduleConnections.push({
+        id: nanoid(),
+        sourceModuleId: STATION_INPUT_ID,
+        targetModuleId,
+        wareId: link.sourceWareId,
+        amount: link.amount,
+        mode: 'auto',
+        locked: false,
+      });
+    }
+  }
+
+  const root = chain.wares[0];
+  const rootModuleId = root ? moduleIdByWare.get(root.wareId) : undefined;
+  if (root && rootModuleId) {
+    moduleConnections.push({
+      id: nanoid(),
+      sourceModuleId: rootModuleId,
+      targetModuleId: STATION_OUTPUT_ID,
+      wareId: root.wareId,
+      amount: root.amount,
+      mode: 'auto',
+      locked: false,
+    });
+  }
+
+  return {
+    id: nanoid(),
+    name,
+    sectorId: null,
+    position: getNewStationPosition(plan),
+    sunlightOverride: null,
+    modules,
+    moduleConnections,
+    stationInputPosition: { x: -COLUMN_WIDTH, y: 0 },
+    stationOutputPosition: { x: columns * COLUMN_WIDTH, y: 0 },
+  };
+}
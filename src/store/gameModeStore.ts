@@ -1,25 +1,49 @@
 import { create } from 'zustand';
-import type { GameMode } from '@/types';
+import type { DataSet, GameMode } from '@/types';
+import {
+  BUILT_IN_DATA_SETS,
+  DEFAULT_DATA_SET_ID,
+  getDataSet,
+  loadCustomDataSets,
+  saveCustomDataSets,
+} from '@/data/dataSets';
 
 const STORAGE_KEY = 'x4-game-mode';
 
 interface GameModeStore {
   gameMode: GameMode;
+  /** Shipped data sets followed by custom ones */
+  dataSets: DataSet[];
   setGameMode: (mode: GameMode) => void;
+  addDataSet: (dataSet: DataSet) => void;
+  /** Remove a custom data set (the active one and shipped ones are kept) */
+  removeDataSet: (id: string) => void;
 }
 
 function loadGameMode(): GameMode {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored === 'base' || stored === 'swi') return stored;
+    if (stored && getDataSet(stored)) return stored;
   } catch { /* ignore */ }
-  return 'swi';
+  return DEFAULT_DATA_SET_ID;
 }
 
-export const useGameModeStore = create<GameModeStore>((set) => ({
+export const useGameModeStore = create<GameModeStore>((set, get) => ({
   gameMode: loadGameMode(),
+  dataSets: [...BUILT_IN_DATA_SETS, ...loadCustomDataSets()],
   setGameMode: (mode) => {
     localStorage.setItem(STORAGE_KEY, mode);
     set({ gameMode: mode });
   },
+  addDataSet: (dataSet) => {
+    const custom = [...loadCustomDataSets(), dataSet];
+    saveCustomDataSets(custom);
+    set({ dataSets: [...BUILT_IN_DATA_SETS, ...custom] });
+  },
+  removeDataSet: (id) => {
+    if (id === get().gameMode) return;
+    const custom = loadCustomDataSets().filter((d) => d.id !== id);
+    saveCustomDataSets(custom);
+    set({ dataSets: [...BUILT_IN_DATA_SETS, ...custom] });
+  },
 }));
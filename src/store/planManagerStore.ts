@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { nanoid } from 'nanoid';
 import type { Plan, PlanMeta, GameMode } from '@/types';
+import { CURRENT_PLAN_VERSION, upgradePlan } from '@/lib/migratePlan';
 import { usePlanStore } from './planStore';
 
 const INDEX_KEY = 'x4-plan-index';
@@ -33,6 +34,8 @@ interface PlanManagerStore {
   deletePlan: (id: string) => void;
   duplicatePlan: (id: string, newName: string, newTags: string[]) => void;
   updatePlanMeta: (id: string, patch: { name?: string; tags?: string[] }) => void;
+  /** Move every plan made with one data set to another (e.g. before removing it) */
+  reassignGameMode: (from: GameMode, to: GameMode) => void;
   importPlan: (plan: Plan) => void;
 }
 
@@ -46,11 +49,7 @@ export const usePlanManagerStore = create<PlanManagerStore>((set, get) => ({
     if (legacyData) {
       try {
         const parsed = JSON.parse(legacyData);
-        const plan: Plan = parsed.state?.plan ?? parsed.plan ?? parsed;
-
-        // Add missing fields for new format
-        if (!plan.gameMode) plan.gameMode = 'swi';
-        if (!plan.tags) plan.tags = [];
+        const plan: Plan = upgradePlan(parsed.state?.plan ?? parsed.plan ?? parsed);
 
         // Save to new format
         const id = plan.id || nanoid();
@@ -105,7 +104,7 @@ export const usePlanManagerStore = create<PlanManagerStore>((set, get) => ({
     const plan: Plan = {
       id: nanoid(),
       name,
-      version: 1,
+      version: CURRENT_PLAN_VERSION,
       gameMode,
       tags,
       createdAt: now,
@@ -113,6 +112,8 @@ export const usePlanManagerStore = create<PlanManagerStore>((set, get) => ({
       sectors: [],
       stations: [],
       connections: [],
+      miningSources: [],
+      markets: [],
     };
 
     // Save plan data
@@ -260,6 +261,33 @@ export const usePlanManagerStore = create<PlanManagerStore>((set, get) => ({
     }
   },
 
+  reassignGameMode: (from, to) => {
+    const { planIndex, currentPlanId } = get();
+
+    for (const meta of planIndex) {
+      if (meta.gameMode !== from) continue;
+      const planJson = localStorage.getItem(planKey(meta.id));
+      if (!planJson) continue;
+      try {
+        const plan: Plan = JSON.parse(planJson);
+        plan.gameMode = to;
+        localStorage.setItem(planKey(meta.id), JSON.stringify(plan));
+      } catch (e) {
+        console.error('Failed to update plan game mode:', e);
+      }
+    }
+
+    const newIndex = planIndex.map((m) => (m.gameMode === from ? { ...m, gameMode: to } : m));
+    localStorage.setItem(INDEX_KEY, JSON.stringify(newIndex));
+    set({ planIndex: newIndex });
+
+    // Keep the open plan in step
+    const { plan } = usePlanStore.getState();
+    if (plan.id === currentPlanId && plan.gameMode === from) {
+      usePlanStore.setState((state) => ({ plan: { ...state.plan, gameMode: to } }));
+    }
+  },
+
   importPlan: (plan) => {
     // Save plan data to localStorage
     localStorage.setItem(planKey(plan.id), JSON.stringify(plan));
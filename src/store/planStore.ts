@@ -1,9 +1,19 @@
 import { create } from 'zustand';
 import { temporal } from 'zundo';
 import { nanoid } from 'nanoid';
-import type { Plan, PlanStation, PlanSector, PlanModule, PlanConnection, PlanModuleConnection, NetworkComputed, GameMode } from '@/types';
-import { STATION_INPUT_ID } from '@/types/plan';
-import { computeNetwork } from '@/engine';
+import type { Plan, PlanStation, PlanSector, PlanMiningSource, PlanMarket, PlanModule, PlanConnection, PlanModuleConnection, PlanPricing, NetworkComputed, GameMode } from '@/types';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import {
+  computeNetwork,
+  DEFAULT_PRICING,
+  type StationSolution,
+  type ModuleCountChange,
+  type ExportTarget,
+} from '@/engine';
+import { applyModuleCountChanges, scaleModuleConnections } from '@/lib/applyModuleCountChanges';
+import { CURRENT_PLAN_VERSION, upgradePlan } from '@/lib/migratePlan';
+import { layoutNetwork, layoutStation } from '@/lib/autoLayout';
+import type { ModuleGroup, NetworkGroup } from '@/lib/clipboard';
 import { useGameDataStore } from './gamedataStore';
 
 function createEmptyPlan(name: string, gameMode: GameMode = 'swi', tags: string[] = []): Plan {
@@ -11,7 +21,7 @@ function createEmptyPlan(name: string, gameMode: GameMode = 'swi', tags: string[
   return {
     id: nanoid(),
     name,
-    version: 1,
+    version: CURRENT_PLAN_VERSION,
     gameMode,
     tags,
     createdAt: now,
@@ -19,6 +29,8 @@ function createEmptyPlan(name: string, gameMode: GameMode = 'swi', tags: string[
     sectors: [],
     stations: [],
     connections: [],
+    miningSources: [],
+    markets: [],
   };
 }
 
@@ -26,9 +38,18 @@ function createEmptyComputed(): NetworkComputed {
   return {
     stations: [],
     connections: [],
+    miningSources: [],
+    markets: [],
     totalInputs: [],
     totalOutputs: [],
     deficits: [],
+    revenue: 0,
+    inputCost: 0,
+    profit: 0,
+    unpricedWares: [],
+    cycles: [],
+    iterations: 0,
+    converged: true,
   };
 }
 
@@ -41,6 +62,7 @@ interface PlanStore {
   createPlan: (name: string) => void;
   loadPlan: (plan: Plan) => void;
   renamePlan: (name: string) => void;
+  updatePricing: (patch: Partial<PlanPricing>) => void;
 
   // Sectors
   addSector: (name: string, position: { x: number; y: number }) => void;
@@ -49,14 +71,34 @@ interface PlanStore {
 
   // Stations
   addStation: (name: string, position: { x: number; y: number }) => void;
+  /** Add a fully built station (e.g. one imported from game XML) */
+  importStation: (station: PlanStation) => void;
   updateStation: (id: string, patch: Partial<PlanStation>) => void;
   removeStation: (id: string) => void;
   moveStationToSector: (stationId: string, sectorId: string | null) => void;
 
+  // Mining sources
+  addMiningSource: (
+    name: string,
+    sectorId: string | null,
+    wareId: string,
+    yieldPerMiner: number,
+    position: { x: number; y: number }
+  ) => void;
+  updateMiningSource: (id: string, patch: Partial<PlanMiningSource>) => void;
+  removeMiningSource: (id: string) => void;
+
+  // Markets
+  addMarket: (name: string, position: { x: number; y: number }) => void;
+  updateMarket: (id: string, patch: Partial<PlanMarket>) => void;
+  removeMarket: (id: string) => void;
+
   // Modules
   addModule: (stationId: string, blueprintId: string, position: { x: number; y: number }) => string;
   updateModule: (stationId: string, moduleId: string, patch: Partial<PlanModule>) => void;
   removeModule: (stationId: string, moduleId: string) => void;
+  applyStationSolution: (stationId: string, solution: StationSolution, replace: boolean) => void;
+  applyModuleCountChanges: (changes: ModuleCountChange[], targets: ExportTarget[]) => void;
 
   // Station-to-station connections
   addConnection: (conn: Omit<PlanConnection, 'id'>) => void;
@@ -68,6 +110,17 @@ interface PlanStore {
   updateModuleConnection: (stationId: string, connId: string, patch: Partial<PlanModuleConnection>) => void;
   removeModuleConnection: (stationId: string, connId: string) => void;
 
+  // Groups of modules or network nodes (one undo step each, for copy/paste)
+  addModules: (stationId: string, group: ModuleGroup) => void;
+  removeModules: (stationId: string, moduleIds: string[]) => void;
+  addNetworkItems: (group: NetworkGroup) => void;
+  /** Remove stations, sectors, mining sources and markets; nodes in removed sectors are kept */
+  removeNetworkItems: (ids: string[]) => void;
+
+  // Auto-layout (one undo step each; locked nodes stay put)
+  autoLayoutStation: (stationId: string) => void;
+  autoLayoutNetwork: () => void;
+
   // Recompute
   recompute: () => void;
 }
@@ -83,23 +136,8 @@ export const usePlanStore = create<PlanStore>()(
   },
 
   loadPlan: (plan) => {
-    // Migrate connections to add ratio/locked fields if missing
-    const migratedPlan: Plan = {
-      ...plan,
-      // Ensure new fields exist
-      gameMode: plan.gameMode || 'swi',
-      tags: plan.tags || [],
-      stations: plan.stations.map((station) => ({
-        ...station,
-        moduleConnections: (station.moduleConnections ?? []).map((conn) => ({
-          ...conn,
-          // Default to unlocked if not set
-          locked: conn.locked ?? false,
-          // Default ratio to 1.0 (100%) if not set - will be updated on next edit
-          ratio: conn.ratio ?? 1.0,
-        })),
-      })),
-    };
+    // Bring plans saved by older versions up to date
+    const migratedPlan = upgradePlan(plan);
     set({ plan: migratedPlan, computed: createEmptyComputed() });
     get().recompute();
   },
@@ -110,6 +148,17 @@ export const usePlanStore = create<PlanStore>()(
     }));
   },
 
+  updatePricing: (patch) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        pricing: { ...DEFAULT_PRICING, ...state.plan.pricing, ...patch },
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
   addSector: (name, position) => {
     const sector: PlanSector = {
       id: nanoid(),
@@ -148,6 +197,12 @@ export const usePlanStore = create<PlanStore>()(
         stations: state.plan.stations.map((st) =>
           st.sectorId === id ? { ...st, sectorId: null } : st
         ),
+        miningSources: state.plan.miningSources?.map((m) =>
+          m.sectorId === id ? { ...m, sectorId: null } : m
+        ),
+        markets: state.plan.markets?.map((m) =>
+          m.sectorId === id ? { ...m, sectorId: null } : m
+        ),
         updatedAt: new Date().toISOString(),
       },
     }));
@@ -173,6 +228,17 @@ export const usePlanStore = create<PlanStore>()(
     }));
   },
 
+  importStation: (station) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        stations: [...state.plan.stations, station],
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
   updateStation: (id, patch) => {
     set((state) => ({
       plan: {
@@ -213,6 +279,96 @@ export const usePlanStore = create<PlanStore>()(
     get().recompute();
   },
 
+  addMiningSource: (name, sectorId, wareId, yieldPerMiner, position) => {
+    const source: PlanMiningSource = {
+      id: nanoid(),
+      name,
+      sectorId,
+      position,
+      wareId,
+      miners: 1,
+      yieldPerMiner,
+    };
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        miningSources: [...(state.plan.miningSources ?? []), source],
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  updateMiningSource: (id, patch) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        miningSources: state.plan.miningSources?.map((m) =>
+          m.id === id ? { ...m, ...patch } : m
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  removeMiningSource: (id) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        miningSources: state.plan.miningSources?.filter((m) => m.id !== id),
+        connections: state.plan.connections.filter((c) => c.sourceStationId !== id),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  addMarket: (name, position) => {
+    const market: PlanMarket = {
+      id: nanoid(),
+      name,
+      sectorId: null,
+      position,
+      wares: [],
+    };
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        markets: [...(state.plan.markets ?? []), market],
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  updateMarket: (id, patch) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        markets: state.plan.markets?.map((m) =>
+          m.id === id ? { ...m, ...patch } : m
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  removeMarket: (id) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        markets: state.plan.markets?.filter((m) => m.id !== id),
+        connections: state.plan.connections.filter(
+          (c) => c.sourceStationId !== id && c.targetStationId !== id
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
   addModule: (stationId, blueprintId, position) => {
     const module: PlanModule = {
       id: nanoid(),
@@ -240,6 +396,15 @@ export const usePlanStore = create<PlanStore>()(
     const station = state.plan.stations.find((s) => s.id === stationId);
     const oldModule = station?.modules.find((m) => m.id === moduleId);
 
+    // A recipe choice only applies to the blueprint it was made for
+    if (
+      patch.blueprintId !== undefined &&
+      patch.blueprintId !== oldModule?.blueprintId &&
+      !('recipeId' in patch)
+    ) {
+      patch = { ...patch, recipeId: undefined };
+    }
+
     // Check if count is changing - if so, auto-scale unlocked connections
     const isCountChanging =
       patch.count !== undefined &&
@@ -250,17 +415,11 @@ export const usePlanStore = create<PlanStore>()(
       const scaleFactor = patch.count! / oldModule.count;
 
       // Scale unlocked connections where this module is involved
-      const scaledConnections = (station?.moduleConnections ?? []).map((conn) => {
-        // Scale if this module is the source (outgoing connections)
-        if (conn.sourceModuleId === moduleId && !conn.locked) {
-          return { ...conn, amount: conn.amount * scaleFactor };
-        }
-        // Scale if this module is the target and source is Station Input (incoming from external)
-        if (conn.targetModuleId === moduleId && conn.sourceModuleId === STATION_INPUT_ID && !conn.locked) {
-          return { ...conn, amount: conn.amount * scaleFactor };
-        }
-        return conn;
-      });
+      const scaledConnections = scaleModuleConnections(
+        station?.moduleConnections ?? [],
+        moduleId,
+        scaleFactor
+      );
 
       // Apply both module update and connection scaling together
       set((state) => ({
@@ -324,6 +483,99 @@ export const usePlanStore = create<PlanStore>()(
     get().recompute();
   },
 
+  applyStationSolution: (stationId, solution, replace) => {
+    const station = get().plan.stations.find((s) => s.id === stationId);
+    if (!station) return;
+
+    // Lay modules out in columns by tier, target producer on the right
+    const COLUMN_WIDTH = 320;
+    const ROW_HEIGHT = 260;
+    const maxTier = Math.max(0, ...solution.modules.map((m) => m.tier));
+    const existing = replace ? [] : station.modules;
+    const baseY = existing.length > 0
+      ? Math.max(...existing.map((m) => m.position.y)) + ROW_HEIGHT
+      : 0;
+
+    const rowsPerTier = new Map<number, number>();
+    const moduleIds = new Map<string, string>();
+    const newModules: PlanModule[] = solution.modules.map((solved) => {
+      const row = rowsPerTier.get(solved.tier) ?? 0;
+      rowsPerTier.set(solved.tier, row + 1);
+      const id = nanoid();
+      moduleIds.set(solved.id, id);
+      return {
+        id,
+        blueprintId: solved.blueprintId,
+        count: solved.count,
+        position: {
+          x: (maxTier - solved.tier) * COLUMN_WIDTH,
+          y: baseY + row * ROW_HEIGHT,
+        },
+      };
+    });
+
+    // Wire flows between the new modules and the Station I/O nodes
+    const newConnections: PlanModuleConnection[] = [];
+    for (const flow of solution.flows) {
+      const sourceModuleId = flow.source === STATION_INPUT_ID
+        ? STATION_INPUT_ID
+        : moduleIds.get(flow.source);
+      const targetModuleId = flow.target === STATION_OUTPUT_ID
+        ? STATION_OUTPUT_ID
+        : moduleIds.get(flow.target);
+      if (!sourceModuleId || !targetModuleId) continue;
+
+      const isStationIO = sourceModuleId === STATION_INPUT_ID || targetModuleId === STATION_OUTPUT_ID;
+      const sourceGross = solution.modules.find((m) => m.id === flow.source)?.grossOutput ?? 0;
+
+      newConnections.push({
+        id: nanoid(),
+        sourceModuleId,
+        targetModuleId,
+        wareId: flow.wareId,
+        amount: flow.amount,
+        mode: 'auto',
+        locked: false,
+        // No ratio for station I/O connections - they don't auto-scale
+        ratio: isStationIO ? undefined : sourceGross > 0 ? flow.amount / sourceGross : 0,
+      });
+    }
+
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        stations: state.plan.stations.map((s) =>
+          s.id === stationId
+            ? {
+                ...s,
+                modules: [...existing, ...newModules],
+                moduleConnections: [
+                  ...(replace ? [] : s.moduleConnections ?? []),
+                  ...newConnections,
+                ],
+                ...(replace && {
+                  stationInputPosition: { x: -COLUMN_WIDTH, y: 0 },
+                  stationOutputPosition: { x: (maxTier + 1) * COLUMN_WIDTH, y: 0 },
+                }),
+              }
+            : s
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  applyModuleCountChanges: (changes, targets) => {
+    const gameData = useGameDataStore.getState().gameData;
+    if (!gameData || changes.length === 0) return;
+
+    set((state) => ({
+      plan: applyModuleCountChanges(state.plan, changes, gameData, targets),
+    }));
+    get().recompute();
+  },
+
   addConnection: (conn) => {
     const connection: PlanConnection = {
       id: nanoid(),
@@ -423,6 +675,108 @@ export const usePlanStore = create<PlanStore>()(
     get().recompute();
   },
 
+  addModules: (stationId, group) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        stations: state.plan.stations.map((s) =>
+          s.id === stationId
+            ? {
+                ...s,
+                modules: [...s.modules, ...group.modules],
+                moduleConnections: [...(s.moduleConnections ?? []), ...group.moduleConnections],
+              }
+            : s
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  removeModules: (stationId, moduleIds) => {
+    const ids = new Set(moduleIds);
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        stations: state.plan.stations.map((s) =>
+          s.id === stationId
+            ? {
+                ...s,
+                modules: s.modules.filter((m) => !ids.has(m.id)),
+                moduleConnections: (s.moduleConnections ?? []).filter(
+                  (c) => !ids.has(c.sourceModuleId) && !ids.has(c.targetModuleId)
+                ),
+              }
+            : s
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  addNetworkItems: (group) => {
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        sectors: [...state.plan.sectors, ...group.sectors],
+        stations: [...state.plan.stations, ...group.stations],
+        miningSources: [...(state.plan.miningSources ?? []), ...group.miningSources],
+        markets: [...(state.plan.markets ?? []), ...group.markets],
+        connections: [...state.plan.connections, ...group.connections],
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  removeNetworkItems: (ids) => {
+    const removed = new Set(ids);
+    const outsideRemoved = <T extends { id: string; sectorId: string | null }>(items: T[]) =>
+      items
+        .filter((item) => !removed.has(item.id))
+        .map((item) => (item.sectorId && removed.has(item.sectorId) ? { ...item, sectorId: null } : item));
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        sectors: state.plan.sectors.filter((s) => !removed.has(s.id)),
+        stations: outsideRemoved(state.plan.stations),
+        miningSources: state.plan.miningSources && outsideRemoved(state.plan.miningSources),
+        markets: state.plan.markets && outsideRemoved(state.plan.markets),
+        connections: state.plan.connections.filter(
+          (c) => !removed.has(c.sourceStationId) && !removed.has(c.targetStationId)
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+    get().recompute();
+  },
+
+  autoLayoutStation: (stationId) => {
+    const gameData = useGameDataStore.getState().gameData;
+    if (!gameData) return;
+
+    set((state) => ({
+      plan: {
+        ...state.plan,
+        stations: state.plan.stations.map((s) =>
+          s.id === stationId ? layoutStation(s, gameData) : s
+        ),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+  },
+
+  autoLayoutNetwork: () => {
+    set((state) => ({
+      plan: {
+        ...layoutNetwork(state.plan),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+  },
+
   recompute: () => {
     const { plan } = get();
     const gameData = useGameDataStore.getState().gameData;
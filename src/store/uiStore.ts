@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import type { ContextMenuState } from '@/components/canvas/context-menu/types';
+import type { PlanClipboard } from '@/lib/clipboard';
 
-export type ViewMode = 'network' | 'station';
+export type ViewMode = 'network' | 'station' | 'supplyChain';
 export type Theme = 'light' | 'dark' | 'system';
 export type ToastType = 'success' | 'error' | 'info';
 
@@ -15,10 +16,18 @@ interface UIStore {
   viewMode: ViewMode;
   activeStationId: string | null;
 
-  // Selection state
+  // Supply chain view: ware shown and its output rate (null = one module's output)
+  supplyChainWareId: string | null;
+  supplyChainRate: number | null;
+
+  // Selection state (selectedNodeId is set when exactly one node is selected)
   selectedNodeId: string | null;
+  selectedNodeIds: string[];
   selectedEdgeId: string | null;
 
+  // Copied modules or network nodes
+  clipboard: PlanClipboard | null;
+
   // Panel state
   sidebarOpen: boolean;
   reportOpen: boolean;
@@ -40,8 +49,11 @@ interface UIStore {
   setViewMode: (mode: ViewMode) => void;
   drillIntoStation: (stationId: string) => void;
   exitStationView: () => void;
+  openSupplyChain: (wareId: string) => void;
+  setSupplyChainRate: (rate: number | null) => void;
 
   selectNode: (nodeId: string | null) => void;
+  selectNodes: (nodeIds: string[]) => void;
   selectEdge: (edgeId: string | null) => void;
   clearSelection: () => void;
 
@@ -59,6 +71,8 @@ interface UIStore {
 
   showToast: (message: string, type?: ToastType) => void;
   dismissToast: () => void;
+
+  setClipboard: (clipboard: PlanClipboard) => void;
 }
 
 let toastTimeoutId: NodeJS.Timeout | null = null;
@@ -66,8 +80,12 @@ let toastTimeoutId: NodeJS.Timeout | null = null;
 export const useUIStore = create<UIStore>((set) => ({
   viewMode: 'network',
   activeStationId: null,
+  supplyChainWareId: null,
+  supplyChainRate: null,
   selectedNodeId: null,
+  selectedNodeIds: [],
   selectedEdgeId: null,
+  clipboard: null,
   sidebarOpen: true,
   reportOpen: false,
   plansOpen: false,
@@ -83,6 +101,7 @@ export const useUIStore = create<UIStore>((set) => ({
       viewMode: 'station',
       activeStationId: stationId,
       selectedNodeId: null,
+      selectedNodeIds: [],
       selectedEdgeId: null,
       contextMenu: null,
     }),
@@ -92,25 +111,51 @@ export const useUIStore = create<UIStore>((set) => ({
       viewMode: 'network',
       activeStationId: null,
       selectedNodeId: null,
+      selectedNodeIds: [],
       selectedEdgeId: null,
       contextMenu: null,
     }),
 
+  openSupplyChain: (wareId) =>
+    set({
+      viewMode: 'supplyChain',
+      activeStationId: null,
+      supplyChainWareId: wareId,
+      supplyChainRate: null,
+      selectedNodeId: null,
+      selectedNodeIds: [],
+      selectedEdgeId: null,
+      contextMenu: null,
+    }),
+
+  setSupplyChainRate: (rate) => set({ supplyChainRate: rate }),
+
   selectNode: (nodeId) =>
     set({
       selectedNodeId: nodeId,
+      selectedNodeIds: nodeId ? [nodeId] : [],
       selectedEdgeId: null,
     }),
 
+  // Clearing the node selection keeps a selected edge (clicking an edge deselects nodes)
+  selectNodes: (nodeIds) =>
+    set((state) => ({
+      selectedNodeId: nodeIds.length === 1 ? nodeIds[0] : null,
+      selectedNodeIds: nodeIds,
+      selectedEdgeId: nodeIds.length > 0 ? null : state.selectedEdgeId,
+    })),
+
   selectEdge: (edgeId) =>
     set({
       selectedNodeId: null,
+      selectedNodeIds: [],
       selectedEdgeId: edgeId,
     }),
 
   clearSelection: () =>
     set({
       selectedNodeId: null,
+      selectedNodeIds: [],
       selectedEdgeId: null,
     }),
 
@@ -150,4 +195,6 @@ export const useUIStore = create<UIStore>((set) => ({
     }
     set({ toast: null });
   },
+
+  setClipboard: (clipboard) => set({ clipboard }),
 }));
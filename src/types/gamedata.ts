@@ -17,6 +17,12 @@ export interface Recipe {
   workforceBonus: number; // e.g., 0.34 = 34% bonus with full workforce
 }
 
+export interface WarePrice {
+  min: number;
+  avg: number;
+  max: number;
+}
+
 export interface Ware {
   id: string;
   name: LocalizedName;
@@ -24,6 +30,14 @@ export interface Ware {
   transport: string;
   volume: number;
   tags: string[];
+  /** Trade price range in credits per unit (not every dataset has prices) */
+  price?: WarePrice;
+}
+
+/** Cost to build one module: credits plus construction wares */
+export interface BuildCost {
+  credits: number;
+  wares: WareInput[];
 }
 
 export interface ProductionModule {
@@ -31,6 +45,7 @@ export interface ProductionModule {
   name: LocalizedName;
   producedWareId: string;
   workforceMax: number;
+  buildCost?: BuildCost;
 }
 
 export interface HabitatModule {
@@ -38,13 +53,19 @@ export interface HabitatModule {
   name: LocalizedName;
   race: string;
   workforceCapacity: number;
+  buildCost?: BuildCost;
 }
 
+/** Cargo category a ware is shipped and stored as */
+export type TransportType = 'container' | 'liquid' | 'solid';
+
 export interface StorageModule {
   id: string;
   name: LocalizedName;
+  /** Capacity in cubic metres */
   cargoMax: number;
-  cargoType: 'container' | 'liquid' | 'solid';
+  cargoType: TransportType;
+  buildCost?: BuildCost;
 }
 
 export type Module = ProductionModule | HabitatModule | StorageModule;
@@ -59,6 +80,26 @@ export interface Sector {
   resources: Record<string, boolean>;
 }
 
+/** Ware consumed by workers, amounts per cycle per `per` workers */
+export interface WorkforceUpkeepWare {
+  ware: string;
+  /** Amount consumed by busy workers (filling production slots) */
+  busy: number;
+  /** Amount consumed by idle workers (excess population) */
+  idle: number;
+}
+
+/** Race-specific workforce upkeep and production bonus */
+export interface RaceWorkforce {
+  /** Cycle length in seconds */
+  cycle: number;
+  /** Number of workers the upkeep amounts apply to */
+  per: number;
+  upkeep: WorkforceUpkeepWare[];
+  /** Scales recipe workforce bonuses for workers of this race (default 1) */
+  bonus?: number;
+}
+
 export interface GameData {
   languages: Record<string, string>;
   wares: Record<string, Ware>;
@@ -69,4 +110,37 @@ export interface GameData {
     storage: Record<string, StorageModule>;
   };
   sectors: Record<string, Sector>;
+  /** Workforce upkeep by habitat race (races not listed use Argon upkeep) */
+  workforce?: Record<string, RaceWorkforce>;
+}
+
+/** Overlay entries are merged over existing ones field by field; null removes an entry */
+export type OverlayEntries<T> = Record<string, Partial<T> | null>;
+
+/** Partial game data merged over a data set (e.g. for economy mods) */
+export interface GameDataOverlay {
+  languages?: Record<string, string>;
+  wares?: OverlayEntries<Ware>;
+  recipes?: OverlayEntries<Recipe>;
+  modules?: {
+    production?: OverlayEntries<ProductionModule>;
+    habitat?: OverlayEntries<HabitatModule>;
+    storage?: OverlayEntries<StorageModule>;
+  };
+  sectors?: OverlayEntries<Sector>;
+  workforce?: OverlayEntries<RaceWorkforce>;
+}
+
+/** A selectable set of game data: a shipped JSON file, or an overlay over one */
+export interface DataSet {
+  id: string;
+  /** Short label shown in the game mode toggle */
+  label: string;
+  /** App title while the set is active */
+  title: string;
+  /** Shipped sets: data file in public/ */
+  file?: string;
+  /** Custom sets: the shipped set the overlay is merged over */
+  baseId?: string;
+  overlay?: GameDataOverlay;
 }
@@ -1,9 +1,11 @@
+import type { TransportType } from './gamedata';
+
 /** Reserved module IDs for Station Input/Output nodes */
 export const STATION_INPUT_ID = '__station_input__';
 export const STATION_OUTPUT_ID = '__station_output__';
 
-/** Game mode: base game or Star Wars Interworlds mod */
-export type GameMode = 'base' | 'swi';
+/** Game mode: ID of the game data set plans are made with ('base', 'swi' or a custom set) */
+export type GameMode = string;
 
 /** Lightweight plan metadata for the plan index */
 export interface PlanMeta {
@@ -21,6 +23,16 @@ export interface ResourceAmount {
   amount: number;
 }
 
+/** Which point of a ware's price range trade is valued at */
+export type PriceLevel = 'min' | 'avg' | 'max';
+
+/** Per-plan price profile */
+export interface PlanPricing {
+  level: PriceLevel;
+  /** Custom prices per ware (credits per unit), taking precedence over the level */
+  overrides: Record<string, number>;
+}
+
 /** The full user plan — serializable to JSON */
 export interface Plan {
   id: string;
@@ -33,6 +45,12 @@ export interface Plan {
   sectors: PlanSector[];
   stations: PlanStation[];
   connections: PlanConnection[];
+  /** Miners gathering raw wares in sectors, connected to stations like a station output */
+  miningSources?: PlanMiningSource[];
+  /** NPC trade hubs the network buys from or sells to */
+  markets?: PlanMarket[];
+  /** Price profile for profit calculations (defaults to average prices) */
+  pricing?: PlanPricing;
 }
 
 export interface PlanSector {
@@ -45,6 +63,46 @@ export interface PlanSector {
   locked?: boolean;
 }
 
+/** Miners gathering one raw ware from a sector's resources */
+export interface PlanMiningSource {
+  id: string;
+  name: string;
+  sectorId: string | null;
+  position: { x: number; y: number };
+  /** Raw ware gathered (must be a resource of the sector to yield anything) */
+  wareId: string;
+  /** Number of mining ships */
+  miners: number;
+  /** Units per hour delivered by one miner */
+  yieldPerMiner: number;
+  /** Whether this source's position is locked on the canvas */
+  locked?: boolean;
+}
+
+/** Whether a market sells a ware to the network (supply) or buys it (demand) */
+export type MarketTradeKind = 'supply' | 'demand';
+
+/** One ware traded at a market */
+export interface PlanMarketWare {
+  wareId: string;
+  kind: MarketTradeKind;
+  /** Max units per hour (unset = unlimited) */
+  limit?: number;
+  /** Credits per unit (unset = plan price profile) */
+  price?: number;
+}
+
+/** NPC trade hub acting as a source or sink for chosen wares */
+export interface PlanMarket {
+  id: string;
+  name: string;
+  sectorId: string | null;
+  position: { x: number; y: number };
+  wares: PlanMarketWare[];
+  /** Whether this market's position is locked on the canvas */
+  locked?: boolean;
+}
+
 export interface PlanStation {
   id: string;
   name: string;
@@ -75,6 +133,8 @@ export interface PlanModule {
   blueprintId: string;
   count: number;
   position: { x: number; y: number };
+  /** Explicit recipe ID (e.g. 'advancedcomposites_teladi'). If not set, inferred from the blueprint. */
+  recipeId?: string;
   /** Custom display order for output wares (wareIds). */
   outputOrder?: string[];
   /** Custom display order for input wares (wareIds). */
@@ -98,8 +158,13 @@ export interface PlanModuleConnection {
    * - 'auto': min(sourceAvailable, targetNeed) - adjusts dynamically
    * - 'custom': use the fixed 'amount' value
    * - 'max': take all available from source (up to target need)
+   * - 'share': take 'share' percent of the source's output
    */
   mode?: ConnectionMode;
+  /** For 'share' mode: percentage (0-100) of the source's output */
+  share?: number;
+  /** Connections with higher priority are supplied first (default 0) */
+  priority?: number;
   /** If true, don't auto-scale when module count changes (only for 'custom' mode) */
   locked?: boolean;
   /** Percentage of source gross output (0-1), used for auto-scaling */
@@ -107,11 +172,13 @@ export interface PlanModuleConnection {
 }
 
 /** Connection mode determines how the amount is calculated */
-export type ConnectionMode = 'auto' | 'custom' | 'max';
+export type ConnectionMode = 'auto' | 'custom' | 'max' | 'share';
 
 export interface PlanConnection {
   id: string;
+  /** Supplying station, mining source or market */
   sourceStationId: string;
+  /** Receiving station or market */
   targetStationId: string;
   wareId: string;
   /** For 'custom' mode: the fixed amount. For 'auto'/'max': ignored (computed dynamically) */
@@ -121,9 +188,32 @@ export interface PlanConnection {
    * - 'auto': min(sourceAvailable, targetNeed) - adjusts dynamically
    * - 'custom': use the fixed 'amount' value
    * - 'max': take all available from source (up to target need)
+   * - 'share': take 'share' percent of the source's output
    */
   mode?: ConnectionMode;
+  /** For 'share' mode: percentage (0-100) of the source's output */
+  share?: number;
+  /** Connections with higher priority are supplied first (default 0) */
+  priority?: number;
   routePoints?: { x: number; y: number }[];
+  /** Ships hauling this connection (unset = unlimited, instant transfer) */
+  transport?: ConnectionTransport;
+}
+
+/** Freighter size class */
+export type ShipClass = 's' | 'm' | 'l';
+
+/** Trade ships assigned to haul a connection */
+export interface ConnectionTransport {
+  shipClass: ShipClass;
+  /** Cargo capacity per ship in cubic metres */
+  cargoCapacity: number;
+  /** Number of ships on the route */
+  ships: number;
+  /** Gate jumps between the two stations' sectors */
+  jumps: number;
+  /** One-way travel time in minutes (overrides the estimate from jumps when set) */
+  travelMinutes?: number;
 }
 
 /** Computed module summary (not persisted) */
@@ -140,6 +230,36 @@ export interface ModuleComputed {
   netOutputs: ResourceAmount[];
 }
 
+/** Storage capacity of one transport type (not persisted) */
+export interface StorageCapacity {
+  transport: TransportType;
+  /** Total capacity in cubic metres */
+  capacity: number;
+  /** Stored wares sharing this capacity */
+  wareIds: string[];
+}
+
+/** How long storage lasts for one traded ware (not persisted) */
+export interface WareBuffer {
+  wareId: string;
+  direction: 'input' | 'output';
+  transport: string;
+  /** Units per hour bought (input) or sold (output) */
+  amount: number;
+  /** Units that fit in this ware's share of storage */
+  storedAmount: number;
+  /** Hours until the input stock runs dry or the output storage fills up (null if unlimited) */
+  bufferHours: number | null;
+}
+
+/** Computed station storage summary (not persisted) */
+export interface StationStorage {
+  capacities: StorageCapacity[];
+  buffers: WareBuffer[];
+  /** Traded wares with no storage of their transport type */
+  unstorableWares: string[];
+}
+
 /** Computed station summary (not persisted) */
 export interface StationComputed {
   stationId: string;
@@ -148,8 +268,8 @@ export interface StationComputed {
   totalWorkforceCapacity: number;
   /** Actual population (capped to required unless fillHabitats is true) */
   actualPopulation: number;
-  workforceFoodDemand: number;
-  workforceMedicalDemand: number;
+  /** Workforce upkeep wares per hour (depends on habitat races) */
+  workforceUpkeep: ResourceAmount[];
   /** Per-module computed data */
   modules: ModuleComputed[];
   /** All amounts are per hour (3600 seconds) */
@@ -177,8 +297,26 @@ export interface StationComputed {
   remainingOutputs: ResourceAmount[];
   /** Computed effective amounts for module connections */
   moduleConnections: ConnectionComputed[];
+  /** Credits per hour from selling net outputs */
+  revenue: number;
+  /** Credits per hour spent buying net inputs */
+  inputCost: number;
+  /** Revenue minus input cost (credits per hour) */
+  profit: number;
+  /** Traded wares without a known price (left out of revenue and cost) */
+  unpricedWares: string[];
+  /** Storage capacity and buffer time for traded wares */
+  storage: StationStorage;
 }
 
+/**
+ * What held a connection's flow back:
+ * - 'source': the source has no more output to give
+ * - 'target': the target needs no more
+ * - 'transport': the assigned ships cannot haul more
+ */
+export type ConnectionLimit = 'source' | 'target' | 'transport';
+
 /** Computed connection with effective amount (used for both module and inter-station connections) */
 export interface ConnectionComputed {
   connectionId: string;
@@ -188,15 +326,79 @@ export interface ConnectionComputed {
   sourceConstrained: boolean;
   /** Whether the connection is constrained by target need */
   targetConstrained: boolean;
+  /** What stopped the flow from growing (unset when only the connection's own amount did) */
+  limitedBy?: ConnectionLimit;
+  /** Other connections sharing the used-up source output or target need */
+  sharedWith?: string[];
+  /** Whether assigned ships cannot haul the full flow (inter-station connections only) */
+  transportConstrained?: boolean;
+  /** Ships needed to haul the flow before any transport cap (inter-station connections only) */
+  requiredShips?: number;
+}
+
+/** Computed mining source output (not persisted) */
+export interface MiningSourceComputed {
+  sourceId: string;
+  wareId: string;
+  /** Whether the source's sector has this resource */
+  available: boolean;
+  /** Units per hour gathered by all miners */
+  output: number;
+  /** Units per hour delivered to stations through connections */
+  consumed: number;
+  /** Units per hour not yet connected */
+  remaining: number;
+}
+
+/** Computed trade of one market ware (not persisted) */
+export interface MarketWareComputed {
+  wareId: string;
+  kind: MarketTradeKind;
+  /** Max units per hour (null = unlimited) */
+  limit: number | null;
+  /** Units per hour traded through connections */
+  traded: number;
+  /** Credits per unit (null if unknown) */
+  price: number | null;
+}
+
+/** Computed market summary (not persisted) */
+export interface MarketComputed {
+  marketId: string;
+  wares: MarketWareComputed[];
+}
+
+/** Loop in the station connection graph (not persisted) */
+export interface NetworkCycle {
+  /** Stations that supply each other, directly or through others */
+  stationIds: string[];
+  /** Connections running between these stations */
+  connectionIds: string[];
 }
 
 /** Computed network summary (not persisted) */
 export interface NetworkComputed {
   stations: StationComputed[];
   connections: ConnectionComputed[];
+  miningSources: MiningSourceComputed[];
+  markets: MarketComputed[];
   totalInputs: ResourceAmount[];
   totalOutputs: ResourceAmount[];
   deficits: ResourceDeficit[];
+  /** Credits per hour from wares leaving the network */
+  revenue: number;
+  /** Credits per hour spent on wares entering the network */
+  inputCost: number;
+  /** Revenue minus input cost (credits per hour) */
+  profit: number;
+  /** Traded wares without a known price (left out of revenue and cost) */
+  unpricedWares: string[];
+  /** Loops in the station connection graph */
+  cycles: NetworkCycle[];
+  /** Passes needed for flows to settle */
+  iterations: number;
+  /** Whether flows settled within the iteration limit */
+  converged: boolean;
 }
 
 export interface ResourceDeficit {
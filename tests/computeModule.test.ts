@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findRecipeForModule } from '@/engine';
+import { loadGameData } from './fixtures';
+
+const gameData = loadGameData();
+
+test('race modules default to their race recipe', () => {
+  const teladi = gameData.modules.production['prod_tel_hullparts_macro'];
+  assert.equal(findRecipeForModule(teladi, gameData.recipes)?.id, 'hullparts_teladi');
+
+  const paranid = gameData.modules.production['prod_par_medicalsupplies_macro'];
+  assert.equal(findRecipeForModule(paranid, gameData.recipes)?.id, 'medicalsupplies_paranid');
+});
+
+test('generic modules default to the default recipe', () => {
+  const generic = gameData.modules.production['prod_gen_hullparts_macro'];
+  assert.equal(findRecipeForModule(generic, gameData.recipes)?.id, 'hullparts_default');
+});
+
+test('an explicit recipe wins over the inferred one', () => {
+  const teladi = gameData.modules.production['prod_tel_hullparts_macro'];
+  assert.equal(findRecipeForModule(teladi, gameData.recipes, 'hullparts_default')?.id, 'hullparts_default');
+});
+
+test('a recipe for another ware is ignored', () => {
+  const teladi = gameData.modules.production['prod_tel_hullparts_macro'];
+  assert.equal(findRecipeForModule(teladi, gameData.recipes, 'energycells_default')?.id, 'hullparts_teladi');
+});
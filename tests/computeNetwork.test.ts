@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlanModuleConnection } from '@/types';
+import { STATION_INPUT_ID, STATION_OUTPUT_ID } from '@/types/plan';
+import { computeNetwork } from '@/engine';
+import { createModule, createPlan, createStation, loadGameData } from './fixtures';
+
+const gameData = loadGameData();
+
+// Two refined metals modules need 11520 ore per hour
+const ORE_NEEDED = 11520;
+
+function computeRefinery(oreLimit: number) {
+  const link = (id: string, source: string, target: string, wareId: string): PlanModuleConnection => ({
+    id,
+    sourceModuleId: source,
+    targetModuleId: target,
+    wareId,
+    amount: 0,
+    mode: 'auto',
+  });
+  const station = createStation(
+    'refinery',
+    [createModule('smelter', 'prod_gen_refinedmetals_macro', 2)],
+    [
+      link('ore', STATION_INPUT_ID, 'smelter', 'ore'),
+      link('energy', STATION_INPUT_ID, 'smelter', 'energycells'),
+      link('metals', 'smelter', STATION_OUTPUT_ID, 'refinedmetals'),
+    ]
+  );
+  const plan = createPlan([station], {
+    markets: [
+      {
+        id: 'market',
+        name: 'Ore market',
+        sectorId: null,
+        position: { x: 0, y: 0 },
+        wares: [{ wareId: 'ore', kind: 'supply', limit: oreLimit }],
+      },
+    ],
+    connections: [
+      { id: 'supply', sourceStationId: 'market', targetStationId: 'refinery', wareId: 'ore', amount: 0, mode: 'auto' },
+    ],
+    pricing: { level: 'avg', overrides: { ore: 50, energycells: 16, refinedmetals: 250 } },
+  });
+  return computeNetwork(plan, gameData).stations[0];
+}
+
+const amountOf = (items: { wareId: string; amount: number }[], wareId: string) =>
+  items.find((i) => i.wareId === wareId)?.amount ?? 0;
+
+const assertClose = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-6 * Math.max(Math.abs(expected), 1), `${actual} vs ${expected}`);
+
+test('a starved station buys and sells in proportion to what it can produce', () => {
+  const full = computeRefinery(ORE_NEEDED);
+  const starved = computeRefinery(ORE_NEEDED * 0.4);
+
+  assertClose(amountOf(starved.netOutputs, 'refinedmetals'), amountOf(full.netOutputs, 'refinedmetals') * 0.4);
+  assertClose(amountOf(starved.netInputs, 'ore'), amountOf(full.netInputs, 'ore') * 0.4);
+  assertClose(amountOf(starved.netInputs, 'energycells'), amountOf(full.netInputs, 'energycells') * 0.4);
+  assertClose(starved.inputCost, full.inputCost * 0.4);
+  assertClose(starved.profit, full.profit * 0.4);
+});
+
+test('a starved station keeps module figures in line with its totals', () => {
+  const starved = computeRefinery(ORE_NEEDED * 0.4);
+  const smelter = starved.modules[0];
+
+  assertClose(amountOf(smelter.grossOutputs, 'refinedmetals'), amountOf(starved.grossOutputs, 'refinedmetals'));
+  assertClose(amountOf(smelter.grossInputs, 'ore'), amountOf(starved.grossInputs, 'ore'));
+  // The shortfall still shows against the full-rate need
+  assertClose(amountOf(starved.remainingInputs, 'ore'), ORE_NEEDED * 0.6);
+});
@@ -0,0 +1,50 @@
+/**
+ * Shared test data: the bundled game data files and small plan builders.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { GameData, Plan, PlanModule, PlanModuleConnection, PlanStation } from '@/types';
+
+/**
+ * Load a bundled game data file from public/.
+ */
+export function loadGameData(file = 'gamedata-base.json'): GameData {
+  return JSON.parse(readFileSync(new URL(`../public/${file}`, import.meta.url), 'utf-8')) as GameData;
+}
+
+export function createModule(id: string, blueprintId: string, count = 1): PlanModule {
+  return { id, blueprintId, count, position: { x: 0, y: 0 } };
+}
+
+export function createStation(
+  id: string,
+  modules: PlanModule[],
+  moduleConnections: PlanModuleConnection[] = []
+): PlanStation {
+  return {
+    id,
+    name: id,
+    sectorId: null,
+    position: { x: 0, y: 0 },
+    sunlightOverride: null,
+    modules,
+    moduleConnections,
+  };
+}
+
+export function createPlan(stations: PlanStation[], rest: Partial<Plan> = {}): Plan {
+  const now = new Date().toISOString();
+  return {
+    id: 'plan',
+    name: 'Test plan',
+    version: 1,
+    gameMode: 'base',
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    sectors: [],
+    stations,
+    connections: [],
+    ...rest,
+  };
+}
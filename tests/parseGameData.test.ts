@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseModules } from '../scripts/gamedata/modules';
+import { collectWares, parseBlueprints, parseWare } from '../scripts/gamedata/wares';
+import { parseXml } from '../scripts/gamedata/xml';
+
+const WARES_XML = `<?xml version="1.0" encoding="utf-8"?>
+<wares>
+  <ware id="energycells" group="energy" transport="container" volume="6">
+    <price min="10" average="16" max="22"/>
+  </ware>
+  <ware id="module_gen_prod_energycells_01" tags="module">
+    <price min="250000" average="300000" max="350000"/>
+    <production time="10" amount="1" method="default">
+      <primary><ware ware="energycells" amount="50"/></primary>
+    </production>
+    <component ref="prod_gen_energycells_macro"/>
+  </ware>
+</wares>`;
+
+const MACRO_XML = `<macros>
+  <macro name="prod_gen_energycells_macro" class="production">
+    <properties>
+      <identification name="Energy Cell Production"/>
+      <production wares="energycells"/>
+      <workforce max="90"/>
+    </properties>
+  </macro>
+</macros>`;
+
+const wares = collectWares(parseXml(WARES_XML));
+
+test('wares get their min, average and max price', () => {
+  assert.deepEqual(parseWare(wares.get('energycells')!, new Map()).price, { min: 10, avg: 16, max: 22 });
+});
+
+test('modules get the build cost of their blueprint', () => {
+  const modules = parseModules([parseXml(MACRO_XML)], parseBlueprints(wares), (id) => wares.has(id), new Map());
+  assert.deepEqual(modules.production[0].buildCost, {
+    credits: 300000,
+    wares: [{ ware: 'energycells', amount: 50 }],
+  });
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeModuleIO, simulatePlan } from '@/engine';
+import { createModule, createPlan, createStation, loadGameData } from './fixtures';
+
+const gameData = loadGameData();
+
+test('long cycles simulated in shorter steps deliver the steady-state rate', () => {
+  // Refined metals take 150 s per cycle: more than two 60 s steps
+  const recipe = gameData.recipes['refinedmetals_default'];
+  assert.equal(recipe.time, 150);
+
+  const planModule = { ...createModule('module', 'prod_gen_refinedmetals_macro'), recipeId: recipe.id };
+  const plan = createPlan([createStation('station', [planModule])]);
+  const expected = computeModuleIO(planModule, gameData, 100, 0).grossOutputs[0].amount;
+
+  const result = simulatePlan(plan, gameData, {
+    hours: 1,
+    stepSeconds: 60,
+    startingStockHours: 1,
+    tradeWithMarket: false,
+    unlimitedStorage: true,
+  });
+  const series = result.stations[0].wares.find((w) => w.wareId === recipe.wareId)!;
+  const produced = series.values[series.values.length - 1];
+  assert.ok(Math.abs(produced - expected) < 1e-6 * expected, `${produced} vs ${expected}`);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GameData } from '@/types';
+import { computeStation, solveStation, type StationSolution } from '@/engine';
+import { createModule, createStation, loadGameData } from './fixtures';
+
+const baseData = loadGameData();
+
+// Boron workers with half the usual workforce bonus
+const gameData: GameData = {
+  ...baseData,
+  workforce: {
+    ...baseData.workforce,
+    boron: { ...baseData.workforce!.boron, bonus: 0.5 },
+  },
+};
+
+function solve(habitatId: string): StationSolution {
+  return solveStation('hullparts', 5000, gameData, {
+    sunlight: 100,
+    applyWorkforceBonus: true,
+    habitatId,
+  });
+}
+
+function getTargetModule(solution: StationSolution) {
+  return solution.modules.find((m) => m.wareId === solution.targetWareId)!;
+}
+
+test('the habitat race bonus sizes modules at the rate the station computes', () => {
+  const solution = solve('hab_bor_l_01_macro');
+  const station = createStation(
+    'station',
+    solution.modules.map((m) => createModule(m.id, m.blueprintId, m.count))
+  );
+  const computed = computeStation(station, [], gameData);
+
+  const target = getTargetModule(solution);
+  const produced = computed.modules.find((m) => m.moduleId === target.id)!.grossOutputs[0].amount;
+  assert.ok(Math.abs(produced - target.grossOutput) < 1e-6, `${produced} vs ${target.grossOutput}`);
+});
+
+test('a smaller race bonus means less output per module', () => {
+  const argon = getTargetModule(solve('hab_arg_l_01_macro'));
+  const boron = getTargetModule(solve('hab_bor_l_01_macro'));
+  assert.ok(boron.grossOutput / boron.count < argon.grossOutput / argon.count);
+});